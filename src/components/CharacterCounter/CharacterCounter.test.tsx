@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { CharacterCounter } from './CharacterCounter'
+
+describe('CharacterCounter', () => {
+  it('shows the remaining graphemes against the default 300 limit', () => {
+    render(<CharacterCounter graphemeLength={42} data-testid="counter" />)
+    expect(screen.getByTestId('counter')).toHaveTextContent('258')
+  })
+
+  it('uses a custom maxGraphemes', () => {
+    render(<CharacterCounter graphemeLength={8} maxGraphemes={10} data-testid="counter" />)
+    expect(screen.getByTestId('counter')).toHaveTextContent('2')
+  })
+
+  it('adds the overLimit class and data attribute when over the limit', () => {
+    render(<CharacterCounter graphemeLength={305} data-testid="counter" />)
+    const counter = screen.getByTestId('counter')
+    expect(counter).toHaveTextContent('-5')
+    expect(counter).toHaveClass('text-red-600')
+    expect(counter).toHaveAttribute('data-over-limit')
+  })
+
+  it('does not mark the counter when within the limit', () => {
+    render(<CharacterCounter graphemeLength={300} data-testid="counter" />)
+    const counter = screen.getByTestId('counter')
+    expect(counter).not.toHaveClass('text-red-600')
+    expect(counter).not.toHaveAttribute('data-over-limit')
+  })
+
+  it('uses a custom renderCount when provided', () => {
+    render(
+      <CharacterCounter
+        graphemeLength={12}
+        maxGraphemes={20}
+        renderCount={({ graphemeLength, maxGraphemes }) => `${graphemeLength} / ${maxGraphemes}`}
+        data-testid="counter"
+      />,
+    )
+    expect(screen.getByTestId('counter')).toHaveTextContent('12 / 20')
+  })
+})
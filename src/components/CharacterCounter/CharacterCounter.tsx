@@ -0,0 +1,117 @@
+import { useMemo, type HTMLAttributes, type ReactNode } from 'react'
+import type { CounterClassNames } from '../../types/classNames'
+import { defaultCounterClassNames } from '../../defaults/classNames'
+import { generateClassNames } from '../../utils/classNames'
+import { MAX_POST_GRAPHEMES } from '../../utils/graphemes'
+
+// ─── Render Prop Types ───────────────────────────────────────────────────────
+
+export interface CharacterCountProps {
+  /** Current length of the text in graphemes */
+  graphemeLength: number
+  /** The grapheme limit */
+  maxGraphemes: number
+  /** `maxGraphemes - graphemeLength` — negative when over the limit */
+  remaining: number
+  /** Whether the text is longer than `maxGraphemes` */
+  isOverLimit: boolean
+}
+
+// ─── Component Props ─────────────────────────────────────────────────────────
+
+export interface CharacterCounterProps extends Omit<HTMLAttributes<HTMLSpanElement>, 'children'> {
+  /**
+   * Current length of the text in graphemes.
+   * Pass the `graphemeLength` reported by `RichTextEditor`'s `onChange`.
+   */
+  graphemeLength: number
+
+  /**
+   * The grapheme limit.
+   * @default 300  (the `app.bsky.feed.post` limit)
+   */
+  maxGraphemes?: number
+
+  /**
+   * Custom renderer for the counter contents.
+   * If not provided, renders the number of remaining graphemes.
+   */
+  renderCount?: (props: CharacterCountProps) => ReactNode
+
+  /**
+   * CSS class names for each styleable part of the component.
+   *
+   * Use `generateClassNames()` to cleanly merge with the built-in defaults:
+   * @example
+   * ```tsx
+   * import { generateClassNames, defaultCounterClassNames } from 'bsky-richtext-react'
+   *
+   * <CharacterCounter
+   *   classNames={generateClassNames([
+   *     defaultCounterClassNames,
+   *     { overLimit: 'text-orange-600' },
+   *   ], cn)}
+   * />
+   * ```
+   */
+  classNames?: Partial<CounterClassNames>
+}
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+/**
+ * `CharacterCounter` shows how many graphemes are left before a post hits
+ * its length limit. Pair it with `RichTextEditor`'s `onChange` and
+ * `maxGraphemes` props.
+ *
+ * @example
+ * ```tsx
+ * const [length, setLength] = useState(0)
+ *
+ * <RichTextEditor
+ *   maxGraphemes={300}
+ *   onChange={(record, { graphemeLength }) => setLength(graphemeLength)}
+ * />
+ * <CharacterCounter graphemeLength={length} maxGraphemes={300} />
+ * ```
+ *
+ * @example Custom rendering
+ * ```tsx
+ * <CharacterCounter
+ *   graphemeLength={length}
+ *   renderCount={({ graphemeLength, maxGraphemes }) => `${graphemeLength} / ${maxGraphemes}`}
+ * />
+ * ```
+ */
+export function CharacterCounter({
+  graphemeLength,
+  maxGraphemes = MAX_POST_GRAPHEMES,
+  renderCount,
+  classNames: classNamesProp,
+  ...spanProps
+}: CharacterCounterProps) {
+  // Merge provided classNames with defaults.
+  // Memoized via JSON.stringify so inline object literals don't recalculate every render.
+  const cn = useMemo(
+    () => generateClassNames([defaultCounterClassNames, classNamesProp]),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [JSON.stringify(classNamesProp)],
+  )
+
+  const remaining = maxGraphemes - graphemeLength
+  const isOverLimit = remaining < 0
+  const rootClass = isOverLimit ? `${cn.root ?? ''} ${cn.overLimit ?? ''}`.trim() : cn.root
+
+  return (
+    <span
+      className={rootClass}
+      aria-live="polite"
+      data-over-limit={isOverLimit ? '' : undefined}
+      {...spanProps}
+    >
+      {renderCount
+        ? renderCount({ graphemeLength, maxGraphemes, remaining, isOverLimit })
+        : remaining}
+    </span>
+  )
+}
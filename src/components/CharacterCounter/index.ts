@@ -0,0 +1,2 @@
+export { CharacterCounter } from './CharacterCounter'
+export type { CharacterCounterProps, CharacterCountProps } from './CharacterCounter'
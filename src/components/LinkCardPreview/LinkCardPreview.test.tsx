@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest'
+import { fireEvent, render, screen, waitFor } from '@testing-library/react'
+import { LinkCardPreview, type LinkCardMetadata } from './LinkCardPreview'
+
+const metadata: LinkCardMetadata = {
+  uri: 'https://www.example.com/article',
+  title: 'An article',
+  description: 'Something worth reading',
+  thumb: 'https://www.example.com/thumb.jpg',
+}
+
+describe('LinkCardPreview', () => {
+  it('shows the domain while loading, then the fetched metadata', async () => {
+    const onLoad = vi.fn()
+    const fetchMetadata = vi.fn(() => Promise.resolve(metadata))
+    render(
+      <LinkCardPreview
+        uri={metadata.uri}
+        fetchMetadata={fetchMetadata}
+        onLoad={onLoad}
+        data-testid="card"
+      />,
+    )
+
+    expect(screen.getByTestId('card')).toHaveAttribute('data-status', 'loading')
+    expect(screen.getByText('example.com')).toBeInTheDocument()
+
+    expect(await screen.findByText('An article')).toBeInTheDocument()
+    expect(screen.getByText('Something worth reading')).toBeInTheDocument()
+    expect(screen.getByRole('presentation')).toHaveAttribute('src', metadata.thumb)
+    expect(onLoad).toHaveBeenCalledWith(metadata)
+    expect(fetchMetadata).toHaveBeenCalledWith(metadata.uri, {
+      signal: expect.any(AbortSignal) as AbortSignal,
+    })
+  })
+
+  it('does not refetch when only the fetcher identity changes', async () => {
+    const fetchMetadata = vi.fn(() => Promise.resolve(metadata))
+    const { rerender } = render(
+      <LinkCardPreview uri={metadata.uri} fetchMetadata={fetchMetadata} />,
+    )
+    await screen.findByText('An article')
+
+    rerender(<LinkCardPreview uri={metadata.uri} fetchMetadata={() => Promise.resolve(metadata)} />)
+    expect(fetchMetadata).toHaveBeenCalledTimes(1)
+  })
+
+  it('aborts the previous fetch when the uri changes', async () => {
+    const signals: AbortSignal[] = []
+    const fetchMetadata = vi.fn((uri: string, { signal }: { signal: AbortSignal }) => {
+      signals.push(signal)
+      return Promise.resolve({ ...metadata, uri, title: uri })
+    })
+    const { rerender } = render(
+      <LinkCardPreview uri="https://a.com" fetchMetadata={fetchMetadata} />,
+    )
+    rerender(<LinkCardPreview uri="https://b.com" fetchMetadata={fetchMetadata} />)
+
+    expect(await screen.findByText('https://b.com')).toBeInTheDocument()
+    expect(signals[0]?.aborted).toBe(true)
+    expect(screen.queryByText('https://a.com')).not.toBeInTheDocument()
+  })
+
+  it('reports fetch errors', async () => {
+    const onError = vi.fn()
+    render(
+      <LinkCardPreview
+        uri="https://example.com"
+        fetchMetadata={() => Promise.reject(new Error('nope'))}
+        onError={onError}
+        data-testid="card"
+      />,
+    )
+    await waitFor(() => expect(screen.getByTestId('card')).toHaveAttribute('data-status', 'error'))
+    expect(onError).toHaveBeenCalledWith(expect.any(Error))
+  })
+
+  it('reports errors thrown synchronously by the fetcher', async () => {
+    const onError = vi.fn()
+    const error = new Error('bad uri')
+    render(
+      <LinkCardPreview
+        uri="https://example.com"
+        fetchMetadata={() => {
+          throw error
+        }}
+        onError={onError}
+        data-testid="card"
+      />,
+    )
+    await waitFor(() => expect(screen.getByTestId('card')).toHaveAttribute('data-status', 'error'))
+    expect(onError).toHaveBeenCalledWith(error)
+  })
+
+  it('renders a remove button only with onRemove', async () => {
+    const onRemove = vi.fn()
+    const fetchMetadata = () => Promise.resolve(metadata)
+    const { rerender } = render(
+      <LinkCardPreview uri={metadata.uri} fetchMetadata={fetchMetadata} />,
+    )
+    expect(screen.queryByRole('button')).not.toBeInTheDocument()
+
+    rerender(
+      <LinkCardPreview uri={metadata.uri} fetchMetadata={fetchMetadata} onRemove={onRemove} />,
+    )
+    fireEvent.click(screen.getByRole('button', { name: 'Remove link card' }))
+    expect(onRemove).toHaveBeenCalled()
+    await screen.findByText('An article')
+  })
+})
@@ -0,0 +1,216 @@
+import { useEffect, useMemo, useRef, useState, type HTMLAttributes } from 'react'
+import type { LinkCardClassNames } from '../../types/classNames'
+import { defaultLinkCardClassNames } from '../../defaults/classNames'
+import { generateClassNames } from '../../utils/classNames'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/**
+ * Metadata of a linked page — the fields of an `app.bsky.embed.external`
+ * embed. `thumb` is an image URL for the preview; upload it as a blob to use
+ * it in the embed.
+ */
+export interface LinkCardMetadata {
+  /** The link URI */
+  uri: string
+  /** Page title */
+  title: string
+  /** Page description */
+  description: string
+  /** Thumbnail image URL */
+  thumb?: string
+}
+
+// ─── Component Props ─────────────────────────────────────────────────────────
+
+export interface LinkCardPreviewProps extends Omit<
+  HTMLAttributes<HTMLDivElement>,
+  'children' | 'onLoad' | 'onError'
+> {
+  /**
+   * The link to preview — e.g. the URI passed to `RichTextEditor`'s
+   * `onLinkCardRequested`.
+   */
+  uri: string
+
+  /**
+   * Fetch the metadata of a page. There is no built-in fetcher: link
+   * metadata has to be scraped server-side (or through a service such as
+   * Bluesky's cardyb) because of CORS.
+   *
+   * Called again only when `uri` changes; the signal is aborted when `uri`
+   * changes or the component unmounts before the promise settles.
+   *
+   * @example
+   * ```tsx
+   * fetchMetadata={async (uri, { signal }) => {
+   *   const res = await fetch(`/api/link-meta?url=${encodeURIComponent(uri)}`, { signal })
+   *   return res.json()
+   * }}
+   * ```
+   */
+  fetchMetadata: (uri: string, options: { signal: AbortSignal }) => Promise<LinkCardMetadata>
+
+  /**
+   * Called with the metadata once it is fetched — use it to build the
+   * external embed of the post.
+   */
+  onLoad?: (metadata: LinkCardMetadata) => void
+
+  /**
+   * Called when `fetchMetadata` rejects.
+   */
+  onError?: (error: unknown) => void
+
+  /**
+   * Called when the remove button is clicked. The button is only rendered
+   * when this prop is provided.
+   */
+  onRemove?: () => void
+
+  /**
+   * CSS class names for each styleable part of the component.
+   *
+   * Use `generateClassNames()` to cleanly merge with the built-in defaults:
+   * @example
+   * ```tsx
+   * import { generateClassNames, defaultLinkCardClassNames } from 'bsky-richtext-react'
+   *
+   * <LinkCardPreview
+   *   classNames={generateClassNames([
+   *     defaultLinkCardClassNames,
+   *     { root: 'rounded-xl' },
+   *   ], cn)}
+   * />
+   * ```
+   */
+  classNames?: Partial<LinkCardClassNames>
+}
+
+type LinkCardState =
+  | { status: 'loading' }
+  | { status: 'loaded'; metadata: LinkCardMetadata }
+  | { status: 'error' }
+
+/** Host shown on the card, without "www." — the URI itself when it does not parse */
+function toDomain(uri: string): string {
+  try {
+    return new URL(uri).hostname.replace(/^www\./, '')
+  } catch {
+    return uri
+  }
+}
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+/**
+ * `LinkCardPreview` shows the external embed card for a link: thumbnail,
+ * title, description and domain, fetched with a consumer-supplied
+ * `fetchMetadata`. Pair it with `RichTextEditor`'s `onLinkCardRequested`.
+ *
+ * @example
+ * ```tsx
+ * const [cardUri, setCardUri] = useState<string>()
+ * const [external, setExternal] = useState<LinkCardMetadata>()
+ *
+ * <RichTextEditor onLinkCardRequested={(uri) => setCardUri((current) => current ?? uri)} />
+ * {cardUri && (
+ *   <LinkCardPreview
+ *     uri={cardUri}
+ *     fetchMetadata={fetchLinkMeta}
+ *     onLoad={setExternal}
+ *     onRemove={() => setCardUri(undefined)}
+ *   />
+ * )}
+ * ```
+ */
+export function LinkCardPreview({
+  uri,
+  fetchMetadata,
+  onLoad,
+  onError,
+  onRemove,
+  classNames: classNamesProp,
+  ...divProps
+}: LinkCardPreviewProps) {
+  // Merge provided classNames with defaults.
+  // Memoized via JSON.stringify so inline object literals don't recalculate every render.
+  const cn = useMemo(
+    () => generateClassNames([defaultLinkCardClassNames, classNamesProp]),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [JSON.stringify(classNamesProp)],
+  )
+
+  const [state, setState] = useState<LinkCardState>({ status: 'loading' })
+
+  // Always call the latest callbacks without refetching when they change
+  const callbacks = useRef({ fetchMetadata, onLoad, onError })
+  useEffect(() => {
+    callbacks.current = { fetchMetadata, onLoad, onError }
+  })
+
+  useEffect(() => {
+    const controller = new AbortController()
+    setState({ status: 'loading' })
+
+    // Wrapped so a fetcher that throws synchronously ends up in the error
+    // state too, rather than in the render tree
+    new Promise<LinkCardMetadata>((resolve) => {
+      resolve(callbacks.current.fetchMetadata(uri, { signal: controller.signal }))
+    }).then(
+      (metadata) => {
+        if (controller.signal.aborted) return
+        setState({ status: 'loaded', metadata })
+        callbacks.current.onLoad?.(metadata)
+      },
+      (error: unknown) => {
+        if (controller.signal.aborted) return
+        setState({ status: 'error' })
+        callbacks.current.onError?.(error)
+      },
+    )
+
+    return () => controller.abort()
+  }, [uri])
+
+  const domain = toDomain(uri)
+
+  return (
+    <div
+      className={cn.root}
+      data-status={state.status}
+      aria-busy={state.status === 'loading'}
+      {...divProps}
+    >
+      {state.status === 'loading' && <span className={cn.loading}>{domain}</span>}
+
+      {state.status === 'error' && (
+        <span className={cn.error}>Could not load a preview for {domain}</span>
+      )}
+
+      {state.status === 'loaded' && (
+        <>
+          {state.metadata.thumb && <img className={cn.thumb} src={state.metadata.thumb} alt="" />}
+          <div className={cn.body}>
+            <span className={cn.title}>{state.metadata.title || uri}</span>
+            {state.metadata.description && (
+              <span className={cn.description}>{state.metadata.description}</span>
+            )}
+            <span className={cn.domain}>{domain}</span>
+          </div>
+        </>
+      )}
+
+      {onRemove && (
+        <button
+          type="button"
+          className={cn.remove}
+          aria-label="Remove link card"
+          onClick={onRemove}
+        >
+          ×
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,2 @@
+export { LinkCardPreview } from './LinkCardPreview'
+export type { LinkCardPreviewProps, LinkCardMetadata } from './LinkCardPreview'
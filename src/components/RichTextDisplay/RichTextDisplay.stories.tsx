@@ -240,3 +240,16 @@ export const WithURLResolvers: Story = {
     linkUrl: (uri) => `https://go.myapp.com?url=${encodeURIComponent(uri)}`,
   },
 }
+
+/**
+ * `maxGraphemes` and `maxLines` truncate long text without cutting through a
+ * facet, followed by an ellipsis and a "Show more" toggle that expands inline.
+ */
+export const Truncated: Story = {
+  name: 'Truncation & Show More',
+  args: {
+    ...AllFacetTypes.args,
+    maxGraphemes: 40,
+    maxLines: 3,
+  },
+}
@@ -1,7 +1,10 @@
 import { describe, it, expect, vi } from 'vitest'
-import { render, screen } from '@testing-library/react'
+import { fireEvent, render, screen } from '@testing-library/react'
 import { RichTextDisplay } from './RichTextDisplay'
-import type { RichTextRecord } from '../../types/facets'
+import { createFacetFeatureRegistry } from './featureRegistry'
+import type { AnyFacetFeature, RichTextRecord, UnknownFacetFeature } from '../../types/facets'
+import type { InvalidFacet } from '../../utils/parser'
+import { byteRangeOf } from '../../test/facets'
 
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
@@ -9,20 +12,6 @@ function buildRecord(text: string, facets: RichTextRecord['facets']): RichTextRe
   return { text, facets }
 }
 
-function encodeOffset(text: string, substring: string): { byteStart: number; byteEnd: number } {
-  const encoder = new TextEncoder()
-  const fullBytes = encoder.encode(text)
-  const subBytes = encoder.encode(substring)
-
-  // Find the byte offset of the substring
-  const str = new TextDecoder().decode(fullBytes)
-  const charIndex = str.indexOf(substring)
-  const byteStart = encoder.encode(str.slice(0, charIndex)).length
-  const byteEnd = byteStart + subBytes.length
-
-  return { byteStart, byteEnd }
-}
-
 // ─── Tests ───────────────────────────────────────────────────────────────────
 
 describe('RichTextDisplay', () => {
@@ -38,7 +27,7 @@ describe('RichTextDisplay', () => {
 
   it('renders a mention as a link by default', () => {
     const text = 'Hello @alice.bsky.social!'
-    const { byteStart, byteEnd } = encodeOffset(text, '@alice.bsky.social')
+    const { byteStart, byteEnd } = byteRangeOf(text, '@alice.bsky.social')
 
     render(
       <RichTextDisplay
@@ -58,7 +47,7 @@ describe('RichTextDisplay', () => {
 
   it('renders a link as an anchor by default', () => {
     const text = 'Visit https://bsky.app for more'
-    const { byteStart, byteEnd } = encodeOffset(text, 'https://bsky.app')
+    const { byteStart, byteEnd } = byteRangeOf(text, 'https://bsky.app')
 
     render(
       <RichTextDisplay
@@ -77,7 +66,7 @@ describe('RichTextDisplay', () => {
 
   it('renders a hashtag as a link by default', () => {
     const text = 'I love #atproto!'
-    const { byteStart, byteEnd } = encodeOffset(text, '#atproto')
+    const { byteStart, byteEnd } = byteRangeOf(text, '#atproto')
 
     render(
       <RichTextDisplay
@@ -96,7 +85,7 @@ describe('RichTextDisplay', () => {
 
   it('renders plain text when disableLinks is true', () => {
     const text = 'Hello @alice.bsky.social!'
-    const { byteStart, byteEnd } = encodeOffset(text, '@alice.bsky.social')
+    const { byteStart, byteEnd } = byteRangeOf(text, '@alice.bsky.social')
 
     render(
       <RichTextDisplay
@@ -114,9 +103,41 @@ describe('RichTextDisplay', () => {
     expect(screen.getByText('@alice.bsky.social', { exact: false })).toBeInTheDocument()
   })
 
+  it('labels mention anchors and shortened links in aria mode', () => {
+    const text = 'Hi @alice.bsky.social see https://example.com/a/very/long/path/indeed'
+    const mention = byteRangeOf(text, '@alice.bsky.social')
+    const link = byteRangeOf(text, 'https://example.com/a/very/long/path/indeed')
+    const value = buildRecord(text, [
+      {
+        index: mention,
+        features: [{ $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:alice123' }],
+      },
+      {
+        index: link,
+        features: [
+          {
+            $type: 'app.bsky.richtext.facet#link',
+            uri: 'https://example.com/a/very/long/path/indeed',
+          },
+        ],
+      },
+    ])
+
+    const { rerender } = render(<RichTextDisplay value={value} />)
+    expect(screen.getByRole('link', { name: '@alice.bsky.social' })).toBeInTheDocument()
+
+    rerender(<RichTextDisplay value={value} aria />)
+    expect(screen.getByRole('link', { name: 'mention of alice.bsky.social' })).toHaveTextContent(
+      '@alice.bsky.social',
+    )
+    expect(
+      screen.getByRole('link', { name: 'https://example.com/a/very/long/path/indeed' }),
+    ).toHaveTextContent('example.com/a/very/long/path/i…')
+  })
+
   it('uses a custom renderMention when provided', () => {
     const text = 'Hello @alice.bsky.social'
-    const { byteStart, byteEnd } = encodeOffset(text, '@alice.bsky.social')
+    const { byteStart, byteEnd } = byteRangeOf(text, '@alice.bsky.social')
 
     const renderMention = vi.fn(({ text: t }: { text: string }) => (
       <span data-testid="custom-mention">{t}</span>
@@ -138,6 +159,278 @@ describe('RichTextDisplay', () => {
     expect(renderMention).toHaveBeenCalledOnce()
   })
 
+  describe('multi-feature facets', () => {
+    const text = 'Read #atproto docs'
+    const { byteStart, byteEnd } = byteRangeOf(text, '#atproto')
+    const record = buildRecord(text, [
+      {
+        index: { byteStart, byteEnd },
+        features: [
+          { $type: 'app.bsky.richtext.facet#link', uri: 'https://atproto.com' },
+          { $type: 'app.bsky.richtext.facet#tag', tag: 'atproto' },
+        ],
+      },
+    ])
+
+    it('renders the first feature by default', () => {
+      render(<RichTextDisplay value={record} />)
+
+      const link = screen.getByRole('link', { name: '#atproto' })
+      expect(link).toHaveAttribute('href', 'https://atproto.com')
+      expect(link).not.toHaveAttribute('data-tag')
+    })
+
+    it('respects featurePrecedence', () => {
+      render(
+        <RichTextDisplay
+          value={record}
+          featurePrecedence={['app.bsky.richtext.facet#tag', 'app.bsky.richtext.facet#link']}
+        />,
+      )
+
+      expect(screen.getByRole('link', { name: '#atproto' })).toHaveAttribute(
+        'href',
+        'https://bsky.app/hashtag/atproto',
+      )
+    })
+
+    it('nests every feature with featureComposition="nest"', () => {
+      render(<RichTextDisplay value={record} featureComposition="nest" />)
+
+      const links = screen.getAllByRole('link')
+      expect(links).toHaveLength(1)
+      expect(links[0]).toHaveAttribute('href', 'https://atproto.com')
+
+      const tag = links[0]?.querySelector('span[data-tag="atproto"]')
+      expect(tag).toHaveTextContent('#atproto')
+    })
+
+    it('passes inner output to custom renderers as children when nesting', () => {
+      render(
+        <RichTextDisplay
+          value={record}
+          featureComposition="nest"
+          renderLink={({ uri, children }) => (
+            <a href={uri} data-testid="outer">
+              {children}
+            </a>
+          )}
+          renderTag={({ tag }) => <mark>{tag}</mark>}
+        />,
+      )
+
+      expect(screen.getByTestId('outer').querySelector('mark')).toHaveTextContent('atproto')
+    })
+
+    it('keeps the anchor of a default renderer inside a custom one', () => {
+      render(
+        <RichTextDisplay
+          value={record}
+          featureComposition="nest"
+          renderLink={({ uri, children }) => <em data-uri={uri}>{children}</em>}
+        />,
+      )
+
+      const tag = screen.getByRole('link', { name: '#atproto' })
+      expect(tag).toHaveAttribute('href', 'https://bsky.app/hashtag/atproto')
+      expect(tag.closest('em')).toHaveAttribute('data-uri', 'https://atproto.com')
+    })
+
+    it('passes all features to renderFeatures', () => {
+      const renderFeatures = vi.fn(() => <span data-testid="combined" />)
+      render(<RichTextDisplay value={record} renderFeatures={renderFeatures} />)
+
+      expect(screen.getByTestId('combined')).toBeInTheDocument()
+      expect(renderFeatures).toHaveBeenCalledWith({
+        text: '#atproto',
+        features: [
+          { $type: 'app.bsky.richtext.facet#link', uri: 'https://atproto.com' },
+          { $type: 'app.bsky.richtext.facet#tag', tag: 'atproto' },
+        ],
+      })
+    })
+  })
+
+  describe('overlapping facets', () => {
+    const text = 'Read #atproto docs'
+    const record = buildRecord(text, [
+      {
+        index: byteRangeOf(text, '#atproto docs'),
+        features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://atproto.com' }],
+      },
+      {
+        index: byteRangeOf(text, '#atproto'),
+        features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'atproto' }],
+      },
+    ])
+
+    it('reports dropped facets via onInvalidFacet', () => {
+      const onInvalidFacet = vi.fn()
+      render(<RichTextDisplay value={record} onInvalidFacet={onInvalidFacet} />)
+
+      expect(screen.getByRole('link', { name: '#atproto docs' })).toBeInTheDocument()
+      expect(onInvalidFacet).toHaveBeenCalledWith(
+        expect.objectContaining({ index: 1, reason: 'overlapping' }),
+      )
+    })
+
+    it('renders every overlapping feature with overlappingFacets="split"', () => {
+      const onInvalidFacet = vi.fn()
+      render(
+        <RichTextDisplay
+          value={record}
+          overlappingFacets="split"
+          featurePrecedence={['app.bsky.richtext.facet#tag']}
+          onInvalidFacet={onInvalidFacet}
+        />,
+      )
+
+      expect(screen.getByRole('link', { name: '#atproto' })).toHaveAttribute(
+        'href',
+        'https://bsky.app/hashtag/atproto',
+      )
+      expect(screen.getByRole('link', { name: 'docs' })).toHaveAttribute(
+        'href',
+        'https://atproto.com',
+      )
+      expect(onInvalidFacet).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('custom feature types', () => {
+    interface CodeFeature extends UnknownFacetFeature {
+      $type: 'com.example.richtext.facet#code'
+      lang?: string
+    }
+    const isCodeFeature = (f: AnyFacetFeature): f is CodeFeature =>
+      f.$type === 'com.example.richtext.facet#code'
+
+    const text = 'Run npm test now'
+    const record = buildRecord(text, [
+      {
+        index: byteRangeOf(text, 'npm test'),
+        features: [{ $type: 'com.example.richtext.facet#code', lang: 'sh' }],
+      },
+    ])
+
+    it('renders unregistered feature types as plain text', () => {
+      const { container } = render(<RichTextDisplay value={record} />)
+      expect(container).toHaveTextContent('Run npm test now')
+      expect(container.querySelector('code')).not.toBeInTheDocument()
+    })
+
+    it('renders registered feature types with their renderer', () => {
+      const registry = createFacetFeatureRegistry().register<CodeFeature>({
+        $type: 'com.example.richtext.facet#code',
+        isFeature: isCodeFeature,
+        render: ({ text: t, feature }) => <code data-lang={feature.lang}>{t}</code>,
+      })
+
+      const { container } = render(<RichTextDisplay value={record} featureRegistry={registry} />)
+
+      const code = container.querySelector('code')
+      expect(code).toHaveTextContent('npm test')
+      expect(code).toHaveAttribute('data-lang', 'sh')
+    })
+
+    it('ignores features that fail the type guard', () => {
+      const registry = createFacetFeatureRegistry([
+        {
+          $type: 'com.example.richtext.facet#code',
+          isFeature: (f): f is UnknownFacetFeature => typeof f.lang === 'number',
+          render: ({ text: t }) => <code>{t}</code>,
+        },
+      ])
+
+      const { container } = render(<RichTextDisplay value={record} featureRegistry={registry} />)
+      expect(container.querySelector('code')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('truncation', () => {
+    const text = 'Check out https://example.com/page for details'
+    const record = buildRecord(text, [
+      {
+        index: byteRangeOf(text, 'https://example.com/page'),
+        features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://example.com/page' }],
+      },
+    ])
+
+    it('cuts before a facet the limit falls inside, then expands inline', () => {
+      render(<RichTextDisplay value={record} maxGraphemes={20} data-testid="root" />)
+      const root = screen.getByTestId('root')
+      expect(root).toHaveAttribute('data-truncated')
+      expect(root.textContent).toBe('Check out…Show more')
+      expect(screen.queryByRole('link')).not.toBeInTheDocument()
+
+      fireEvent.click(screen.getByRole('button', { name: 'Show more' }))
+      expect(root).not.toHaveAttribute('data-truncated')
+      expect(screen.getByRole('link')).toHaveAttribute('href', 'https://example.com/page')
+      expect(screen.queryByRole('button')).not.toBeInTheDocument()
+    })
+
+    it('truncates after maxLines lines', () => {
+      render(<RichTextDisplay value={'one\ntwo\nthree'} maxLines={2} data-testid="root" />)
+      expect(screen.getByTestId('root').textContent).toBe('one\ntwo…Show more')
+    })
+
+    it('leaves text within the limits alone', () => {
+      render(<RichTextDisplay value={record} maxGraphemes={100} maxLines={1} data-testid="root" />)
+      expect(screen.getByTestId('root')).not.toHaveAttribute('data-truncated')
+      expect(screen.queryByRole('button')).not.toBeInTheDocument()
+    })
+
+    it('reports invalid facets of the full record while truncated', () => {
+      const onInvalidFacet = vi.fn<(invalid: InvalidFacet) => void>()
+      const invalid = buildRecord(text, [
+        ...(record.facets ?? []),
+        {
+          index: byteRangeOf(text, 'example.com'),
+          features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'overlap' }],
+        },
+        {
+          index: { byteStart: 40, byteEnd: 60 },
+          features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'oob' }],
+        },
+      ])
+      render(
+        <RichTextDisplay
+          value={invalid}
+          maxGraphemes={20}
+          onInvalidFacet={onInvalidFacet}
+          data-testid="root"
+        />,
+      )
+
+      expect(screen.getByTestId('root').textContent).toBe('Check out…Show more')
+      expect(onInvalidFacet.mock.calls.map(([{ index, reason }]) => [index, reason])).toEqual([
+        [2, 'out-of-bounds'],
+        [1, 'overlapping'],
+      ])
+    })
+
+    it('supports a custom ellipsis and toggle', () => {
+      render(
+        <RichTextDisplay
+          value={record}
+          maxGraphemes={38}
+          ellipsis=" [...]"
+          renderShowMore={({ expanded, toggle }) => (
+            <a onClick={toggle}>{expanded ? 'less' : 'more'}</a>
+          )}
+          data-testid="root"
+        />,
+      )
+      const root = screen.getByTestId('root')
+      expect(root.textContent).toBe('Check out example.com/page for [...]more')
+
+      fireEvent.click(screen.getByText('more'))
+      expect(root.textContent).toBe('Check out example.com/page for detailsless')
+      fireEvent.click(screen.getByText('less'))
+      expect(root).toHaveAttribute('data-truncated')
+    })
+  })
+
   it('forwards extra props to the root span', () => {
     render(<RichTextDisplay value="test" data-testid="richtext-root" className="my-class" />)
 
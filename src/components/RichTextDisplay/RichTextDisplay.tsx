@@ -1,11 +1,36 @@
-import { useMemo, type AnchorHTMLAttributes, type HTMLAttributes, type ReactNode } from 'react'
-import type { RichTextRecord, MentionFeature, LinkFeature, TagFeature } from '../../types/facets'
-import { isMentionFeature, isLinkFeature, isTagFeature } from '../../types/facets'
+import {
+  Fragment,
+  useMemo,
+  useState,
+  type AnchorHTMLAttributes,
+  type HTMLAttributes,
+  type ReactNode,
+} from 'react'
+import type {
+  RichTextRecord,
+  RichTextSegment,
+  AnyFacetFeature,
+  MentionFeature,
+  LinkFeature,
+  TagFeature,
+} from '../../types/facets'
+import { isKnownFeature, isMentionFeature, isLinkFeature, isTagFeature } from '../../types/facets'
 import type { DisplayClassNames } from '../../types/classNames'
 import { defaultDisplayClassNames } from '../../defaults/classNames'
 import { generateClassNames } from '../../utils/classNames'
 import { useRichText } from '../../hooks/useRichText'
+import type { InvalidFacet } from '../../utils/parser'
+import type { FacetFeatureRegistry } from './featureRegistry'
 import { toShortUrl } from '../../utils/url'
+import { graphemeIndexToCharIndex } from '../../utils/graphemes'
+import { createUtf8IndexMap } from '../../utils/utf8'
+import {
+  defaultMentionUrl,
+  defaultTagUrl,
+  linkAriaLabel,
+  mentionAriaLabel,
+  orderFeatures,
+} from '../../utils/features'
 
 // ─── Render Prop Types ───────────────────────────────────────────────────────
 
@@ -16,6 +41,11 @@ export interface MentionProps {
   did: string
   /** The mention facet feature */
   feature: MentionFeature
+  /**
+   * Rendered output of the features nested inside this one. Only set when
+   * `featureComposition="nest"` and this feature wraps another feature.
+   */
+  children?: ReactNode
 }
 
 export interface LinkProps {
@@ -25,6 +55,11 @@ export interface LinkProps {
   uri: string
   /** The link facet feature */
   feature: LinkFeature
+  /**
+   * Rendered output of the features nested inside this one. Only set when
+   * `featureComposition="nest"` and this feature wraps another feature.
+   */
+  children?: ReactNode
 }
 
 export interface TagProps {
@@ -34,12 +69,30 @@ export interface TagProps {
   tag: string
   /** The tag facet feature */
   feature: TagFeature
+  /**
+   * Rendered output of the features nested inside this one. Only set when
+   * `featureComposition="nest"` and this feature wraps another feature.
+   */
+  children?: ReactNode
+}
+
+export interface FeaturesProps {
+  /** The raw segment text */
+  text: string
+  /** Every feature of the segment's facet, ordered by `featurePrecedence` */
+  features: AnyFacetFeature[]
+}
+
+export interface ShowMoreProps {
+  /** Whether the full text is currently shown */
+  expanded: boolean
+  /** Switch between the truncated and the full text */
+  toggle: () => void
 }
 
 // ─── Component Props ─────────────────────────────────────────────────────────
 
-export interface RichTextDisplayProps
-  extends Omit<HTMLAttributes<HTMLSpanElement>, 'children'> {
+export interface RichTextDisplayProps extends Omit<HTMLAttributes<HTMLSpanElement>, 'children'> {
   /**
    * The richtext record to render.
    * Accepts `{ text, facets? }` — i.e. the raw AT Protocol record fields.
@@ -64,6 +117,87 @@ export interface RichTextDisplayProps
    */
   renderTag?: (props: TagProps) => ReactNode
 
+  /**
+   * Order in which the features of a facet are considered when it carries
+   * more than one (e.g. a link and a tag on the same span). Feature types not
+   * listed keep their facet order, after the listed ones.
+   * @default facet order
+   *
+   * @example Prefer the tag over the link
+   * ```tsx
+   * featurePrecedence={['app.bsky.richtext.facet#tag', 'app.bsky.richtext.facet#link']}
+   * ```
+   */
+  featurePrecedence?: Array<AnyFacetFeature['$type']>
+
+  /**
+   * How a facet with several features is rendered:
+   * - `'first'` — only the highest-precedence feature is rendered.
+   * - `'nest'` — every feature is rendered, each wrapping the next in
+   *   precedence order. Custom renderers receive the inner output as
+   *   `children`. Only the outermost default renderer produces an `<a>`;
+   *   default renderers inside it produce a `<span>` with the same class and
+   *   data attributes, since anchors cannot be nested. Custom and registered
+   *   renderers are not assumed to render an anchor, so a default renderer
+   *   inside one still renders its `<a>`.
+   * @default 'first'
+   *
+   * @example A link wrapping a tag
+   * ```tsx
+   * featureComposition="nest"
+   * renderTag={({ tag, children }) => <mark data-tag={tag}>{children ?? `#${tag}`}</mark>}
+   * ```
+   */
+  featureComposition?: 'first' | 'nest'
+
+  /**
+   * Combined renderer for segments whose facet has more than one feature.
+   * Receives the segment text and all of its features (ordered by
+   * `featurePrecedence`). Takes priority over `featureComposition`.
+   */
+  renderFeatures?: (props: FeaturesProps) => ReactNode
+
+  /**
+   * Renderers for custom facet feature types (e.g. bold text or code spans
+   * defined by other AT Protocol apps). Features whose `$type` is neither
+   * built in nor registered are ignored.
+   *
+   * @example
+   * ```tsx
+   * const registry = createFacetFeatureRegistry().register({
+   *   $type: 'com.example.richtext.facet#code',
+   *   isFeature: (f): f is UnknownFacetFeature => f.$type === 'com.example.richtext.facet#code',
+   *   render: ({ text }) => <code>{text}</code>,
+   * })
+   *
+   * <RichTextDisplay value={post} featureRegistry={registry} />
+   * ```
+   */
+  featureRegistry?: FacetFeatureRegistry
+
+  /**
+   * How facets whose byte ranges overlap are handled:
+   * - `'skip'` — a facet starting inside an earlier facet is dropped.
+   * - `'split'` — overlapping ranges are split into non-overlapping segments,
+   *   each carrying the features of every facet covering it. Segments covered
+   *   by several facets are rendered like multi-feature facets (see
+   *   `featureComposition`).
+   * @default 'skip'
+   */
+  overlappingFacets?: 'skip' | 'split'
+
+  /**
+   * Called for every facet that is dropped instead of rendered, with the
+   * reason: `'out-of-bounds'`, `'zero-length'`, `'mid-codepoint'` or
+   * `'overlapping'`. Called when the record is parsed, not on every render.
+   *
+   * @example
+   * ```tsx
+   * onInvalidFacet={({ index, reason }) => console.warn(`facet ${index} dropped: ${reason}`)}
+   * ```
+   */
+  onInvalidFacet?: (invalid: InvalidFacet) => void
+
   /**
    * When true, all interactive facets (mentions, links, tags) are rendered
    * as plain text with no anchor elements.
@@ -71,6 +205,57 @@ export interface RichTextDisplayProps
    */
   disableLinks?: boolean
 
+  /**
+   * Accessible mode for screen readers. The default renderers add an
+   * `aria-label` with the full URI to links whose visible text is shortened,
+   * and a "mention of <handle>" label to mention anchors. Custom renderers
+   * are responsible for their own labels.
+   * @default false
+   */
+  aria?: boolean
+
+  /**
+   * Truncate the text to at most this many graphemes. The cut never falls
+   * inside a facet — a mention, link or tag that would be cut is left out
+   * whole — and is followed by `ellipsis` and the `renderShowMore` toggle.
+   * The root carries a `data-truncated` attribute while truncated.
+   *
+   * @example A card preview
+   * ```tsx
+   * <RichTextDisplay value={profile.description} maxGraphemes={160} maxLines={3} />
+   * ```
+   */
+  maxGraphemes?: number
+
+  /**
+   * Truncate the text after this many lines. Lines are counted from the line
+   * breaks in the text, not from how it wraps on screen. Combines with
+   * `maxGraphemes`; whichever cuts earlier wins.
+   */
+  maxLines?: number
+
+  /**
+   * Rendered after truncated text.
+   * @default '…'
+   */
+  ellipsis?: ReactNode
+
+  /**
+   * Custom renderer for the toggle shown when the text is truncated. It is
+   * called both while truncated and once expanded, so it can offer to
+   * collapse the text again. If not provided, renders a "Show more"
+   * `<button>` with the `showMore` class, which expands the text inline and
+   * then disappears.
+   *
+   * @example
+   * ```tsx
+   * renderShowMore={({ expanded, toggle }) => (
+   *   <button onClick={toggle}>{expanded ? 'Less' : 'More'}</button>
+   * )}
+   * ```
+   */
+  renderShowMore?: (props: ShowMoreProps) => ReactNode
+
   /**
    * Props forwarded to every `<a>` element rendered by the default renderers.
    * Ignored when custom `renderMention` / `renderLink` / `renderTag` are used.
@@ -143,16 +328,30 @@ interface DefaultMentionRendererProps extends MentionProps {
   mentionUrl?: (did: string) => string
   mentionClass?: string
   linkProps?: AnchorHTMLAttributes<HTMLAnchorElement>
+  /** Rendered inside another feature's anchor — render a `<span>` instead */
+  insideAnchor?: boolean
+  /** Add an accessible "mention of <handle>" label */
+  aria?: boolean
 }
 
 function DefaultMentionRenderer({
   text,
   did,
+  children,
   mentionUrl,
   mentionClass,
   linkProps,
+  insideAnchor,
+  aria,
 }: DefaultMentionRendererProps) {
-  const href = mentionUrl?.(did) ?? `https://bsky.app/profile/${did}`
+  if (insideAnchor) {
+    return (
+      <span className={mentionClass} data-did={did}>
+        {children ?? text}
+      </span>
+    )
+  }
+  const href = mentionUrl?.(did) ?? defaultMentionUrl(did)
   return (
     <a
       href={href}
@@ -160,9 +359,10 @@ function DefaultMentionRenderer({
       target="_blank"
       rel="noopener noreferrer"
       data-did={did}
+      aria-label={aria ? mentionAriaLabel(text) : undefined}
       {...linkProps}
     >
-      {text}
+      {children ?? text}
     </a>
   )
 }
@@ -171,15 +371,26 @@ interface DefaultLinkRendererProps extends LinkProps {
   linkUrl?: (uri: string) => string
   linkClass?: string
   linkProps?: AnchorHTMLAttributes<HTMLAnchorElement>
+  /** Rendered inside another feature's anchor — render a `<span>` instead */
+  insideAnchor?: boolean
+  /** Label shortened links with their full URI */
+  aria?: boolean
 }
 
 function DefaultLinkRenderer({
   text,
   uri,
+  children,
   linkUrl,
   linkClass,
   linkProps,
+  insideAnchor,
+  aria,
 }: DefaultLinkRendererProps) {
+  const shortText = toShortUrl(text)
+  if (insideAnchor) {
+    return <span className={linkClass}>{children ?? shortText}</span>
+  }
   const href = linkUrl?.(uri) ?? uri
   return (
     <a
@@ -187,9 +398,10 @@ function DefaultLinkRenderer({
       className={linkClass}
       target="_blank"
       rel="noopener noreferrer"
+      aria-label={aria ? linkAriaLabel(shortText, uri) : undefined}
       {...linkProps}
     >
-      {toShortUrl(text)}
+      {children ?? shortText}
     </a>
   )
 }
@@ -198,17 +410,27 @@ interface DefaultTagRendererProps extends TagProps {
   tagUrl?: (tag: string) => string
   tagClass?: string
   linkProps?: AnchorHTMLAttributes<HTMLAnchorElement>
+  /** Rendered inside another feature's anchor — render a `<span>` instead */
+  insideAnchor?: boolean
 }
 
 function DefaultTagRenderer({
   text,
   tag,
+  children,
   tagUrl,
   tagClass,
   linkProps,
+  insideAnchor,
 }: DefaultTagRendererProps) {
-  const href =
-    tagUrl?.(tag) ?? `https://bsky.app/hashtag/${encodeURIComponent(tag)}`
+  if (insideAnchor) {
+    return (
+      <span className={tagClass} data-tag={tag}>
+        {children ?? text}
+      </span>
+    )
+  }
+  const href = tagUrl?.(tag) ?? defaultTagUrl(tag)
   return (
     <a
       href={href}
@@ -218,11 +440,73 @@ function DefaultTagRenderer({
       data-tag={tag}
       {...linkProps}
     >
-      {text}
+      {children ?? text}
     </a>
   )
 }
 
+// ─── Truncation ──────────────────────────────────────────────────────────────
+
+/**
+ * The UTF-16 index to truncate `record` at for the given limits, or
+ * `undefined` when the whole text fits. The cut is moved back to the start
+ * of any facet it falls inside, then before trailing whitespace.
+ */
+function findTruncation(
+  record: RichTextRecord,
+  maxGraphemes: number | undefined,
+  maxLines: number | undefined,
+): number | undefined {
+  const { text } = record
+  let end = text.length
+
+  if (maxLines !== undefined) {
+    let newline = -1
+    for (let line = 0; line < maxLines; line++) {
+      newline = text.indexOf('\n', newline + 1)
+      if (newline === -1) break
+    }
+    if (newline !== -1) end = newline
+  }
+  if (maxGraphemes !== undefined) {
+    end = Math.min(end, graphemeIndexToCharIndex(text, maxGraphemes))
+  }
+  if (text.slice(end).trim() === '') return undefined
+
+  const map = createUtf8IndexMap(text)
+  let byteEnd = map.charToByteIndex(end)
+  // Repeat until stable, in case moving back lands inside an earlier facet
+  let inside = true
+  while (inside) {
+    inside = false
+    for (const { index } of record.facets ?? []) {
+      if (index.byteStart < byteEnd && byteEnd < index.byteEnd) {
+        byteEnd = index.byteStart
+        inside = true
+      }
+    }
+  }
+
+  return text.slice(0, map.byteToCharIndex(byteEnd)).trimEnd().length
+}
+
+/** The segments covering the first `end` UTF-16 code units of the text */
+function truncateSegments(segments: RichTextSegment[], end: number): RichTextSegment[] {
+  const truncated: RichTextSegment[] = []
+  let offset = 0
+  for (const segment of segments) {
+    if (offset >= end) break
+    const remaining = end - offset
+    truncated.push(
+      segment.text.length > remaining
+        ? { ...segment, text: segment.text.slice(0, remaining) }
+        : segment,
+    )
+    offset += segment.text.length
+  }
+  return truncated
+}
+
 // ─── Component ───────────────────────────────────────────────────────────────
 
 /**
@@ -271,7 +555,18 @@ export function RichTextDisplay({
   renderMention,
   renderLink,
   renderTag,
+  featurePrecedence,
+  featureComposition = 'first',
+  renderFeatures,
+  featureRegistry,
+  overlappingFacets,
+  onInvalidFacet,
   disableLinks = false,
+  aria = false,
+  maxGraphemes,
+  maxLines,
+  ellipsis = '…',
+  renderShowMore,
   linkProps,
   classNames: classNamesProp,
   mentionUrl,
@@ -290,29 +585,65 @@ export function RichTextDisplay({
     [JSON.stringify(classNamesProp)],
   )
 
-  const segments = useRichText(record)
+  const [expanded, setExpanded] = useState(false)
+  const truncateAt = useMemo(
+    () => findTruncation(record, maxGraphemes, maxLines),
+    // record is intentionally not in deps — only text+facets changes matter
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [record.text, JSON.stringify(record.facets ?? []), maxGraphemes, maxLines],
+  )
+  const isTruncated = truncateAt !== undefined && !expanded
 
-  const children: ReactNode[] = segments.map((segment, index) => {
-    const { text, feature } = segment
+  // Parse the full record, so every invalid facet is reported with its
+  // index in `value.facets`, then cut the segments at the truncation point
+  const parsed = useRichText(record, {
+    ...(overlappingFacets !== undefined ? { overlappingFacets } : {}),
+    ...(onInvalidFacet !== undefined ? { onInvalidFacet } : {}),
+  })
+  const segments = isTruncated ? truncateSegments(parsed, truncateAt) : parsed
 
-    if (!feature || disableLinks) {
-      return text
+  /**
+   * Render a single feature. `inner` is the output of the features nested
+   * inside this one (`featureComposition="nest"`), and `insideAnchor` is true
+   * when an enclosing feature was rendered as an `<a>` by a default renderer.
+   * Returns `undefined` for feature types that are neither built in nor
+   * registered in `featureRegistry`.
+   */
+  const renderFeature = (
+    feature: AnyFacetFeature,
+    text: string,
+    key: number,
+    inner: ReactNode | undefined,
+    insideAnchor: boolean,
+  ): ReactNode | undefined => {
+    // Only include optional fields when defined (exactOptionalPropertyTypes)
+    const childProps = inner !== undefined ? { children: inner } : {}
+    const insideAnchorProps = insideAnchor ? { insideAnchor } : {}
+    const ariaProps = aria ? { aria } : {}
+
+    // Registered definitions take precedence over the built-in renderers
+    const definition = featureRegistry?.get(feature.$type)
+    if (definition?.isFeature(feature)) {
+      return <Fragment key={key}>{definition.render({ text, feature, ...childProps })}</Fragment>
     }
 
     if (isMentionFeature(feature)) {
       if (renderMention) {
         return (
-          <span key={index} className={cn.mention}>
-            {renderMention({ text, did: feature.did, feature })}
+          <span key={key} className={cn.mention}>
+            {renderMention({ text, did: feature.did, feature, ...childProps })}
           </span>
         )
       }
       return (
         <DefaultMentionRenderer
-          key={index}
+          key={key}
           text={text}
           did={feature.did}
           feature={feature}
+          {...childProps}
+          {...insideAnchorProps}
+          {...ariaProps}
           {...(mentionUrl !== undefined ? { mentionUrl } : {})}
           {...(cn.mention !== undefined ? { mentionClass: cn.mention } : {})}
           {...(linkProps !== undefined ? { linkProps } : {})}
@@ -323,17 +654,20 @@ export function RichTextDisplay({
     if (isLinkFeature(feature)) {
       if (renderLink) {
         return (
-          <span key={index} className={cn.link}>
-            {renderLink({ text, uri: feature.uri, feature })}
+          <span key={key} className={cn.link}>
+            {renderLink({ text, uri: feature.uri, feature, ...childProps })}
           </span>
         )
       }
       return (
         <DefaultLinkRenderer
-          key={index}
+          key={key}
           text={text}
           uri={feature.uri}
           feature={feature}
+          {...childProps}
+          {...insideAnchorProps}
+          {...ariaProps}
           {...(linkUrl !== undefined ? { linkUrl } : {})}
           {...(cn.link !== undefined ? { linkClass: cn.link } : {})}
           {...(linkProps !== undefined ? { linkProps } : {})}
@@ -344,17 +678,19 @@ export function RichTextDisplay({
     if (isTagFeature(feature)) {
       if (renderTag) {
         return (
-          <span key={index} className={cn.tag}>
-            {renderTag({ text, tag: feature.tag, feature })}
+          <span key={key} className={cn.tag}>
+            {renderTag({ text, tag: feature.tag, feature, ...childProps })}
           </span>
         )
       }
       return (
         <DefaultTagRenderer
-          key={index}
+          key={key}
           text={text}
           tag={feature.tag}
           feature={feature}
+          {...childProps}
+          {...insideAnchorProps}
           {...(tagUrl !== undefined ? { tagUrl } : {})}
           {...(cn.tag !== undefined ? { tagClass: cn.tag } : {})}
           {...(linkProps !== undefined ? { linkProps } : {})}
@@ -362,13 +698,80 @@ export function RichTextDisplay({
       )
     }
 
-    // Unknown feature type — render plain text as fallback
+    // Unknown, unregistered feature type
+    return undefined
+  }
+
+  /** Whether a default renderer draws `feature`, i.e. it renders an `<a>` unless inside one */
+  const hasDefaultRenderer = (feature: AnyFacetFeature): boolean => {
+    if (featureRegistry?.get(feature.$type)?.isFeature(feature)) return false
+    if (isMentionFeature(feature)) return !renderMention
+    if (isLinkFeature(feature)) return !renderLink
+    if (isTagFeature(feature)) return !renderTag
+    return false
+  }
+
+  const children: ReactNode[] = segments.map((segment, index) => {
+    const { text } = segment
+    const features = orderFeatures(
+      segment.features ?? (segment.feature ? [segment.feature] : []),
+      featurePrecedence,
+    )
+
+    if (features.length === 0 || disableLinks) {
+      return text
+    }
+
+    if (features.length > 1 && renderFeatures) {
+      return <Fragment key={index}>{renderFeatures({ text, features })}</Fragment>
+    }
+
+    if (featureComposition === 'nest') {
+      // Build from the innermost feature outwards; unknown types are skipped
+      const known = features.filter(
+        (f) => isKnownFeature(f) || (featureRegistry?.isRegistered(f) ?? false),
+      )
+      // A layer is inside an anchor once any layer around it rendered one
+      const insideAnchor = known.map((_, i) => known.slice(0, i).some(hasDefaultRenderer))
+      let content: ReactNode | undefined
+      for (let i = known.length - 1; i >= 0; i--) {
+        const feature = known[i]
+        if (feature) {
+          content = renderFeature(feature, text, index, content, insideAnchor[i] ?? false)
+        }
+      }
+      return content ?? text
+    }
+
+    // 'first' — render the highest-precedence feature of a known or registered type
+    for (const feature of features) {
+      const rendered = renderFeature(feature, text, index, undefined, false)
+      if (rendered !== undefined) return rendered
+    }
+
+    // Unknown feature types only — render plain text as fallback
     return text
   })
 
+  const showMoreProps: ShowMoreProps = { expanded, toggle: () => setExpanded((e) => !e) }
+
   return (
-    <span className={cn.root} {...spanProps}>
+    <span className={cn.root} data-truncated={isTruncated ? '' : undefined} {...spanProps}>
       {children}
+      {isTruncated && ellipsis}
+      {truncateAt !== undefined &&
+        (renderShowMore
+          ? renderShowMore(showMoreProps)
+          : isTruncated && (
+              <button
+                type="button"
+                className={cn.showMore}
+                aria-expanded={false}
+                onClick={showMoreProps.toggle}
+              >
+                Show more
+              </button>
+            ))}
     </span>
   )
 }
@@ -0,0 +1,114 @@
+/**
+ * Facet feature registry — lets `RichTextDisplay` render custom facet feature
+ * types defined outside the `app.bsky.richtext.facet` lexicon.
+ *
+ * The lexicon's feature union is open, so other AT Protocol apps attach their
+ * own `$type`s to facets (bold text, code spans, cashtags, …). Register a
+ * type guard and a renderer for each `$type` you want to support and pass the
+ * registry to `RichTextDisplay` via its `featureRegistry` prop. Features
+ * with no registered definition (or that fail their type guard) are ignored,
+ * exactly like before.
+ */
+
+import type { ReactNode } from 'react'
+import type { AnyFacetFeature, UnknownFacetFeature } from '../../types/facets'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/**
+ * Props passed to the renderer of a registered feature type.
+ */
+export interface CustomFeatureProps<TFeature extends UnknownFacetFeature = UnknownFacetFeature> {
+  /** The raw segment text */
+  text: string
+  /** The feature, narrowed by the definition's type guard */
+  feature: TFeature
+  /**
+   * Rendered output of the features nested inside this one. Only set when
+   * `featureComposition="nest"` and this feature wraps another feature.
+   */
+  children?: ReactNode
+}
+
+/**
+ * Everything `RichTextDisplay` needs to know about one custom feature type.
+ */
+export interface FacetFeatureDefinition<
+  TFeature extends UnknownFacetFeature = UnknownFacetFeature,
+> {
+  /** The feature's `$type`, e.g. `"com.example.richtext.facet#bold"` */
+  $type: string
+  /**
+   * Runtime check that a feature with this `$type` is well-formed.
+   * Features that fail it are ignored.
+   */
+  isFeature: (feature: AnyFacetFeature) => feature is TFeature
+  /** Render a segment carrying this feature */
+  render: (props: CustomFeatureProps<TFeature>) => ReactNode
+}
+
+/**
+ * A set of custom feature definitions, keyed by `$type`.
+ */
+export interface FacetFeatureRegistry {
+  /**
+   * Add (or replace) the definition for `definition.$type`.
+   * Returns the registry, so calls can be chained.
+   */
+  register: <TFeature extends UnknownFacetFeature>(
+    definition: FacetFeatureDefinition<TFeature>,
+  ) => FacetFeatureRegistry
+  /** The definition registered for `$type`, if any */
+  get: ($type: string) => FacetFeatureDefinition | undefined
+  /**
+   * Whether `feature` has a registered definition whose type guard accepts it.
+   */
+  isRegistered: (feature: AnyFacetFeature) => boolean
+}
+
+// ─── Factory ─────────────────────────────────────────────────────────────────
+
+/**
+ * Create a registry of custom facet feature types for `RichTextDisplay`.
+ *
+ * Registered definitions take precedence over the built-in mention, link and
+ * tag renderers when they share a `$type`.
+ *
+ * @example
+ * ```tsx
+ * interface BoldFeature {
+ *   $type: 'com.example.richtext.facet#bold'
+ *   [key: string]: unknown
+ * }
+ *
+ * const registry = createFacetFeatureRegistry().register<BoldFeature>({
+ *   $type: 'com.example.richtext.facet#bold',
+ *   isFeature: (f): f is BoldFeature => f.$type === 'com.example.richtext.facet#bold',
+ *   render: ({ text, children }) => <strong>{children ?? text}</strong>,
+ * })
+ *
+ * <RichTextDisplay value={post} featureRegistry={registry} />
+ * ```
+ */
+export function createFacetFeatureRegistry(
+  definitions: FacetFeatureDefinition[] = [],
+): FacetFeatureRegistry {
+  const byType = new Map<string, FacetFeatureDefinition>()
+
+  const registry: FacetFeatureRegistry = {
+    register(definition) {
+      // The definition is only ever called with features that passed its own guard
+      byType.set(definition.$type, definition as unknown as FacetFeatureDefinition)
+      return registry
+    },
+    get($type) {
+      return byType.get($type)
+    },
+    isRegistered(feature) {
+      return byType.get(feature.$type)?.isFeature(feature) ?? false
+    },
+  }
+
+  for (const definition of definitions) registry.register(definition)
+  return registry
+}
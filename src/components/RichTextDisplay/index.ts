@@ -4,4 +4,13 @@ export type {
   MentionProps,
   LinkProps,
   TagProps,
+  FeaturesProps,
+  ShowMoreProps,
 } from './RichTextDisplay'
+
+export { createFacetFeatureRegistry } from './featureRegistry'
+export type {
+  FacetFeatureRegistry,
+  FacetFeatureDefinition,
+  CustomFeatureProps,
+} from './featureRegistry'
@@ -0,0 +1,61 @@
+/**
+ * EmojiSuggestionList
+ *
+ * Default `:shortcode:` emoji autocomplete dropdown, rendered by the default
+ * suggestion renderer when `RichTextEditor` is given an `onEmojiQuery` prop.
+ *
+ * Shares `SuggestionClassNames` (and therefore `classNames.suggestion`) with
+ * `MentionSuggestionList`, so all popups look the same out of the box.
+ */
+
+import { forwardRef } from 'react'
+import type { SuggestionProps } from '@tiptap/suggestion'
+import type { SuggestionClassNames } from '../../types/classNames'
+import type { MentionSuggestionListRef } from './MentionSuggestionList'
+import type { EmojiSuggestion } from './RichTextEditor'
+import { SuggestionList } from './SuggestionList'
+
+// ─── Props ───────────────────────────────────────────────────────────────────
+
+export interface EmojiSuggestionListProps extends SuggestionProps<EmojiSuggestion> {
+  /**
+   * Text to show when the items array is empty.
+   * @default "No results"
+   */
+  noResultsText?: string
+
+  /**
+   * CSS class names for each styleable part of the suggestion dropdown.
+   * Only `root`, `item`, `itemSelected`, `avatar`, `text`, `name` and `empty`
+   * are used — the emoji is shown in the `avatar` slot.
+   */
+  classNames?: Partial<SuggestionClassNames>
+}
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+/**
+ * Default emoji suggestion dropdown. Each row shows the emoji and its
+ * `:shortcode:`; selecting one replaces the typed ":query" with the emoji.
+ */
+export const EmojiSuggestionList = forwardRef<MentionSuggestionListRef, EmojiSuggestionListProps>(
+  function EmojiSuggestionListImpl(props, ref) {
+    return (
+      <SuggestionList
+        {...props}
+        ref={ref}
+        itemKey={(item) => item.shortcode}
+        renderItem={(item, { classNames: cn }) => (
+          <>
+            <span className={cn.avatar} aria-hidden="true">
+              {item.emoji}
+            </span>
+            <span className={cn.text}>
+              <span className={cn.name}>:{item.shortcode}:</span>
+            </span>
+          </>
+        )}
+      />
+    )
+  },
+)
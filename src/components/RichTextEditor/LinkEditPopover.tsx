@@ -0,0 +1,112 @@
+/**
+ * LinkEditPopover
+ *
+ * Small form for attaching a URL to the selected text, opened by
+ * `RichTextEditor` on Mod-K. Input without a protocol gets "https://"; only
+ * http(s) URLs are accepted.
+ */
+
+import { useMemo, useState, type FormHTMLAttributes } from 'react'
+import type { LinkEditorClassNames } from '../../types/classNames'
+import { defaultLinkEditorClassNames } from '../../defaults/classNames'
+import { generateClassNames } from '../../utils/classNames'
+import { normalizeLinkUri } from '../../utils/url'
+
+// ─── Props ───────────────────────────────────────────────────────────────────
+
+export interface LinkEditPopoverProps extends Omit<
+  FormHTMLAttributes<HTMLFormElement>,
+  'onSubmit' | 'children'
+> {
+  /** URI of the link being edited — empty when adding a new link */
+  initialUri?: string
+
+  /** Called with the normalized URI when a valid URL is submitted */
+  onSubmit: (uri: string) => void
+
+  /**
+   * Called when the remove button is clicked. The button is only rendered
+   * when this prop is provided.
+   */
+  onRemove?: () => void
+
+  /** Called when Escape is pressed */
+  onCancel: () => void
+
+  /**
+   * CSS class names for each styleable part of the popover.
+   */
+  classNames?: Partial<LinkEditorClassNames>
+}
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+/**
+ * Default link editor. Enter applies the link, Escape cancels.
+ */
+export function LinkEditPopover({
+  initialUri = '',
+  onSubmit,
+  onRemove,
+  onCancel,
+  classNames: classNamesProp,
+  ...formProps
+}: LinkEditPopoverProps) {
+  // Memoized via JSON.stringify so inline object literals don't recalculate every render.
+  const cn = useMemo(
+    () => generateClassNames([defaultLinkEditorClassNames, classNamesProp]),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [JSON.stringify(classNamesProp)],
+  )
+
+  const [input, setInput] = useState(initialUri)
+  const [invalid, setInvalid] = useState(false)
+
+  return (
+    <form
+      className={cn.root}
+      role="dialog"
+      aria-label="Edit link"
+      {...formProps}
+      onSubmit={(e) => {
+        e.preventDefault()
+        const uri = normalizeLinkUri(input)
+        if (uri === undefined) setInvalid(true)
+        else onSubmit(uri)
+      }}
+      onKeyDown={(e) => {
+        if (e.key !== 'Escape') return
+        e.preventDefault()
+        onCancel()
+      }}
+    >
+      <input
+        className={cn.input}
+        type="text"
+        inputMode="url"
+        placeholder="https://"
+        aria-label="Link URL"
+        aria-invalid={invalid}
+        autoFocus
+        value={input}
+        onChange={(e) => {
+          setInput(e.target.value)
+          setInvalid(false)
+        }}
+      />
+      <button type="submit" className={cn.submit}>
+        {initialUri ? 'Update' : 'Link'}
+      </button>
+      {onRemove && (
+        <button type="button" className={cn.remove} onClick={onRemove}>
+          Remove
+        </button>
+      )}
+      {invalid && (
+        <span className={cn.error} role="alert">
+          Enter a valid http(s) URL
+        </span>
+      )}
+    </form>
+  )
+}
@@ -13,12 +13,11 @@
  * via `ReactRenderer` and positioned via `@floating-ui/dom` — see createSuggestionRenderer.ts.
  */
 
-import { forwardRef, useEffect, useImperativeHandle, useMemo, useState } from 'react'
+import { forwardRef } from 'react'
 import type { SuggestionKeyDownProps, SuggestionProps } from '@tiptap/suggestion'
 import type { SuggestionClassNames } from '../../types/classNames'
-import { defaultSuggestionClassNames } from '../../defaults/classNames'
-import { generateClassNames } from '../../utils/classNames'
 import type { MentionSuggestion } from './RichTextEditor'
+import { SuggestionList } from './SuggestionList'
 
 // ─── Imperative handle ───────────────────────────────────────────────────────
 
@@ -75,112 +74,41 @@ export interface MentionSuggestionListProps extends SuggestionProps<MentionSugge
 export const MentionSuggestionList = forwardRef<
   MentionSuggestionListRef,
   MentionSuggestionListProps
->(function MentionSuggestionListImpl(
-  { items, command, showAvatars = true, noResultsText = 'No results', classNames: classNamesProp },
-  ref,
-) {
-  const [selectedIndex, setSelectedIndex] = useState(0)
-
-  // Merge provided classNames with defaults.
-  // Memoized via JSON.stringify so inline object literals don't recalculate every render.
-  const cn = useMemo(
-    () => generateClassNames([defaultSuggestionClassNames, classNamesProp]),
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    [JSON.stringify(classNamesProp)],
-  )
-
-  // Reset selection when items change (new query results arrived)
-  useEffect(() => {
-    setSelectedIndex(0)
-  }, [items])
-
-  // ─── Selection helpers ───────────────────────────────────────────────────
-
-  const selectItem = (index: number) => {
-    const item = items[index]
-    if (item) {
-      // `id` is the handle — the editor's `renderLabel` uses it to build "@handle"
-      command({ id: item.handle })
-    }
-  }
-
-  const moveUp = () => {
-    setSelectedIndex((prev) => (prev + items.length - 1) % items.length)
-  }
-
-  const moveDown = () => {
-    setSelectedIndex((prev) => (prev + 1) % items.length)
-  }
-
-  // ─── Keyboard handler (called by TipTap via the ref) ────────────────────
-
-  useImperativeHandle(ref, () => ({
-    onKeyDown({ event }: SuggestionKeyDownProps): boolean {
-      if (event.key === 'ArrowUp') {
-        moveUp()
-        return true
-      }
-      if (event.key === 'ArrowDown') {
-        moveDown()
-        return true
-      }
-      if (event.key === 'Enter' || event.key === 'Tab') {
-        selectItem(selectedIndex)
-        return true
-      }
-      return false
-    },
-  }))
-
-  // ─── Render ──────────────────────────────────────────────────────────────
-
+>(function MentionSuggestionListImpl({ command, showAvatars = true, ...props }, ref) {
   return (
-    <div
-      className={cn.root}
-      // Prevent the editor from losing focus when clicking a suggestion
-      onMouseDown={(e) => e.preventDefault()}
-    >
-      {items.length === 0 ? (
-        <div className={cn.empty}>{noResultsText}</div>
-      ) : (
-        items.map((item, index) => {
-          const isSelected = index === selectedIndex
-          const itemClass = isSelected
-            ? `${cn.item ?? ''} ${cn.itemSelected ?? ''}`.trim()
-            : cn.item
-
-          return (
-            <button
-              key={item.did}
-              type="button"
-              className={itemClass}
-              onMouseEnter={() => setSelectedIndex(index)}
-              onClick={() => selectItem(index)}
-            >
-              {showAvatars && (
-                <span className={cn.avatar}>
-                  {item.avatarUrl ? (
-                    <img
-                      src={item.avatarUrl}
-                      alt={item.displayName ?? item.handle}
-                      className={cn.avatarImg}
-                    />
-                  ) : (
-                    <span className={cn.avatarPlaceholder} aria-hidden="true">
-                      {(item.displayName ?? item.handle).charAt(0).toUpperCase()}
-                    </span>
-                  )}
+    <SuggestionList
+      {...props}
+      ref={ref}
+      // Keep the DID on the node so the mention facet needs no resolution.
+      // `id` stays the handle for consumers relying on the stock Mention attrs.
+      command={(item: MentionSuggestion) =>
+        command({ id: item.handle, did: item.did, handle: item.handle })
+      }
+      itemKey={(item) => item.did}
+      renderItem={(item, { classNames: cn }) => (
+        <>
+          {showAvatars && (
+            <span className={cn.avatar}>
+              {item.avatarUrl ? (
+                <img
+                  src={item.avatarUrl}
+                  alt={item.displayName ?? item.handle}
+                  className={cn.avatarImg}
+                />
+              ) : (
+                <span className={cn.avatarPlaceholder} aria-hidden="true">
+                  {(item.displayName ?? item.handle).charAt(0).toUpperCase()}
                 </span>
               )}
-
-              <span className={cn.text}>
-                {item.displayName && <span className={cn.name}>{item.displayName}</span>}
-                <span className={cn.handle}>@{item.handle}</span>
-              </span>
-            </button>
-          )
-        })
+            </span>
+          )}
+
+          <span className={cn.text}>
+            {item.displayName && <span className={cn.name}>{item.displayName}</span>}
+            <span className={cn.handle}>@{item.handle}</span>
+          </span>
+        </>
       )}
-    </div>
+    />
   )
 })
@@ -1,9 +1,17 @@
 import type { Meta, StoryObj } from '@storybook/react'
 import { useState, useRef } from 'react'
 import { RichTextEditor } from './RichTextEditor'
-import type { RichTextEditorRef, MentionSuggestion } from './RichTextEditor'
+import type { RichTextEditorRef, MentionSuggestion, RichTextSelection } from './RichTextEditor'
 import type { RichTextRecord } from '../../types/facets'
-import { generateClassNames, defaultEditorClassNames } from '../../index'
+import { defineSuggestion } from './suggestions'
+import {
+  generateClassNames,
+  defaultEditorClassNames,
+  CharacterCounter,
+  LinkCardPreview,
+  ThreadComposer,
+  type LinkCardMetadata,
+} from '../../index'
 
 // ─── Storybook Meta ──────────────────────────────────────────────────────────
 
@@ -273,11 +281,189 @@ export const WithMockMentions: Story = {
   },
 }
 
+// ─── Hashtag autocomplete ─────────────────────────────────────────────────────
+
+const MOCK_TAGS = ['atproto', 'bluesky', 'bskydev', 'react', 'typescript', 'tiptap']
+
+export const WithTagAutocomplete: Story = {
+  name: 'With Hashtag Autocomplete',
+  parameters: {
+    docs: {
+      description: {
+        story:
+          'Typed hashtags are highlighted with `classNames.tag`. Passing `onTagQuery` ' +
+          'enables autocomplete — type `#a`, `#b`, or `#t` to see suggestions from the mock data.',
+      },
+    },
+  },
+  render: (args) => (
+    <>
+      <style>{SUGGESTION_STYLES}</style>
+      <RichTextEditor
+        {...args}
+        onTagQuery={(q) =>
+          Promise.resolve(MOCK_TAGS.filter((tag) => tag.startsWith(q.toLowerCase())))
+        }
+      />
+    </>
+  ),
+  args: {
+    style: editorStyle,
+    placeholder: 'Type "#" to add a hashtag…',
+  },
+}
+
+// ─── Emoji autocomplete ───────────────────────────────────────────────────────
+
+const MOCK_EMOJIS = [
+  { emoji: '😄', shortcode: 'smile' },
+  { emoji: '😏', shortcode: 'smirk' },
+  { emoji: '🦋', shortcode: 'butterfly' },
+  { emoji: '👍', shortcode: 'thumbsup' },
+  { emoji: '🎉', shortcode: 'tada' },
+  { emoji: '❤️', shortcode: 'heart' },
+]
+
+export const WithEmojiAutocomplete: Story = {
+  name: 'With Emoji Autocomplete',
+  parameters: {
+    docs: {
+      description: {
+        story:
+          'Passing `onEmojiQuery` enables `:shortcode:` autocomplete — type `:sm`, `:bu` or ' +
+          '`:ta` to see suggestions from the mock data. The emoji character itself is inserted.',
+      },
+    },
+  },
+  render: (args) => (
+    <>
+      <style>{SUGGESTION_STYLES}</style>
+      <RichTextEditor
+        {...args}
+        onEmojiQuery={(q) =>
+          Promise.resolve(MOCK_EMOJIS.filter((e) => e.shortcode.startsWith(q.toLowerCase())))
+        }
+      />
+    </>
+  ),
+  args: {
+    style: editorStyle,
+    placeholder: 'Type ":" and a shortcode to add an emoji…',
+  },
+}
+
+const MOCK_TICKERS = [
+  { symbol: 'AAPL', name: 'Apple' },
+  { symbol: 'AMZN', name: 'Amazon' },
+  { symbol: 'TSLA', name: 'Tesla' },
+  { symbol: 'TSM', name: 'Taiwan Semiconductor' },
+]
+
+/**
+ * Register custom trigger characters with typed items via `suggestions`.
+ */
+export const WithCustomSuggestions: Story = {
+  name: 'With Custom Suggestions ($cashtags)',
+  parameters: {
+    docs: {
+      description: {
+        story:
+          'The `suggestions` prop registers a `$` trigger: type `$a` or `$ts` to search the mock ' +
+          'tickers. Rows are drawn by `renderItem` inside the generic `SuggestionList`, and ' +
+          '`onSelect` returns the text that replaces the typed query.',
+      },
+    },
+  },
+  render: (args) => (
+    <>
+      <style>{SUGGESTION_STYLES}</style>
+      <RichTextEditor
+        {...args}
+        suggestions={[
+          defineSuggestion({
+            char: '$',
+            query: (q) =>
+              Promise.resolve(MOCK_TICKERS.filter((t) => t.symbol.startsWith(q.toUpperCase()))),
+            renderItem: (ticker, { classNames }) => (
+              <span className={classNames.text}>
+                <span className={classNames.name}>${ticker.symbol}</span>
+                <span className={classNames.handle}>{ticker.name}</span>
+              </span>
+            ),
+            onSelect: (ticker) => `$${ticker.symbol} `,
+            itemKey: (ticker) => ticker.symbol,
+          }),
+        ]}
+      />
+    </>
+  ),
+  args: {
+    style: editorStyle,
+    placeholder: 'Type "$" and a ticker…',
+  },
+}
+
+/**
+ * A "/" command menu configured with the `commands` prop.
+ */
+export const WithSlashCommands: Story = {
+  name: 'With Slash Commands',
+  parameters: {
+    docs: {
+      description: {
+        story:
+          'Type `/` at the start of a line or after a space to open the command menu. The typed ' +
+          '`/query` is never emitted by `onChange`; choosing a command removes it and runs the command.',
+      },
+    },
+  },
+  render: (args) => {
+    // eslint-disable-next-line react-hooks/rules-of-hooks
+    const [log, setLog] = useState<string[]>([])
+    // eslint-disable-next-line react-hooks/rules-of-hooks
+    const [text, setText] = useState('')
+
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+        <style>{SUGGESTION_STYLES}</style>
+        <RichTextEditor
+          {...args}
+          onChange={(record) => setText(record.text)}
+          commands={[
+            {
+              id: 'poll',
+              title: 'Insert poll',
+              description: 'Ask your followers a question',
+              run: () => setLog((prev) => [...prev, 'Opened the poll editor']),
+            },
+            {
+              id: 'cw',
+              title: 'Add content warning',
+              run: () => setLog((prev) => [...prev, 'Opened the content warning picker']),
+            },
+            {
+              id: 'clear',
+              title: 'Clear draft',
+              description: 'Remove everything typed so far',
+              run: (editor) => editor.clear(),
+            },
+          ]}
+        />
+        <pre style={{ margin: 0, fontSize: 12 }}>{JSON.stringify({ text, log }, null, 2)}</pre>
+      </div>
+    )
+  },
+  args: {
+    style: editorStyle,
+    placeholder: 'Type "/" for commands…',
+  },
+}
+
 /**
  * Control the editor programmatically via the imperative ref API.
  */
 export const WithImperativeRef: Story = {
-  name: 'Imperative Ref (focus / clear)',
+  name: 'Imperative Ref',
   render: (args) => {
     // eslint-disable-next-line react-hooks/rules-of-hooks
     const ref = useRef<RichTextEditorRef>(null)
@@ -318,6 +504,43 @@ export const WithImperativeRef: Story = {
             Alert text
           </button>
         </div>
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+          {(
+            [
+              ['Insert text', (api) => api.insertText('Hello from the toolbar ')],
+              [
+                'Insert mention',
+                (api) => api.insertMention({ did: 'did:plc:bsky', handle: 'bsky.app' }),
+              ],
+              ['Insert link', (api) => api.insertLink('https://docs.bsky.app', 'the docs')],
+              [
+                'Alert selection',
+                (api) => {
+                  const { byteStart, byteEnd } = api.getSelection()
+                  alert(`Bytes ${byteStart}–${byteEnd}`)
+                },
+              ],
+              ['Undo', (api) => api.undo()],
+              ['Redo', (api) => api.redo()],
+            ] satisfies Array<[string, (api: RichTextEditorRef) => void]>
+          ).map(([label, action]) => (
+            <button
+              key={label}
+              onClick={() => ref.current && action(ref.current)}
+              style={{
+                padding: '6px 14px',
+                borderRadius: 6,
+                border: '1px solid #e1e4e8',
+                background: '#fff',
+                cursor: 'pointer',
+                fontFamily: 'inherit',
+                fontSize: 14,
+              }}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
       </div>
     )
   },
@@ -369,6 +592,182 @@ export const OnChangeOutput: Story = {
   },
 }
 
+/**
+ * Watch the selection in UTF-8 byte offsets — the unit of facet indices.
+ */
+export const SelectionOutput: Story = {
+  name: 'onSelectionChange Output',
+  render: (args) => {
+    // eslint-disable-next-line react-hooks/rules-of-hooks
+    const [selection, setSelection] = useState<RichTextSelection>()
+
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+        <RichTextEditor {...args} onSelectionChange={setSelection} />
+        <pre
+          style={{
+            background: '#f6f8fa',
+            padding: 12,
+            borderRadius: 6,
+            fontSize: 12,
+            margin: 0,
+            fontFamily: 'monospace',
+          }}
+        >
+          {JSON.stringify(selection ?? null, null, 2)}
+        </pre>
+      </div>
+    )
+  },
+  args: {
+    style: editorStyle,
+    initialValue: 'Select some text 🦋 — offsets are bytes,\nso emoji and newlines count too.',
+  },
+}
+
+/**
+ * `maxGraphemes` highlights text past the limit, and `CharacterCounter`
+ * shows how many graphemes are left using the length reported by `onChange`.
+ */
+export const WithCharacterCounter: Story = {
+  name: 'Length Limit & Counter',
+  render: (args) => {
+    // eslint-disable-next-line react-hooks/rules-of-hooks
+    const [length, setLength] = useState(0)
+
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        <RichTextEditor
+          {...args}
+          onChange={(_record, { graphemeLength }) => setLength(graphemeLength)}
+        />
+        <div style={{ textAlign: 'right' }}>
+          <CharacterCounter graphemeLength={length} maxGraphemes={args.maxGraphemes ?? 300} />
+        </div>
+      </div>
+    )
+  },
+  args: {
+    style: editorStyle,
+    maxGraphemes: 50,
+    placeholder: 'Type more than 50 characters…',
+  },
+}
+
+/**
+ * `ThreadComposer` renders one editor per post. Type past the limit and the
+ * overflow moves into the next post, split at a sentence or word boundary;
+ * Backspace at the start of a post pulls it back into the previous one.
+ */
+export const AsThread: Story = {
+  name: 'Thread Composer',
+  render: (args) => {
+    // eslint-disable-next-line react-hooks/rules-of-hooks
+    const [posts, setPosts] = useState<RichTextRecord[]>([])
+
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        <ThreadComposer
+          maxGraphemes={args.maxGraphemes ?? 300}
+          onChange={setPosts}
+          editorProps={{ style: editorStyle, placeholder: args.placeholder ?? '' }}
+        />
+        <pre style={{ fontSize: 12, background: '#f3f4f6', padding: 8, borderRadius: 6 }}>
+          {JSON.stringify(posts, null, 2)}
+        </pre>
+      </div>
+    )
+  },
+  args: {
+    maxGraphemes: 80,
+    placeholder: 'Write a long post — it becomes a thread…',
+  },
+}
+
+/** Fake metadata fetcher — a real app would call its own scraping endpoint */
+function mockFetchLinkMetadata(uri: string): Promise<LinkCardMetadata> {
+  return new Promise((resolve) =>
+    setTimeout(
+      () =>
+        resolve({
+          uri,
+          title: `Preview of ${new URL(uri).hostname}`,
+          description: 'Metadata returned by the consumer-supplied fetcher.',
+        }),
+      600,
+    ),
+  )
+}
+
+/**
+ * `onLinksDetected` reports every link in the text, and `onLinkCardRequested`
+ * suggests a card once a link is completed (type a space after it) or pasted.
+ * `LinkCardPreview` renders the card from the fetched metadata.
+ */
+export const WithLinkCard: Story = {
+  name: 'Link Detection & Link Card',
+  render: (args) => {
+    // eslint-disable-next-line react-hooks/rules-of-hooks
+    const [links, setLinks] = useState<string[]>([])
+    // eslint-disable-next-line react-hooks/rules-of-hooks
+    const [cardUri, setCardUri] = useState<string>()
+
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        <RichTextEditor
+          {...args}
+          onLinksDetected={setLinks}
+          onLinkCardRequested={(uri) => setCardUri((current) => current ?? uri)}
+        />
+        {cardUri && (
+          <LinkCardPreview
+            uri={cardUri}
+            fetchMetadata={mockFetchLinkMetadata}
+            onRemove={() => setCardUri(undefined)}
+          />
+        )}
+        <pre style={{ fontSize: 12, margin: 0 }}>{JSON.stringify(links, null, 2)}</pre>
+      </div>
+    )
+  },
+  args: {
+    style: editorStyle,
+    placeholder: 'Type or paste a link, e.g. bsky.app…',
+  },
+}
+
+/**
+ * Links with custom text: select text and press Cmd/Ctrl+K to attach a URL,
+ * or type `[label](url)`. The emitted record carries a link facet over the
+ * label.
+ */
+export const WithCustomLinks: Story = {
+  name: 'Links with Custom Text',
+  render: (args) => {
+    // eslint-disable-next-line react-hooks/rules-of-hooks
+    const [record, setRecord] = useState<RichTextRecord>()
+
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        <RichTextEditor {...args} onChange={setRecord} />
+        <pre style={{ fontSize: 12, margin: 0 }}>{JSON.stringify(record, null, 2)}</pre>
+      </div>
+    )
+  },
+  args: {
+    style: editorStyle,
+    initialValue: {
+      text: 'Read the docs, then select some text and press Cmd+K',
+      facets: [
+        {
+          index: { byteStart: 5, byteEnd: 13 },
+          features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://docs.bsky.app' }],
+        },
+      ],
+    },
+  },
+}
+
 /**
  * Demonstrates `classNames` prop with `generateClassNames()` for deep merging.
  * The defaults provide structural class names; we layer visual styles on top.
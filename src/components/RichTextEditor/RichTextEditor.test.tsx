@@ -1,6 +1,24 @@
 import { describe, it, expect, vi } from 'vitest'
-import { render, screen } from '@testing-library/react'
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react'
+import type { Editor } from '@tiptap/core'
 import { type RichTextEditorRef, RichTextEditor } from './RichTextEditor'
+import { defineSuggestion } from './suggestions'
+import { byteOffsetToPos, posToByteOffset } from './positions'
+import { createUtf8IndexMap } from '../../utils/utf8'
+import { replaceRange } from '../../utils/operations'
+import type { RichTextRecord } from '../../types/facets'
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * TipTap attaches the editor instance to its ProseMirror DOM node. Driving it
+ * through commands (rather than simulated keystrokes) runs real transactions,
+ * which jsdom handles fine, so `onUpdate` fires as it would in a browser.
+ */
+async function getTiptapEditor(): Promise<Editor> {
+  await waitFor(() => expect(document.querySelector('.ProseMirror')).toBeInTheDocument())
+  return (document.querySelector('.ProseMirror') as HTMLElement & { editor: Editor }).editor
+}
 
 describe('RichTextEditor', () => {
   it('renders without crashing', () => {
@@ -73,4 +91,820 @@ describe('RichTextEditor', () => {
     expect(typeof ref.current?.clear).toBe('function')
     expect(typeof ref.current?.getText).toBe('function')
   })
+
+  it('edits the content and selection through editorRef', async () => {
+    const onChange = vi.fn()
+    const ref: { current: RichTextEditorRef | null } = { current: null }
+    render(<RichTextEditor onChange={onChange} editorRef={ref} />)
+    const editor = await getTiptapEditor()
+    const api = ref.current
+    if (!api) throw new Error('editorRef not set')
+
+    act(() => {
+      api.insertText('hé 🦋 ')
+      api.insertMention({ did: 'did:plc:alice', handle: 'alice.test' })
+      api.insertLink('https://docs.bsky.app', 'docs')
+      api.insertText('\nsee #tag')
+    })
+
+    const record: RichTextRecord = {
+      text: 'hé 🦋 @alice.test docs\nsee #tag',
+      facets: [
+        {
+          index: { byteStart: 9, byteEnd: 20 },
+          features: [{ $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:alice' }],
+        },
+        {
+          index: { byteStart: 21, byteEnd: 25 },
+          features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://docs.bsky.app' }],
+        },
+        {
+          index: { byteStart: 30, byteEnd: 34 },
+          features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'tag' }],
+        },
+      ],
+    }
+    expect(api.getRecord()).toEqual(record)
+    expect(onChange).toHaveBeenLastCalledWith(record, { graphemeLength: 30, byteLength: 34 })
+    expect(api.getSelection()).toEqual({ byteStart: 34, byteEnd: 34 })
+
+    // Byte offsets round-trip through document positions, also across the mention
+    act(() => api.setSelection({ byteStart: 4, byteEnd: 25 }))
+    expect(api.getSelection()).toEqual({ byteStart: 4, byteEnd: 25 })
+    const { from, to } = editor.state.selection
+    expect(editor.state.doc.textBetween(from, to, '\n', '@mention')).toBe('🦋 @mention docs')
+    // Offsets inside a mention or a multi-byte character snap to their start
+    act(() => api.setSelection({ byteStart: 5, byteEnd: 12 }))
+    expect(api.getSelection()).toEqual({ byteStart: 4, byteEnd: 9 })
+    act(() => api.setSelection({ byteStart: 12, byteEnd: 12 }))
+    expect(api.getSelection()).toEqual({ byteStart: 9, byteEnd: 9 })
+
+    expect(api.canUndo()).toBe(true)
+    expect(api.canRedo()).toBe(false)
+    act(() => api.setRecord({ text: 'replaced' }))
+    expect(onChange).toHaveBeenLastCalledWith(
+      { text: 'replaced' },
+      { graphemeLength: 8, byteLength: 8 },
+    )
+    act(() => api.undo())
+    expect(api.getRecord()).toEqual(record)
+    expect(api.canRedo()).toBe(true)
+    act(() => api.redo())
+    expect(api.getText()).toBe('replaced')
+  })
+
+  it('normalizes the URI passed to insertLink and rejects non-http(s) ones', async () => {
+    const ref: { current: RichTextEditorRef | null } = { current: null }
+    render(<RichTextEditor editorRef={ref} />)
+    await getTiptapEditor()
+    const api = ref.current
+    if (!api) throw new Error('editorRef not set')
+
+    act(() => {
+      expect(api.insertLink('javascript:alert(1)', 'click')).toBe(false)
+      expect(api.insertLink('docs.bsky.app', 'docs')).toBe(true)
+    })
+    expect(api.getRecord()).toEqual({
+      text: 'docs',
+      facets: [
+        {
+          index: { byteStart: 0, byteEnd: 4 },
+          features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://docs.bsky.app' }],
+        },
+      ],
+    })
+  })
+
+  it('reports the selection in UTF-8 bytes via onSelectionChange', async () => {
+    const onSelectionChange = vi.fn()
+    const initialValue: RichTextRecord = {
+      text: 'hi @alice.test 🦋\nnext',
+      facets: [
+        {
+          index: { byteStart: 3, byteEnd: 14 },
+          features: [{ $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:alice' }],
+        },
+      ],
+    }
+    render(<RichTextEditor initialValue={initialValue} onSelectionChange={onSelectionChange} />)
+    const editor = await getTiptapEditor()
+    const { doc } = editor.state
+
+    // Every cursor position maps to a code point boundary and back. 7 splits
+    // the 🦋 surrogate pair and 9 lies between the paragraphs.
+    const indexMap = createUtf8IndexMap(initialValue.text)
+    for (let pos = 1; pos < doc.content.size; pos++) {
+      const byteOffset = posToByteOffset(doc, pos)
+      expect(indexMap.isCodePointBoundary(byteOffset)).toBe(true)
+      if (pos !== 7 && pos !== 9) expect(byteOffsetToPos(doc, byteOffset)).toBe(pos)
+    }
+    // The mention facet spans exactly the mention node
+    expect(byteOffsetToPos(doc, 3)).toBe(4)
+    expect(byteOffsetToPos(doc, 14)).toBe(5)
+
+    act(() => {
+      editor.commands.setTextSelection({ from: 2, to: 12 })
+    })
+    expect(onSelectionChange).toHaveBeenLastCalledWith({
+      byteStart: 1,
+      byteEnd: 22,
+      text: 'i @alice.test 🦋\nne',
+    })
+
+    // Unchanged selections are not reported again
+    const calls = onSelectionChange.mock.calls.length
+    act(() => {
+      editor.commands.setTextSelection({ from: 2, to: 12 })
+    })
+    expect(onSelectionChange).toHaveBeenCalledTimes(calls)
+  })
+
+  it('emits mention facets with resolved DIDs via onResolvedChange', async () => {
+    const onChange = vi.fn()
+    const onResolvedChange = vi.fn()
+    const resolveHandle = vi.fn((handle: string) =>
+      Promise.resolve(handle === 'alice.bsky.social' ? 'did:plc:alice' : undefined),
+    )
+
+    render(
+      <RichTextEditor
+        onChange={onChange}
+        onResolvedChange={onResolvedChange}
+        resolveHandle={resolveHandle}
+      />,
+    )
+
+    const editor = await getTiptapEditor()
+    editor.commands.insertContent('hi @alice.bsky.social and @ghost.test')
+
+    // onChange still carries the unresolved handle
+    expect(onChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        facets: [
+          expect.objectContaining({
+            features: [{ $type: 'app.bsky.richtext.facet#mention', did: 'alice.bsky.social' }],
+          }),
+          expect.objectContaining({
+            features: [{ $type: 'app.bsky.richtext.facet#mention', did: 'ghost.test' }],
+          }),
+        ],
+      }),
+      expect.anything(),
+    )
+
+    await waitFor(() => expect(onResolvedChange).toHaveBeenCalled())
+    const [record, unresolved] = onResolvedChange.mock.lastCall as [
+      { text: string; facets: Array<{ features: unknown[] }> },
+      string[],
+    ]
+    expect(record.text).toBe('hi @alice.bsky.social and @ghost.test')
+    expect(record.facets).toHaveLength(1)
+    expect(record.facets[0]?.features).toEqual([
+      { $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:alice' },
+    ])
+    expect(unresolved).toEqual(['ghost.test'])
+  })
+
+  it('uses the DID stored on mention nodes chosen from autocomplete', async () => {
+    const onChange = vi.fn()
+    const onResolvedChange = vi.fn()
+    const resolveHandle = vi.fn(() => Promise.resolve('did:plc:stale'))
+
+    render(
+      <RichTextEditor
+        onChange={onChange}
+        onResolvedChange={onResolvedChange}
+        resolveHandle={resolveHandle}
+      />,
+    )
+
+    const editor = await getTiptapEditor()
+    editor.commands.insertContent([
+      { type: 'text', text: 'hi ' },
+      {
+        type: 'mention',
+        attrs: { id: 'alice.bsky.social', did: 'did:plc:alice', handle: 'alice.bsky.social' },
+      },
+      { type: 'text', text: '!' },
+    ])
+
+    expect(onChange).toHaveBeenLastCalledWith(
+      {
+        text: 'hi @alice.bsky.social!',
+        facets: [
+          {
+            index: { byteStart: 3, byteEnd: 21 },
+            features: [{ $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:alice' }],
+          },
+        ],
+      },
+      expect.anything(),
+    )
+
+    await waitFor(() => expect(onResolvedChange).toHaveBeenCalled())
+    expect(resolveHandle).not.toHaveBeenCalled()
+  })
+
+  it('round-trips initialValue mentions with their original handle text', async () => {
+    const onChange = vi.fn()
+    const text = 'Hey @alice.bsky.social  look\nsecond line'
+
+    render(
+      <RichTextEditor
+        onChange={onChange}
+        initialValue={{
+          text,
+          facets: [
+            {
+              index: { byteStart: 4, byteEnd: 22 },
+              features: [{ $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:alice' }],
+            },
+          ],
+        }}
+      />,
+    )
+
+    const editor = await getTiptapEditor()
+    // The chip shows the handle the author saw, not the DID
+    expect(screen.getByText('@alice.bsky.social')).toBeInTheDocument()
+    expect(screen.queryByText(/did:plc/)).not.toBeInTheDocument()
+
+    // Any edit re-emits the exact same text and facets
+    editor.commands.insertContentAt(editor.state.doc.content.size - 1, '!')
+
+    expect(onChange).toHaveBeenLastCalledWith(
+      {
+        text: `${text}!`,
+        facets: [
+          {
+            index: { byteStart: 4, byteEnd: 22 },
+            features: [{ $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:alice' }],
+          },
+        ],
+      },
+      expect.anything(),
+    )
+  })
+
+  it('applies an external controlled value without emitting onChange', async () => {
+    const onChange = vi.fn()
+    const { rerender } = render(
+      <RichTextEditor value={{ text: 'Draft one' }} onChange={onChange} />,
+    )
+
+    const editor = await getTiptapEditor()
+    expect(editor.getText()).toBe('Draft one')
+
+    rerender(<RichTextEditor value={{ text: 'Restored draft' }} onChange={onChange} />)
+
+    await waitFor(() => expect(editor.getText()).toBe('Restored draft'))
+    expect(onChange).not.toHaveBeenCalled()
+  })
+
+  it('keeps selection and undo history when the parent echoes onChange back', async () => {
+    let latest: RichTextRecord = { text: 'Hello' }
+    const onChange = vi.fn((record: RichTextRecord) => {
+      latest = record
+    })
+    const { rerender } = render(<RichTextEditor value={latest} onChange={onChange} />)
+
+    const editor = await getTiptapEditor()
+    editor.commands.insertContentAt(editor.state.doc.content.size - 1, ' world')
+    const selection = editor.state.selection.from
+
+    // Parent re-renders with the record it just received
+    rerender(<RichTextEditor value={{ ...latest }} onChange={onChange} />)
+
+    expect(latest.text).toBe('Hello world')
+    expect(editor.getText()).toBe('Hello world')
+    expect(editor.state.selection.from).toBe(selection)
+
+    act(() => {
+      editor.commands.undo()
+    })
+    expect(editor.getText()).toBe('Hello')
+  })
+
+  it('emits only lexicon-valid facets with sanitizeOnChange', async () => {
+    let latest: RichTextRecord = { text: '' }
+    const onChange = vi.fn((record: RichTextRecord) => {
+      latest = record
+    })
+    const { rerender } = render(
+      <RichTextEditor value={latest} onChange={onChange} sanitizeOnChange />,
+    )
+
+    const editor = await getTiptapEditor()
+    editor.commands.insertContent('hi @alice.bsky.social #atproto')
+
+    // The typed mention only has a handle, so it is not a valid facet yet
+    expect(latest.facets).toEqual([
+      {
+        index: { byteStart: 22, byteEnd: 30 },
+        features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'atproto' }],
+      },
+    ])
+
+    // Echoing the sanitized record back must not reset the editor
+    rerender(<RichTextEditor value={{ ...latest }} onChange={onChange} sanitizeOnChange />)
+    act(() => {
+      editor.commands.undo()
+    })
+    expect(editor.getText()).toBe('')
+  })
+
+  it('reports grapheme and byte length with every change', async () => {
+    const onChange = vi.fn()
+    const ref: { current: RichTextEditorRef | null } = { current: null }
+    render(<RichTextEditor onChange={onChange} editorRef={ref} />)
+
+    const editor = await getTiptapEditor()
+    editor.commands.insertContent('héllo 👍🏽')
+
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ text: 'héllo 👍🏽' }), {
+      graphemeLength: 7,
+      byteLength: 15,
+    })
+    expect(ref.current?.getLength()).toEqual({ graphemeLength: 7, byteLength: 15 })
+  })
+
+  it('highlights text past maxGraphemes with the overflow class', async () => {
+    render(<RichTextEditor maxGraphemes={5} classNames={{ overflow: 'too-long' }} />)
+
+    const editor = await getTiptapEditor()
+    editor.commands.insertContent('abcdefgh')
+
+    await waitFor(() => expect(document.querySelector('.too-long')).toBeInTheDocument())
+    expect(document.querySelector('.too-long')).toHaveTextContent('fgh')
+  })
+
+  it('does not highlight anything when within maxGraphemes', async () => {
+    render(<RichTextEditor maxGraphemes={10} classNames={{ overflow: 'too-long' }} />)
+
+    const editor = await getTiptapEditor()
+    editor.commands.insertContent('short')
+
+    expect(document.querySelector('.too-long')).not.toBeInTheDocument()
+  })
+
+  it('decorates #hashtags with the tag class and value', async () => {
+    render(<RichTextEditor classNames={{ tag: 'my-tag' }} />)
+
+    const editor = await getTiptapEditor()
+    editor.commands.insertContent('I love #atproto! but not #123')
+
+    await waitFor(() => expect(document.querySelector('.my-tag')).toBeInTheDocument())
+    const tags = document.querySelectorAll('.my-tag')
+    expect(tags).toHaveLength(1)
+    expect(tags[0]).toHaveTextContent('#atproto')
+    expect(tags[0]).toHaveAttribute('data-tag', 'atproto')
+  })
+
+  it('shows onTagQuery suggestions for text typed after "#"', async () => {
+    const onTagQuery = vi.fn(() => Promise.resolve(['atproto', 'atprotocol']))
+    render(<RichTextEditor onTagQuery={onTagQuery} />)
+
+    const editor = await getTiptapEditor()
+    editor.commands.focus()
+    editor.commands.insertContent('hello #atp')
+
+    await waitFor(() => expect(onTagQuery).toHaveBeenCalledWith('atp'))
+    expect(await screen.findByText('#atprotocol')).toBeInTheDocument()
+  })
+
+  it('inserts the emoji chosen from onEmojiQuery suggestions', async () => {
+    const onEmojiQuery = vi.fn(() =>
+      Promise.resolve([
+        { emoji: '😄', shortcode: 'smile' },
+        { emoji: '😏', shortcode: 'smirk' },
+      ]),
+    )
+    const onChange = vi.fn()
+    render(<RichTextEditor onEmojiQuery={onEmojiQuery} onChange={onChange} />)
+
+    const editor = await getTiptapEditor()
+    editor.commands.focus()
+    editor.commands.insertContent('12:30 #hi :s')
+    // Times never open the popup and a single character is not queried
+    expect(onEmojiQuery).not.toHaveBeenCalled()
+
+    editor.commands.insertContent('m')
+    await waitFor(() => expect(onEmojiQuery).toHaveBeenCalledWith('sm'))
+    fireEvent.click(await screen.findByText(':smirk:'))
+
+    expect(onChange).toHaveBeenLastCalledWith(
+      {
+        text: '12:30 #hi 😏 ',
+        facets: [
+          {
+            index: { byteStart: 6, byteEnd: 9 },
+            features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'hi' }],
+          },
+        ],
+      },
+      { graphemeLength: 12, byteLength: 15 },
+    )
+  })
+
+  it('completes custom triggers from the suggestions prop with typed items', async () => {
+    const tickers = [
+      { symbol: 'TSLA', name: 'Tesla' },
+      { symbol: 'TSM', name: 'TSMC' },
+    ]
+    const query = vi.fn((q: string) =>
+      Promise.resolve(tickers.filter((t) => t.symbol.startsWith(q))),
+    )
+    const onChange = vi.fn()
+    const renderEditor = (suffix: string) => (
+      <RichTextEditor
+        onChange={onChange}
+        // A new array on every render must not rebuild the editor
+        suggestions={[
+          defineSuggestion({
+            char: '$',
+            query,
+            renderItem: (ticker) => `${ticker.symbol} — ${ticker.name}`,
+            onSelect: (ticker) => `$${ticker.symbol}${suffix}`,
+            itemKey: (ticker) => ticker.symbol,
+          }),
+        ]}
+      />
+    )
+    const { rerender } = render(renderEditor(' '))
+
+    const editor = await getTiptapEditor()
+    rerender(renderEditor('! '))
+    expect(await getTiptapEditor()).toBe(editor)
+
+    editor.commands.focus()
+    editor.commands.insertContent('buy $TS')
+    await waitFor(() => expect(query).toHaveBeenCalledWith('TS'))
+    fireEvent.click(await screen.findByText('TSM — TSMC'))
+
+    // The latest descriptor handled the selection
+    expect(onChange).toHaveBeenLastCalledWith(
+      { text: 'buy $TSM! ' },
+      { graphemeLength: 10, byteLength: 10 },
+    )
+  })
+
+  it('runs slash commands without emitting the typed /command', async () => {
+    const run = vi.fn((editorRef: RichTextEditorRef) => editorRef.getText())
+    const onChange = vi.fn()
+    render(
+      <RichTextEditor
+        onChange={onChange}
+        commands={[
+          { id: 'poll', title: 'Insert poll', description: 'Ask a question', run },
+          { id: 'cw', title: 'Add content warning', run: vi.fn() },
+        ]}
+      />,
+    )
+
+    const editor = await getTiptapEditor()
+    editor.commands.focus()
+    editor.commands.insertContent('and/or hi /po')
+    expect(await screen.findByText('Insert poll')).toBeInTheDocument()
+    expect(screen.queryByText('Add content warning')).not.toBeInTheDocument()
+    expect(onChange).toHaveBeenLastCalledWith(
+      { text: 'and/or hi ' },
+      { graphemeLength: 10, byteLength: 10 },
+    )
+
+    fireEvent.click(screen.getByText('Insert poll'))
+    expect(run).toHaveBeenCalledTimes(1)
+    expect(run).toHaveReturnedWith('and/or hi ')
+    expect(editor.getText()).toBe('and/or hi ')
+
+    // Dismissing the menu with Escape turns the query into text
+    editor.commands.focus('end')
+    editor.commands.insertContent('/x')
+    await waitFor(() => expect(screen.getByText('No results')).toBeInTheDocument())
+    expect(onChange).toHaveBeenLastCalledWith(
+      { text: 'and/or hi ' },
+      { graphemeLength: 10, byteLength: 10 },
+    )
+    act(() => {
+      editor.view.dom.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }))
+    })
+    expect(onChange).toHaveBeenLastCalledWith(
+      { text: 'and/or hi /x' },
+      { graphemeLength: 12, byteLength: 12 },
+    )
+  })
+
+  it('gives built-in triggers precedence over custom ones for the same character', async () => {
+    const query = vi.fn(() => Promise.resolve(['custom']))
+    render(
+      <RichTextEditor
+        commands={[{ id: 'poll', title: 'Insert poll', run: vi.fn() }]}
+        suggestions={[
+          defineSuggestion({ char: '/', query, renderItem: (item) => item, onSelect: () => '' }),
+        ]}
+      />,
+    )
+
+    const editor = await getTiptapEditor()
+    editor.commands.focus()
+    editor.commands.insertContent('/po')
+    expect(await screen.findByText('Insert poll')).toBeInTheDocument()
+    expect(screen.queryByText('custom')).not.toBeInTheDocument()
+    expect(query).not.toHaveBeenCalled()
+  })
+
+  it('reports detected links for the initial content and when they change', async () => {
+    const onLinksDetected = vi.fn()
+    render(<RichTextEditor initialValue="see example.com" onLinksDetected={onLinksDetected} />)
+
+    const editor = await getTiptapEditor()
+    await waitFor(() => expect(onLinksDetected).toHaveBeenCalledWith(['https://example.com']))
+
+    editor.commands.focus('end')
+    editor.commands.insertContent(' and more')
+    expect(onLinksDetected).toHaveBeenCalledTimes(1)
+
+    editor.commands.insertContent(' https://bsky.app/about')
+    expect(onLinksDetected).toHaveBeenLastCalledWith([
+      'https://example.com',
+      'https://bsky.app/about',
+    ])
+  })
+
+  it('requests a link card once a typed link is completed, only once per URI', async () => {
+    const onLinkCardRequested = vi.fn()
+    render(<RichTextEditor onLinkCardRequested={onLinkCardRequested} />)
+
+    const editor = await getTiptapEditor()
+    for (const char of 'see bsky.app') editor.commands.insertContent(char)
+    expect(onLinkCardRequested).not.toHaveBeenCalled()
+
+    editor.commands.insertContent(' ')
+    expect(onLinkCardRequested).toHaveBeenCalledExactlyOnceWith('https://bsky.app')
+
+    // Breaking and completing the link again does not request it twice
+    editor.commands.deleteRange({
+      from: editor.state.doc.content.size - 2,
+      to: editor.state.doc.content.size - 1,
+    })
+    editor.commands.insertContent(' ')
+    expect(onLinkCardRequested).toHaveBeenCalledTimes(1)
+  })
+
+  it('requests a link card for a pasted link', async () => {
+    const onLinkCardRequested = vi.fn()
+    render(<RichTextEditor onLinkCardRequested={onLinkCardRequested} />)
+
+    const editor = await getTiptapEditor()
+    // jsdom has no ClipboardEvent — dispatch a plain event carrying clipboardData
+    const paste = Object.assign(new Event('paste', { bubbles: true, cancelable: true }), {
+      clipboardData: {
+        types: ['text/plain'],
+        getData: (type: string) => (type === 'text/plain' ? 'https://example.com/article' : ''),
+      },
+    })
+    act(() => {
+      editor.view.dom.dispatchEvent(paste)
+    })
+    expect(onLinkCardRequested).toHaveBeenCalledWith('https://example.com/article')
+  })
+
+  it('emits shortened links with the full URI in the facet when shortenLinks is set', async () => {
+    const onChange = vi.fn()
+    const ref: { current: RichTextEditorRef | null } = { current: null }
+    render(<RichTextEditor shortenLinks onChange={onChange} editorRef={ref} />)
+
+    const editor = await getTiptapEditor()
+    editor.commands.insertContent('see https://example.com/a/very/long/path/to/a/page ok')
+
+    const shortText = 'see example.com/a/very/long/path/t… ok'
+    expect(onChange).toHaveBeenLastCalledWith(
+      {
+        text: shortText,
+        facets: [
+          {
+            index: { byteStart: 4, byteEnd: 37 },
+            features: [
+              {
+                $type: 'app.bsky.richtext.facet#link',
+                uri: 'https://example.com/a/very/long/path/to/a/page',
+              },
+            ],
+          },
+        ],
+      },
+      { graphemeLength: 38, byteLength: 40 },
+    )
+    expect(ref.current?.getText()).toBe(shortText)
+    // The editor keeps the full URL so it can be edited
+    expect(editor.getText()).toContain('https://example.com/a/very/long/path/to/a/page')
+  })
+
+  it('reports and sets the selection in the shortened text when shortenLinks is set', async () => {
+    const onSelectionChange = vi.fn()
+    const ref: { current: RichTextEditorRef | null } = { current: null }
+    render(<RichTextEditor shortenLinks onSelectionChange={onSelectionChange} editorRef={ref} />)
+    const editor = await getTiptapEditor()
+    const api = ref.current
+    if (!api) throw new Error('editorRef not set')
+
+    act(() => api.insertText('see https://example.com/a/very/long/path/to/a/page ok'))
+    expect(api.getSelection()).toEqual({ byteStart: 40, byteEnd: 40 })
+
+    act(() => api.setSelection({ byteStart: 38, byteEnd: 40 }))
+    expect(onSelectionChange).toHaveBeenLastCalledWith({ byteStart: 38, byteEnd: 40, text: 'ok' })
+    const { from, to } = editor.state.selection
+    expect(editor.state.doc.textBetween(from, to)).toBe('ok')
+
+    // The offsets line up with the emitted record
+    const selection = api.getSelection()
+    expect(replaceRange(api.getRecord(), selection.byteStart, selection.byteEnd, 'OK').text).toBe(
+      'see example.com/a/very/long/path/t… OK',
+    )
+
+    // Offsets inside a shortened link snap to its start
+    act(() => api.setSelection({ byteStart: 10, byteEnd: 37 }))
+    expect(onSelectionChange).toHaveBeenLastCalledWith({
+      byteStart: 4,
+      byteEnd: 37,
+      text: 'example.com/a/very/long/path/t…',
+    })
+  })
+
+  it('treats echoed shortened records as no-ops and expands them when loaded', async () => {
+    const url = 'https://example.com/a/very/long/path/to/a/page'
+    const records: RichTextRecord[] = []
+    const { rerender } = render(
+      <RichTextEditor shortenLinks value={{ text: '' }} onChange={(r) => records.push(r)} />,
+    )
+
+    const editor = await getTiptapEditor()
+    editor.commands.insertContent(`see ${url}`)
+    const shortened = records[records.length - 1] ?? { text: '' }
+    expect(shortened.text).toBe('see example.com/a/very/long/path/t…')
+    rerender(<RichTextEditor shortenLinks value={shortened} onChange={(r) => records.push(r)} />)
+    expect(editor.getText()).toBe(`see ${url}`)
+
+    // Reset, then restore the shortened draft
+    rerender(<RichTextEditor shortenLinks value={{ text: '' }} />)
+    rerender(<RichTextEditor shortenLinks value={shortened} />)
+    expect(editor.getText()).toBe(`see ${url}`)
+  })
+
+  it('counts shortened links towards maxGraphemes', async () => {
+    render(<RichTextEditor shortenLinks maxGraphemes={40} classNames={{ overflow: 'too-long' }} />)
+
+    const editor = await getTiptapEditor()
+    editor.commands.insertContent('see https://example.com/a/very/long/path/to/a/page ok')
+    expect(document.querySelector('.too-long')).not.toBeInTheDocument()
+
+    editor.commands.insertContent(' and more')
+    await waitFor(() => expect(document.querySelector('.too-long')).toBeInTheDocument())
+    expect(document.querySelector('.too-long')).toHaveTextContent('more')
+  })
+
+  it('turns typed [label](url) into a link facet over the label', async () => {
+    const onChange = vi.fn()
+    render(<RichTextEditor onChange={onChange} />)
+
+    const editor = await getTiptapEditor()
+    // Input rules run on simulated input in the next tick
+    editor.commands.insertContent('read [the docs](docs.bsky.app)', { applyInputRules: true })
+
+    await waitFor(() =>
+      expect(onChange).toHaveBeenLastCalledWith(
+        {
+          text: 'read the docs',
+          facets: [
+            {
+              index: { byteStart: 5, byteEnd: 13 },
+              features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://docs.bsky.app' }],
+            },
+          ],
+        },
+        expect.anything(),
+      ),
+    )
+    // Text typed after the link is not part of it
+    editor.commands.insertContent('!')
+    expect(onChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        text: 'read the docs!',
+        facets: [expect.objectContaining({ index: { byteStart: 5, byteEnd: 13 } })],
+      }),
+      expect.anything(),
+    )
+  })
+
+  it('links the selection from the Mod-K popover and removes it again', async () => {
+    const onChange = vi.fn()
+    render(<RichTextEditor initialValue="read the docs" onChange={onChange} />)
+
+    const editor = await getTiptapEditor()
+    act(() => {
+      editor.commands.setTextSelection({ from: 6, to: 14 })
+      editor.view.dom.dispatchEvent(
+        new KeyboardEvent('keydown', { key: 'k', ctrlKey: true, bubbles: true }),
+      )
+    })
+
+    const input = await screen.findByRole('textbox', { name: 'Link URL' })
+    fireEvent.change(input, { target: { value: 'not a url' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Link' }))
+    expect(screen.getByRole('alert')).toBeInTheDocument()
+    expect(onChange).not.toHaveBeenCalled()
+
+    fireEvent.change(input, { target: { value: 'https://docs.bsky.app' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Link' }))
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
+    expect(onChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        text: 'read the docs',
+        facets: [
+          {
+            index: { byteStart: 5, byteEnd: 13 },
+            features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://docs.bsky.app' }],
+          },
+        ],
+      }),
+      expect.anything(),
+    )
+
+    // Mod-K inside the link edits the whole link
+    act(() => {
+      editor.commands.setTextSelection(8)
+      editor.view.dom.dispatchEvent(
+        new KeyboardEvent('keydown', { key: 'k', ctrlKey: true, bubbles: true }),
+      )
+    })
+    expect(await screen.findByRole('textbox', { name: 'Link URL' })).toHaveValue(
+      'https://docs.bsky.app',
+    )
+    fireEvent.click(screen.getByRole('button', { name: 'Remove' }))
+    expect(onChange).toHaveBeenLastCalledWith({ text: 'read the docs' }, expect.anything())
+  })
+
+  it('loads links with custom text as links and keeps them when echoed back', async () => {
+    const record: RichTextRecord = {
+      text: 'read the docs at bsky.app',
+      facets: [
+        {
+          index: { byteStart: 5, byteEnd: 13 },
+          features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://docs.bsky.app' }],
+        },
+        {
+          index: { byteStart: 17, byteEnd: 25 },
+          features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://bsky.app' }],
+        },
+      ],
+    }
+    const records: RichTextRecord[] = []
+    const { rerender } = render(<RichTextEditor value={record} onChange={(r) => records.push(r)} />)
+
+    const editor = await getTiptapEditor()
+    // Only the custom-text link is a mark — bsky.app is detected from the text
+    await waitFor(() => expect(document.querySelectorAll('a[data-link]')).toHaveLength(1))
+    expect(document.querySelector('a[data-link]')).toHaveAttribute('href', 'https://docs.bsky.app')
+
+    editor.commands.focus('end')
+    editor.commands.insertContent(' ')
+    const next = records[records.length - 1]
+    expect(next).toEqual({ ...record, text: `${record.text} ` })
+
+    const selection = editor.state.selection.from
+    rerender(<RichTextEditor value={next} onChange={(r) => records.push(r)} />)
+    expect(editor.state.selection.from).toBe(selection)
+
+    // Dropping the link in `value` is applied to the editor
+    rerender(<RichTextEditor value={{ text: 'read the docs at bsky.app ' }} />)
+    await waitFor(() => expect(document.querySelector('a[data-link]')).not.toBeInTheDocument())
+  })
+
+  it('loads links with a non-http(s) URI as plain text', async () => {
+    const onChange = vi.fn()
+    render(
+      <RichTextEditor
+        initialValue={{
+          text: 'click me please',
+          facets: [
+            {
+              index: { byteStart: 0, byteEnd: 8 },
+              features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'javascript:alert(1)' }],
+            },
+          ],
+        }}
+        onChange={onChange}
+      />,
+    )
+
+    const editor = await getTiptapEditor()
+    expect(screen.getByText('click me please')).toBeInTheDocument()
+    expect(document.querySelector('a')).not.toBeInTheDocument()
+
+    editor.commands.focus('end')
+    editor.commands.insertContent('!')
+    expect(onChange).toHaveBeenLastCalledWith({ text: 'click me please!' }, expect.anything())
+    // Neither can the command set one
+    editor.commands.setTextSelection({ from: 1, to: 6 })
+    expect(editor.commands.setLink({ uri: 'data:text/html,hi' })).toBe(false)
+  })
 })
@@ -11,24 +11,69 @@
  *  - `onChange` emits a plain `RichTextRecord` instead of an `RichText` class
  */
 
-import { useEffect, useImperativeHandle, useMemo, type HTMLAttributes, type Ref } from 'react'
-import { EditorContent, useEditor, type JSONContent } from '@tiptap/react'
+import {
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+  type HTMLAttributes,
+  type Ref,
+} from 'react'
+import { EditorContent, useEditor, type Editor, type JSONContent } from '@tiptap/react'
 import { Document } from '@tiptap/extension-document'
 import { Paragraph } from '@tiptap/extension-paragraph'
 import { Text } from '@tiptap/extension-text'
 import { History } from '@tiptap/extension-history'
 import { HardBreak } from '@tiptap/extension-hard-break'
 import { Placeholder } from '@tiptap/extension-placeholder'
+import { closeHistory } from '@tiptap/pm/history'
 import type { SuggestionOptions } from '@tiptap/suggestion'
-import { RichText as AtpRichText } from '@atproto/api'
-import type { RichTextRecord, Facet } from '../../types/facets'
+import type { ByteSlice, RichTextRecord } from '../../types/facets'
 import type { EditorClassNames } from '../../types/classNames'
 import { defaultEditorClassNames } from '../../defaults/classNames'
 import { generateClassNames } from '../../utils/classNames'
-import { createDebouncedSearch } from '../../utils/blueskyApi'
+import { createCachedHandleResolver, createDebouncedSearch } from '../../utils/blueskyApi'
+import { resolveMentionFacets } from '../../utils/resolveMentions'
+import { getRichTextLength, type RichTextLength } from '../../utils/graphemes'
+import { sanitizeRichText } from '../../utils/validate'
+import {
+  createShortenedLinkOffsetMap,
+  expandShortenedLinks,
+  normalizeLinkUri,
+  shortenLinks as shortenRecordLinks,
+} from '../../utils/url'
+import { createUtf8IndexMap } from '../../utils/utf8'
 import { createBskyMentionExtension } from './extensions/BskyMention'
 import { BskyLinkDecorator } from './extensions/BskyLinkDecorator'
+import { BskyLinkMark } from './extensions/BskyLinkMark'
+import { BskyOverflowDecorator } from './extensions/BskyOverflowDecorator'
+import { BskyTagDecorator } from './extensions/BskyTagDecorator'
+import { createBskyTagSuggestionExtension } from './extensions/BskyTagSuggestion'
+import { createBskyEmojiSuggestionExtension } from './extensions/BskyEmojiSuggestion'
+import { createBskySuggestionExtension } from './extensions/BskySuggestion'
 import type { DefaultSuggestionRendererOptions } from './createSuggestionRenderer'
+import { LinkEditPopover } from './LinkEditPopover'
+import { byteOffsetToPos, getByteSelection } from './positions'
+import type { AnySuggestionDescriptor } from './suggestions'
+import {
+  createSlashCommandSuggestion,
+  SlashCommandPluginKey,
+  withoutOpenCommand,
+  type SlashCommand,
+} from './slashCommands'
+import {
+  detectLinks,
+  isSameLinkList,
+  suggestLinkCardUri,
+  type DetectedLinks,
+} from './linkDetection'
+import {
+  editorJsonToRecord,
+  editorJsonToText,
+  isSameEditorContent,
+  toInitialHTML,
+} from './serialization'
 
 // ─── Public Types ────────────────────────────────────────────────────────────
 
@@ -46,6 +91,26 @@ export interface MentionSuggestion {
   avatarUrl?: string
 }
 
+/**
+ * A single suggestion item for the `:shortcode:` emoji autocomplete popup.
+ */
+export interface EmojiSuggestion {
+  /** The emoji inserted into the text (e.g. "😄") */
+  emoji: string
+  /** Shortcode without colons (e.g. "smile") */
+  shortcode: string
+}
+
+/**
+ * A selection of the editor text, reported by `onSelectionChange`.
+ * Offsets are UTF-8 bytes into the text `onChange` emits — the same unit as
+ * facet indices; `byteStart === byteEnd` for a cursor.
+ */
+export interface RichTextSelection extends ByteSlice {
+  /** The selected text (empty for a cursor) */
+  text: string
+}
+
 /**
  * Imperative ref API for `RichTextEditor`.
  */
@@ -56,8 +121,68 @@ export interface RichTextEditorRef {
   blur: () => void
   /** Clear the editor content */
   clear: () => void
-  /** Get the current plain-text content */
+  /** Get the current plain-text content, as emitted by `onChange` */
   getText: () => string
+  /** Get the current grapheme and UTF-8 byte length of the text */
+  getLength: () => RichTextLength
+  /** Get the current record, exactly as emitted by `onChange` */
+  getRecord: () => RichTextRecord
+  /**
+   * Replace the content with `record` (undoable). Emits `onChange` like any
+   * other edit.
+   */
+  setRecord: (record: RichTextRecord) => void
+  /**
+   * Insert plain text at the cursor, replacing the selection. Newlines start
+   * new paragraphs; URLs, #tags and @handles in it are detected as usual.
+   */
+  insertText: (text: string) => void
+  /**
+   * Insert a mention (followed by a space) at the cursor, replacing the
+   * selection. Its facet uses `did` directly, like a mention picked from the
+   * autocomplete popup.
+   */
+  insertMention: (mention: { did: string; handle: string }) => void
+  /**
+   * Insert a link at the cursor, replacing the selection. With a `label` the
+   * label is linked to `uri` (a link with custom text); without one the URI
+   * itself is inserted. `uri` is normalized like in the link popover
+   * ("bsky.app" → "https://bsky.app"); returns false, inserting nothing,
+   * unless it is a valid http(s) URL.
+   */
+  insertLink: (uri: string, label?: string) => boolean
+  /**
+   * Get the selection as UTF-8 byte offsets into the text, as emitted by
+   * `onChange` (`byteStart === byteEnd` for a cursor). With `shortenLinks`,
+   * offsets inside a shortened link snap to its start.
+   */
+  getSelection: () => ByteSlice
+  /**
+   * Select the text between two UTF-8 byte offsets, as returned by
+   * `getSelection`. Offsets inside a mention or a shortened link snap to its
+   * start.
+   */
+  setSelection: (selection: ByteSlice) => void
+  /** Undo the last change */
+  undo: () => void
+  /** Redo the last undone change */
+  redo: () => void
+  /** Whether there is a change to undo */
+  canUndo: () => boolean
+  /** Whether there is an undone change to redo */
+  canRedo: () => boolean
+}
+
+/**
+ * The range a link is being edited for, and where to show the popover
+ * (relative to the editor root).
+ */
+interface LinkEditorState {
+  from: number
+  to: number
+  uri?: string
+  top: number
+  left: number
 }
 
 // ─── Component Props ─────────────────────────────────────────────────────────
@@ -66,23 +191,167 @@ export interface RichTextEditorProps extends Omit<HTMLAttributes<HTMLDivElement>
   /**
    * Initial richtext value. The editor is pre-populated with this content on mount.
    * This is an uncontrolled initial state — use `onChange` to track updates.
+   * Ignored when `value` is provided.
    */
   initialValue?: RichTextRecord | string
 
   /**
-   * Called on every content change with the latest `RichTextRecord`.
+   * Controlled richtext value.
+   *
+   * Whenever `value` changes, it is compared against the editor's current
+   * content (text and mention facets — link and tag facets are always
+   * re-detected from the text). If they differ, the editor content is
+   * replaced without emitting `onChange` and the selection is kept as close
+   * to its previous position as possible. Echoing back the record received
+   * from `onChange` (or `onResolvedChange`) is a no-op, so the cursor and
+   * undo history are preserved while typing.
+   *
+   * Use this to reset the editor, restore a draft, or apply server-side edits
+   * without remounting the component.
+   *
+   * @example
+   * ```tsx
+   * const [post, setPost] = useState<RichTextRecord>({ text: '' })
+   *
+   * <RichTextEditor value={post} onChange={setPost} />
+   * <button onClick={() => setPost({ text: '' })}>Reset</button>
+   * ```
+   */
+  value?: RichTextRecord
+
+  /**
+   * Called on every content change with the latest `RichTextRecord` and its
+   * length in graphemes and UTF-8 bytes (Bluesky posts allow 300 / 3000).
+   *
+   * The `facets` array is populated via `detectFacetsWithoutResolution()`.
+   * Mentions picked from the autocomplete popup carry their real DID; typed
+   * mentions will contain handles (not DIDs) until you resolve them
+   * server-side using the AT Protocol agent, or use `onResolvedChange`.
+   */
+  onChange?: (record: RichTextRecord, length: RichTextLength) => void
+
+  /**
+   * When true, every record is passed through `sanitizeRichText()` before it
+   * is emitted via `onChange` or `onResolvedChange`, so only lexicon-valid
+   * facets are ever emitted.
+   *
+   * Note that typed mentions carry a handle (not a DID) until resolved, so
+   * with this option they are omitted from `onChange` records — use
+   * `onResolvedChange` to receive them with their DIDs.
+   * @default false
+   */
+  sanitizeOnChange?: boolean
+
+  /**
+   * Grapheme limit for the text. When set, everything past the limit is
+   * highlighted with the `classNames.overflow` class. Typing is not blocked —
+   * pair with `CharacterCounter` and disable your submit button instead.
+   *
+   * @example
+   * ```tsx
+   * <RichTextEditor maxGraphemes={300} />
+   * ```
+   */
+  maxGraphemes?: number
+
+  /**
+   * When true, links whose text is the full URL are collapsed to their
+   * `toShortUrl` form (e.g. "example.com/a/very/long/path/t…") in the text
+   * emitted by `onChange` and `onResolvedChange`, while the link facet keeps
+   * the full URL. The editor itself keeps showing the full URL so it can be
+   * edited; lengths, `maxGraphemes` and `getText()` all use the short form.
+   *
+   * Records in `value` / `initialValue` whose links are in the short form are
+   * expanded back to the full URL when loaded, so echoing back `onChange`
+   * records is a no-op.
+   *
+   * Mirrors the Bluesky composer, which shortens links before posting so long
+   * URLs don't use up the 300-grapheme limit.
+   * @default false
+   */
+  shortenLinks?: boolean
+
+  /**
+   * Called after every content change with a lexicon-valid `RichTextRecord`
+   * in which every mention facet carries a real DID.
+   *
+   * Mentions are resolved with `resolveHandle` (results are cached per handle
+   * for the lifetime of the resolver). Mentions that cannot be resolved are
+   * dropped from `facets` and reported in `unresolvedHandles`.
+   *
+   * Resolution is asynchronous — if the content changes again before it
+   * completes, the stale result is discarded and only the latest is emitted.
+   *
+   * @example
+   * ```tsx
+   * onResolvedChange={(record, unresolved) => {
+   *   setPost(record)
+   *   setWarnings(unresolved.map((h) => `Unknown account @${h}`))
+   * }}
+   * ```
+   */
+  onResolvedChange?: (record: RichTextRecord, unresolvedHandles: string[]) => void
+
+  /**
+   * Async function that resolves a handle (without "@") to its DID.
+   * Return `undefined` when the handle does not exist.
+   * Only used when `onResolvedChange` is provided.
+   *
+   * When not provided, the handle is resolved via the Bluesky public API
+   * (`com.atproto.identity.resolveHandle`).
+   *
+   * @example
+   * ```tsx
+   * resolveHandle={async (handle) => {
+   *   const res = await agent.resolveHandle({ handle })
+   *   return res.data.did
+   * }}
+   * ```
+   */
+  resolveHandle?: (handle: string) => Promise<string | undefined>
+
+  /**
+   * Called with every distinct link URI in the text (in order) whenever that
+   * list changes — including for the initial content and `value` updates.
+   * Bluesky's composer turns the first link into an external embed card.
+   *
+   * @example
+   * ```tsx
+   * onLinksDetected={(uris) => setFirstLink(uris[0])}
+   * ```
+   */
+  onLinksDetected?: (uris: string[]) => void
+
+  /**
+   * Called when a link card should be suggested for a URI: when a typed link
+   * is completed (followed by whitespace) or a link is pasted. Each URI is
+   * requested at most once per editor, so a card the user dismissed is not
+   * suggested again. Pair with `LinkCardPreview` to show the card.
+   *
+   * Mirrors the link card suggestions of the Bluesky composer.
    *
-   * The `facets` array is populated via `detectFacetsWithoutResolution()` —
-   * facets will contain handles (not DIDs) for mentions until you resolve them
-   * server-side using the AT Protocol agent.
+   * @example
+   * ```tsx
+   * onLinkCardRequested={(uri) => setCardUri((current) => current ?? uri)}
+   * ```
    */
-  onChange?: (record: RichTextRecord) => void
+  onLinkCardRequested?: (uri: string) => void
 
   /**
    * Placeholder text shown when the editor is empty.
    */
   placeholder?: string
 
+  /**
+   * Called when the selection or cursor moves, with its UTF-8 byte offsets
+   * into the emitted text and the selected text — e.g. to quote the selected
+   * text or line annotations up with stored facets. Not called again while
+   * the offsets and text stay the same.
+   *
+   * With `shortenLinks`, offsets inside a shortened link snap to its start.
+   */
+  onSelectionChange?: (selection: RichTextSelection) => void
+
   /**
    * Called when the editor gains focus.
    */
@@ -146,6 +415,101 @@ export interface RichTextEditorProps extends Omit<HTMLAttributes<HTMLDivElement>
    */
   mentionSuggestionOptions?: DefaultSuggestionRendererOptions
 
+  /**
+   * Async function to fetch #hashtag suggestions (without the leading "#").
+   * Called with the query string (text after "#") as the user types.
+   *
+   * Tag autocomplete is only enabled when this prop is provided — there is
+   * no built-in tag search. Choosing a suggestion inserts "#tag " as plain
+   * text; the tag facet is detected from the text like any typed hashtag.
+   *
+   * @example
+   * ```tsx
+   * onTagQuery={async (q) => recentTags.filter((t) => t.startsWith(q))}
+   * ```
+   */
+  onTagQuery?: (query: string) => Promise<string[]>
+
+  /**
+   * Custom TipTap `suggestion.render` factory for the #hashtag popup.
+   * When provided, replaces the default @floating-ui/dom + TagSuggestionList renderer.
+   * Only used when `onTagQuery` is provided.
+   */
+  renderTagSuggestion?: SuggestionOptions<string>['render']
+
+  /**
+   * Async function to fetch emoji suggestions for a `:shortcode` query
+   * (without the leading ":").
+   *
+   * Emoji autocomplete is only enabled when this prop is provided — the
+   * library ships no emoji data. The popup opens after a space or at the
+   * start of a line once two characters have been typed; choosing a
+   * suggestion inserts the emoji character itself, so the text and facet
+   * offsets are the same as if it had been typed.
+   *
+   * @example
+   * ```tsx
+   * onEmojiQuery={async (q) =>
+   *   emojis
+   *     .filter((e) => e.shortcode.startsWith(q))
+   *     .map((e) => ({ emoji: e.char, shortcode: e.shortcode }))
+   * }
+   * ```
+   */
+  onEmojiQuery?: (query: string) => Promise<EmojiSuggestion[]>
+
+  /**
+   * Custom TipTap `suggestion.render` factory for the emoji popup.
+   * When provided, replaces the default @floating-ui/dom + EmojiSuggestionList renderer.
+   * Only used when `onEmojiQuery` is provided.
+   */
+  renderEmojiSuggestion?: SuggestionOptions<EmojiSuggestion>['render']
+
+  /**
+   * Custom autocomplete triggers — one descriptor per trigger character,
+   * each with its own item type (see `SuggestionDescriptor`). All of them use
+   * the default popup with rows drawn by `renderItem`.
+   *
+   * The editor is only rebuilt when the set of trigger characters changes,
+   * so the array and its callbacks may be recreated on every render.
+   *
+   * Built-in triggers win: a descriptor is ignored while its character is
+   * "@", "#" with `onTagQuery`, ":" with `onEmojiQuery` or "/" with `commands`.
+   *
+   * @example
+   * ```tsx
+   * suggestions={[
+   *   defineSuggestion({
+   *     char: '$',
+   *     query: async (q) => searchTickers(q),
+   *     renderItem: (ticker) => `$${ticker.symbol} ${ticker.name}`,
+   *     onSelect: (ticker) => `$${ticker.symbol} `,
+   *   }),
+   * ]}
+   * ```
+   */
+  suggestions?: AnySuggestionDescriptor[]
+
+  /**
+   * Actions of the "/" command menu. Typing "/" at the start of a line or
+   * after whitespace opens the menu, filtered by what is typed next; choosing
+   * a command removes the typed "/query" and calls its `run` with the
+   * editor's imperative API.
+   *
+   * While the menu is open the "/query" is never part of the emitted record
+   * (nor of `getText()`); it only becomes text if the menu is dismissed with
+   * Escape or by typing a space.
+   *
+   * @example
+   * ```tsx
+   * commands={[
+   *   { id: 'poll', title: 'Insert poll', run: () => setPollOpen(true) },
+   *   { id: 'gm', title: 'Good morning', run: (editor) => editor.insertText('gm ☀️') },
+   * ]}
+   * ```
+   */
+  commands?: SlashCommand[]
+
   /**
    * CSS class names for each styleable part of the editor.
    *
@@ -181,104 +545,6 @@ export interface RichTextEditorProps extends Omit<HTMLAttributes<HTMLDivElement>
   editable?: boolean
 }
 
-// ─── Helpers ─────────────────────────────────────────────────────────────────
-
-/**
- * Convert a `RichTextRecord` or string to the HTML the editor uses as
- * its initial content.
- *
- * Mention nodes must be expressed as `<span data-type="mention" data-id="handle">`
- * so TipTap's Mention extension can parse them correctly on load.
- *
- * Mirrors `richTextToHTML` in the Bluesky reference implementation.
- */
-function toInitialHTML(value: RichTextRecord | string | undefined): string {
-  if (!value) return ''
-
-  if (typeof value === 'string') {
-    return `<p>${escapeHTML(value)}</p>`
-  }
-
-  const { text, facets } = value
-
-  if (!facets?.length) {
-    return `<p>${escapeHTML(text)}</p>`
-  }
-
-  // Use @atproto/api's RichText class to iterate segments — it handles
-  // the byte-offset arithmetic for us.
-  // Cast via unknown: our Facet type is structurally identical to @atproto/api's
-  // internal Main[] but lacks the index signature that atproto adds.
-  // We also guard against undefined since exactOptionalPropertyTypes is enabled.
-  const atpFacets = facets as unknown as AtpRichText['facets']
-  const rt = new AtpRichText(atpFacets ? { text, facets: atpFacets } : { text })
-  let html = ''
-
-  for (const segment of rt.segments()) {
-    if (segment.mention) {
-      // Mention: emit a TipTap mention node using the DID as the `data-id`.
-      // The mention extension will render it via `renderLabel` as "@handle".
-      html += `<span data-type="mention" data-id="${escapeHTML(segment.mention.did)}"></span>`
-    } else {
-      html += escapeHTML(segment.text)
-    }
-  }
-
-  return html
-}
-
-function escapeHTML(str: string): string {
-  return str
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-}
-
-/**
- * Convert the TipTap editor's JSON document to a plain text string.
- *
- * - `doc` nodes iterate their children
- * - `paragraph` nodes add a newline after themselves (except the last one)
- * - `hardBreak` nodes add a newline
- * - `text` nodes emit their text content
- * - `mention` nodes emit "@{id}" (the handle stored in `attrs.id`)
- *
- * Directly mirrors `editorJsonToText` from the Bluesky reference.
- */
-function editorJsonToText(json: JSONContent, isLastDocumentChild = false): string {
-  let text = ''
-
-  if (json.type === 'doc') {
-    if (json.content?.length) {
-      for (let i = 0; i < json.content.length; i++) {
-        const node = json.content[i]
-        if (!node) continue
-        const isLast = i === json.content.length - 1
-        text += editorJsonToText(node, isLast)
-      }
-    }
-  } else if (json.type === 'paragraph') {
-    if (json.content?.length) {
-      for (const node of json.content) {
-        text += editorJsonToText(node)
-      }
-    }
-    if (!isLastDocumentChild) {
-      text += '\n'
-    }
-  } else if (json.type === 'hardBreak') {
-    text += '\n'
-  } else if (json.type === 'text') {
-    text += json.text ?? ''
-  } else if (json.type === 'mention') {
-    // The `id` attribute holds the handle chosen during autocomplete
-    text += `@${(json.attrs?.id as string | undefined) ?? ''}`
-  }
-
-  return text
-}
-
 // ─── Component ───────────────────────────────────────────────────────────────
 
 /**
@@ -287,11 +553,18 @@ function editorJsonToText(json: JSONContent, isLastDocumentChild = false): strin
  * Features:
  * - Real-time @mention autocomplete — defaults to the Bluesky public API,
  *   override with `onMentionQuery`
- * - Automatic URL decoration (link facets detected on change)
+ * - Automatic URL and #hashtag decoration (link / tag facets detected on change)
+ * - Links with custom text — select text and press Mod-K, or type `[label](url)`
+ * - Optional #hashtag autocomplete via `onTagQuery`
+ * - Optional `:shortcode:` emoji autocomplete via `onEmojiQuery`
+ * - Custom autocomplete triggers (`$`, `%`, …) via `suggestions`
+ * - A "/" command menu via `commands`
  * - Hard-break (Shift+Enter) for newlines inside a paragraph
  * - Undo/redo history
  * - `onChange` emits a `RichTextRecord` with `text` + `facets` populated via
  *   `detectFacetsWithoutResolution()`
+ * - `onResolvedChange` emits the same record with mention handles resolved to DIDs
+ * - Grapheme / byte length reported on every change; `maxGraphemes` highlights overflow
  * - Headless by default — Tailwind utility classes are applied via the default classNames; override freely via the `classNames` prop
  *
  * @example Basic usage (built-in Bluesky mention search)
@@ -325,8 +598,17 @@ function editorJsonToText(json: JSONContent, isLastDocumentChild = false): strin
  */
 export function RichTextEditor({
   initialValue,
+  value,
   onChange,
+  sanitizeOnChange = false,
+  onResolvedChange,
+  resolveHandle,
+  maxGraphemes,
+  shortenLinks = false,
+  onLinksDetected,
+  onLinkCardRequested,
   placeholder,
+  onSelectionChange,
   onFocus,
   onBlur,
   onMentionQuery,
@@ -334,6 +616,12 @@ export function RichTextEditor({
   disableDefaultMentionSearch = false,
   renderMentionSuggestion,
   mentionSuggestionOptions,
+  onTagQuery,
+  renderTagSuggestion,
+  onEmojiQuery,
+  renderEmojiSuggestion,
+  suggestions,
+  commands,
   classNames: classNamesProp,
   editorRef,
   editable = true,
@@ -367,14 +655,153 @@ export function RichTextEditor({
     return debouncedSearch
   }, [onMentionQuery, disableDefaultMentionSearch, debouncedSearch])
 
+  // Cached handle resolver — consumer-provided or the Bluesky public API.
+  // Recreated (and the cache dropped) only when the resolver itself changes.
+  const cachedResolveHandle = useMemo(
+    () => createCachedHandleResolver(resolveHandle),
+    [resolveHandle],
+  )
+
+  // Incremented on every update so that slow resolutions of older content
+  // never overwrite the result for newer content.
+  const resolutionSeq = useRef(0)
+
+  /** The editor's JSON, without the "/query" of an open command menu */
+  const getContentJson = (ed: Editor): JSONContent => withoutOpenCommand(ed.state) ?? ed.getJSON()
+
+  /** The record emitted for the editor's JSON — links shortened when enabled */
+  const toRecord = (json: JSONContent): RichTextRecord => {
+    const record = editorJsonToRecord(json)
+    return shortenLinks ? shortenRecordLinks(record) : record
+  }
+
+  /** The plain text matching `toRecord` */
+  const toText = (json: JSONContent): string =>
+    shortenLinks ? toRecord(json).text : editorJsonToText(json)
+
+  /**
+   * The selection between two document positions, with offsets into the
+   * emitted text — shifted past shortened links when enabled
+   */
+  const toSelection = (ed: Editor, from: number, to: number): RichTextSelection => {
+    const selection = getByteSelection(ed.state.doc, from, to)
+    if (!shortenLinks) return selection
+    const record = editorJsonToRecord(ed.getJSON())
+    const offsets = createShortenedLinkOffsetMap(record)
+    const byteStart = offsets.toShortened(selection.byteStart)
+    const byteEnd = offsets.toShortened(selection.byteEnd)
+    const text = createUtf8IndexMap(shortenRecordLinks(record).text).slice(byteStart, byteEnd)
+    return { byteStart, byteEnd, text }
+  }
+
+  /** The editor HTML for a record — shortened links restored when enabled */
+  const toContent = (content: RichTextRecord | string | undefined): string =>
+    toInitialHTML(
+      shortenLinks && typeof content === 'object' ? expandShortenedLinks(content) : content,
+    )
+
+  // Links found in the last detected content, and every URI a link card was
+  // already requested for (kept for the lifetime of the component).
+  const detectedLinks = useRef<DetectedLinks>(new Map())
+  const requestedLinkCards = useRef(new Set<string>())
+  // Set by the paste handler so the following update can request link cards
+  const mayBePaste = useRef(false)
+
+  /**
+   * Report link changes for `record`. Link cards are only requested for
+   * edits made by the user (`fromInput`), never for programmatic content.
+   */
+  const updateDetectedLinks = (record: RichTextRecord, fromInput: boolean) => {
+    const next = detectLinks(record)
+    const prev = detectedLinks.current
+    detectedLinks.current = next
+
+    if (!isSameLinkList(next, prev)) onLinksDetected?.([...next.keys()])
+    if (fromInput && onLinkCardRequested) {
+      const uri = suggestLinkCardUri(mayBePaste.current, next, prev, requestedLinkCards.current)
+      if (uri !== undefined) onLinkCardRequested(uri)
+    }
+  }
+
+  // Link popover opened by Mod-K — `null` when closed
+  const rootRef = useRef<HTMLDivElement>(null)
+  const [linkEditor, setLinkEditor] = useState<LinkEditorState | null>(null)
+
+  /**
+   * Open the link popover for the selection, or for the whole link the cursor
+   * is in. Returns false (letting the browser handle Mod-K) when there is
+   * nothing to link.
+   */
+  const openLinkEditor = (ed: Editor): boolean => {
+    if (!ed.isEditable) return false
+    const uri: unknown = ed.getAttributes('link').uri
+    if (typeof uri === 'string') ed.commands.extendMarkRange('link')
+
+    const { from, to, empty } = ed.state.selection
+    if (empty) return false
+
+    // Anchor the popover under the start of the selection
+    let top = 0
+    let left = 0
+    try {
+      const coords = ed.view.coordsAtPos(from)
+      const root = rootRef.current?.getBoundingClientRect()
+      top = coords.bottom - (root?.top ?? 0) + 4
+      left = coords.left - (root?.left ?? 0)
+    } catch {
+      // No layout (e.g. jsdom) — keep the popover at the top left
+    }
+
+    setLinkEditor({ from, to, top, left, ...(typeof uri === 'string' ? { uri } : {}) })
+    return true
+  }
+
+  // The link mark is configured once; it always calls the latest opener
+  const openLinkEditorRef = useRef(openLinkEditor)
+  useEffect(() => {
+    openLinkEditorRef.current = openLinkEditor
+  })
+
+  // The suggestion extensions are keyed by trigger character; they always
+  // call the latest descriptor for their character
+  const suggestionsRef = useRef(suggestions)
+  useEffect(() => {
+    suggestionsRef.current = suggestions
+  })
+  const suggestionCharsKey = JSON.stringify(suggestions?.map(({ char }) => char) ?? [])
+
+  // The command menu likewise runs the latest commands, with the latest handle
+  const commandsRef = useRef(commands)
+  useEffect(() => {
+    commandsRef.current = commands
+  })
+  const hasCommands = commands !== undefined
+  const builtInTriggers = [
+    '@',
+    ...(onTagQuery !== undefined ? ['#'] : []),
+    ...(onEmojiQuery !== undefined ? [':'] : []),
+    ...(hasCommands ? ['/'] : []),
+  ]
+  const handleRef = useRef<RichTextEditorRef | null>(null)
+
   // Stable values extracted from the memoized cn object.
   // Primitives (strings) are compared by value in useMemo deps, so they won't
   // cause spurious extension re-creations even if the cn object reference changes.
   const linkClass = cn.link ?? 'autolink'
+  const tagClass = cn.tag ?? 'hashtag'
+  const overflowClass = cn.overflow ?? 'overflow'
   const mentionClass = cn.mention
   const suggestionClassNames = cn.suggestion
   // Serialise the nested suggestion object so it can be used as a stable dep.
   const suggestionClassNamesKey = JSON.stringify(suggestionClassNames)
+  // Options for every default suggestion popup, with the suggestion classNames merged in
+  const defaultRendererOptions: DefaultSuggestionRendererOptions | undefined =
+    mentionSuggestionOptions !== undefined || suggestionClassNames !== undefined
+      ? {
+          ...(mentionSuggestionOptions ?? {}),
+          ...(suggestionClassNames !== undefined ? { classNames: suggestionClassNames } : {}),
+        }
+      : undefined
 
   const extensions = useMemo(
     () => [
@@ -385,6 +812,17 @@ export function RichTextEditor({
       HardBreak,
       // Configure link decorator with the resolved link class
       BskyLinkDecorator.configure({ linkClass }),
+      // Links with custom text, added with Mod-K or `[label](url)`
+      BskyLinkMark.configure({
+        linkClass,
+        onEditLink: (ed) => openLinkEditorRef.current(ed),
+      }),
+      // Highlight #hashtags exactly where tag facets will be detected
+      BskyTagDecorator.configure({ tagClass }),
+      // Highlight text past the grapheme limit, when one is set
+      ...(maxGraphemes !== undefined
+        ? [BskyOverflowDecorator.configure({ maxGraphemes, overflowClass, shortenLinks })]
+        : []),
       Placeholder.configure({ placeholder: placeholder ?? '' }),
       createBskyMentionExtension({
         onMentionQuery: mentionQuery,
@@ -393,16 +831,64 @@ export function RichTextEditor({
         ...(renderMentionSuggestion !== undefined
           ? { renderSuggestionList: renderMentionSuggestion }
           : {}),
-        // Merge suggestion classNames into the default renderer options
-        ...(mentionSuggestionOptions !== undefined || suggestionClassNames !== undefined
-          ? {
-              defaultRendererOptions: {
-                ...(mentionSuggestionOptions ?? {}),
-                ...(suggestionClassNames !== undefined ? { classNames: suggestionClassNames } : {}),
-              },
-            }
-          : {}),
+        ...(defaultRendererOptions !== undefined ? { defaultRendererOptions } : {}),
       }),
+      // Hashtag autocomplete — opt-in, there is no default tag search
+      ...(onTagQuery !== undefined
+        ? [
+            createBskyTagSuggestionExtension({
+              onTagQuery,
+              ...(renderTagSuggestion !== undefined
+                ? { renderSuggestionList: renderTagSuggestion }
+                : {}),
+              ...(defaultRendererOptions !== undefined ? { defaultRendererOptions } : {}),
+            }),
+          ]
+        : []),
+      // Emoji autocomplete — opt-in, the library ships no emoji data
+      ...(onEmojiQuery !== undefined
+        ? [
+            createBskyEmojiSuggestionExtension({
+              onEmojiQuery,
+              ...(renderEmojiSuggestion !== undefined
+                ? { renderSuggestionList: renderEmojiSuggestion }
+                : {}),
+              ...(defaultRendererOptions !== undefined ? { defaultRendererOptions } : {}),
+            }),
+          ]
+        : []),
+      // "/" command menu — opt-in
+      ...(hasCommands
+        ? [
+            createBskySuggestionExtension({
+              suggestion: createSlashCommandSuggestion(
+                () => commandsRef.current ?? [],
+                () => handleRef.current,
+              ),
+              pluginKey: SlashCommandPluginKey,
+              ...(defaultRendererOptions !== undefined ? { defaultRendererOptions } : {}),
+            }),
+          ]
+        : []),
+      // Custom triggers from the `suggestions` prop, except those whose
+      // character is taken by a built-in trigger
+      ...(suggestions ?? [])
+        .filter(({ char }) => !builtInTriggers.includes(char))
+        .map((descriptor) => {
+          const { char } = descriptor
+          const itemKey = descriptor.itemKey?.bind(descriptor)
+          const latest = () => suggestionsRef.current?.find((s) => s.char === char)
+          return createBskySuggestionExtension<unknown>({
+            suggestion: {
+              char,
+              query: (q) => latest()?.query(q) ?? Promise.resolve([]),
+              renderItem: (item, state) => latest()?.renderItem(item, state),
+              onSelect: (item) => latest()?.onSelect(item),
+              ...(itemKey !== undefined ? { itemKey } : {}),
+            },
+            ...(defaultRendererOptions !== undefined ? { defaultRendererOptions } : {}),
+          })
+        }),
     ],
     // eslint-disable-next-line react-hooks/exhaustive-deps
     [
@@ -410,17 +896,84 @@ export function RichTextEditor({
       placeholder,
       renderMentionSuggestion,
       mentionSuggestionOptions,
+      onTagQuery,
+      renderTagSuggestion,
+      onEmojiQuery,
+      renderEmojiSuggestion,
+      suggestionCharsKey,
+      hasCommands,
       linkClass,
+      tagClass,
+      overflowClass,
+      maxGraphemes,
+      shortenLinks,
       mentionClass,
       suggestionClassNamesKey,
     ],
   )
 
+  /**
+   * Emit the editor content:
+   * 1. Extract plain text from the ProseMirror JSON tree (handles mention nodes)
+   * 2. Use @atproto/api's `detectFacetsWithoutResolution()` to populate facets,
+   *    keeping the stored DID of mentions picked from autocomplete and the
+   *    URI of link marks, and shorten links when `shortenLinks` is set
+   * 3. Emit the result as a `RichTextRecord`, along with its length
+   *    (sanitized first when `sanitizeOnChange` is set)
+   * 4. If `onResolvedChange` is set, resolve mention handles to DIDs and
+   *    emit the resolved record once the latest resolution completes
+   * 5. Report changed links and request link cards for completed ones
+   *
+   * Called on every document change, and when a command menu closes — its
+   * "/query" becomes text. Mirrors the Bluesky reference's `onUpdate` handler.
+   */
+  const emitChange = (ed: Editor) => {
+    const linksTracked = onLinksDetected !== undefined || onLinkCardRequested !== undefined
+    if (!onChange && !onResolvedChange && !linksTracked) return
+
+    const record = toRecord(getContentJson(ed))
+
+    onChange?.(sanitizeOnChange ? sanitizeRichText(record) : record, getRichTextLength(record.text))
+
+    if (onResolvedChange) {
+      const seq = ++resolutionSeq.current
+      // Resolve from the unsanitized record — it still holds the typed handles
+      void resolveMentionFacets(record, cachedResolveHandle).then(
+        ({ record: resolved, unresolvedHandles }) => {
+          if (seq !== resolutionSeq.current) return
+          onResolvedChange(
+            sanitizeOnChange ? sanitizeRichText(resolved) : resolved,
+            unresolvedHandles,
+          )
+        },
+      )
+    }
+
+    if (linksTracked) updateDetectedLinks(record, true)
+    mayBePaste.current = false
+  }
+
+  // Whether the command menu was open after the last transaction
+  const commandMenuOpen = useRef(false)
+
+  // The last selection passed to `onSelectionChange`
+  const lastSelection = useRef<RichTextSelection | null>(null)
+
   const editor = useEditor(
     {
       extensions,
       editable,
-      content: toInitialHTML(initialValue),
+      content: toContent(value ?? initialValue),
+
+      /**
+       * Keep runs of spaces in the initial content exactly as authored so that
+       * loading a saved post and re-emitting it round-trips the text (and
+       * therefore every facet's byte offsets). Newlines are already split into
+       * paragraphs by `toInitialHTML`.
+       */
+      parseOptions: {
+        preserveWhitespace: 'full',
+      },
 
       /**
        * Disable immediate rendering to prevent SSR/hydration issues in Next.js,
@@ -447,6 +1000,7 @@ export function RichTextEditor({
          * Matches `handlePaste` in the Bluesky reference.
          */
         handlePaste(view, event) {
+          mayBePaste.current = true
           const clipboardData = event.clipboardData
           if (!clipboardData) return false
 
@@ -460,6 +1014,22 @@ export function RichTextEditor({
         },
       },
 
+      onSelectionUpdate({ editor: ed }) {
+        if (!onSelectionChange) return
+        const { from, to } = ed.state.selection
+        const selection = toSelection(ed, from, to)
+        const last = lastSelection.current
+        if (
+          last?.byteStart === selection.byteStart &&
+          last.byteEnd === selection.byteEnd &&
+          last.text === selection.text
+        ) {
+          return
+        }
+        lastSelection.current = selection
+        onSelectionChange(selection)
+      },
+
       onFocus() {
         onFocus?.()
       },
@@ -467,32 +1037,16 @@ export function RichTextEditor({
         onBlur?.()
       },
 
-      /**
-       * On every document change:
-       * 1. Extract plain text from the ProseMirror JSON tree (handles mention nodes)
-       * 2. Use @atproto/api's `detectFacetsWithoutResolution()` to populate facets
-       * 3. Emit the result as a `RichTextRecord`
-       *
-       * Mirrors the Bluesky reference's `onUpdate` handler.
-       */
       onUpdate({ editor: ed }) {
-        if (!onChange) return
-
-        const json = ed.getJSON()
-        const text = editorJsonToText(json)
-
-        // Detect facets (mentions as handles, not DIDs — resolve server-side)
-        const rt = new AtpRichText({ text })
-        rt.detectFacetsWithoutResolution()
-
-        // Cast via unknown: atproto's internal facet type has an extra index
-        // signature but is structurally identical to our public Facet type.
-        const record: RichTextRecord = {
-          text: rt.text,
-          ...(rt.facets?.length ? { facets: rt.facets as unknown as Facet[] } : {}),
-        }
+        emitChange(ed)
+      },
 
-        onChange(record)
+      // Closing the command menu without an edit (Escape) turns the hidden
+      // "/query" back into text, so emit it
+      onTransaction({ editor: ed, transaction }) {
+        const open = withoutOpenCommand(ed.state) !== undefined
+        if (commandMenuOpen.current && !open && !transaction.docChanged) emitChange(ed)
+        commandMenuOpen.current = open
       },
     },
     // Only recreate the editor when extensions change (e.g. placeholder update)
@@ -506,9 +1060,46 @@ export function RichTextEditor({
     }
   }, [editor, editable])
 
-  // Expose imperative API
-  useImperativeHandle(
-    editorRef,
+  // Controlled mode: apply external `value` changes that differ from what the
+  // editor already shows. Echoes of our own `onChange` output are skipped so
+  // the cursor and undo history survive.
+  useEffect(() => {
+    if (!editor || editor.isDestroyed || value === undefined) return
+    if (isSameEditorContent(toRecord(getContentJson(editor)), value)) return
+
+    const { from, to } = editor.state.selection
+    editor.commands.setContent(toContent(value), {
+      emitUpdate: false,
+      parseOptions: { preserveWhitespace: 'full' },
+    })
+
+    // Keep the selection where it was, clamped to the new document
+    const max = editor.state.doc.content.size - 1
+    editor.commands.setTextSelection({ from: Math.min(from, max), to: Math.min(to, max) })
+
+    updateDetectedLinks(toRecord(getContentJson(editor)), false)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editor, value])
+
+  // Report the links of the initial content once the editor exists
+  useEffect(() => {
+    if (!editor || editor.isDestroyed) return
+    updateDetectedLinks(toRecord(getContentJson(editor)), false)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editor])
+
+  /**
+   * Start a command chain for an edit made through the imperative API. Each
+   * such edit is its own undo step, however quickly the calls follow each other.
+   */
+  const startEdit = (ed: Editor) =>
+    ed.chain().command(({ tr }) => {
+      closeHistory(tr)
+      return true
+    })
+
+  // Imperative API — exposed through `editorRef` and passed to slash commands
+  const handle = useMemo<RichTextEditorRef>(
     () => ({
       focus() {
         editor?.commands.focus()
@@ -521,15 +1112,127 @@ export function RichTextEditor({
       },
       getText() {
         if (!editor) return ''
-        return editorJsonToText(editor.getJSON())
+        return toText(getContentJson(editor))
+      },
+      getLength() {
+        if (!editor) return getRichTextLength('')
+        return getRichTextLength(toText(getContentJson(editor)))
+      },
+      getRecord() {
+        if (!editor) return { text: '' }
+        const record = toRecord(getContentJson(editor))
+        return sanitizeOnChange ? sanitizeRichText(record) : record
+      },
+      setRecord(record) {
+        if (!editor) return
+        startEdit(editor)
+          .setContent(toContent(record), {
+            emitUpdate: true,
+            parseOptions: { preserveWhitespace: 'full' },
+          })
+          .run()
+      },
+      insertText(text) {
+        if (!editor) return
+        // One chain, so the insertion is a single undo step
+        const chain = startEdit(editor).focus()
+        text.split(/\r?\n/).forEach((line, i) => {
+          if (i > 0) chain.splitBlock()
+          if (line) chain.insertContent({ type: 'text', text: line })
+        })
+        chain.run()
+      },
+      insertMention({ did, handle }) {
+        if (!editor) return
+        startEdit(editor)
+          .focus()
+          .insertContent([
+            { type: 'mention', attrs: { id: handle, did, handle } },
+            { type: 'text', text: ' ' },
+          ])
+          .run()
+      },
+      insertLink(rawUri, label) {
+        const uri = normalizeLinkUri(rawUri)
+        if (!editor || uri === undefined) return false
+        return startEdit(editor)
+          .focus()
+          .insertContent(
+            label
+              ? { type: 'text', text: label, marks: [{ type: 'link', attrs: { uri } }] }
+              : { type: 'text', text: uri },
+          )
+          .run()
+      },
+      getSelection() {
+        if (!editor) return { byteStart: 0, byteEnd: 0 }
+        const { from, to } = editor.state.selection
+        const { byteStart, byteEnd } = toSelection(editor, from, to)
+        return { byteStart, byteEnd }
+      },
+      setSelection({ byteStart, byteEnd }) {
+        if (!editor) return
+        const { doc } = editor.state
+        // Offsets into the emitted text, back into the editor text
+        const offsets = shortenLinks
+          ? createShortenedLinkOffsetMap(editorJsonToRecord(editor.getJSON()))
+          : undefined
+        editor.commands.setTextSelection({
+          from: byteOffsetToPos(doc, offsets?.toFull(byteStart) ?? byteStart),
+          to: byteOffsetToPos(doc, offsets?.toFull(byteEnd) ?? byteEnd),
+        })
+      },
+      undo() {
+        editor?.commands.undo()
+      },
+      redo() {
+        editor?.commands.redo()
+      },
+      canUndo() {
+        return editor?.can().undo() ?? false
+      },
+      canRedo() {
+        return editor?.can().redo() ?? false
       },
     }),
-    [editor],
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [editor, shortenLinks, sanitizeOnChange],
   )
+  useImperativeHandle(editorRef, () => handle, [handle])
+  useEffect(() => {
+    handleRef.current = handle
+  })
+
+  const closeLinkEditor = () => {
+    setLinkEditor(null)
+    editor?.commands.focus()
+  }
+
+  /** Apply `uri` (or remove the link) over the range the popover was opened for */
+  const updateLink = (uri: string | undefined) => {
+    if (!editor || !linkEditor) return
+    const { from, to } = linkEditor
+    const chain = editor.chain().focus().setTextSelection({ from, to })
+    if (uri === undefined) chain.unsetLink()
+    else chain.setLink({ uri })
+    chain.setTextSelection(to).run()
+    setLinkEditor(null)
+  }
 
   return (
-    <div className={cn.root} {...divProps}>
+    <div ref={rootRef} className={cn.root} {...divProps}>
       <EditorContent editor={editor} className={cn.content} />
+      {linkEditor && (
+        <LinkEditPopover
+          style={{ position: 'absolute', top: linkEditor.top, left: linkEditor.left }}
+          onSubmit={updateLink}
+          onCancel={closeLinkEditor}
+          {...(linkEditor.uri !== undefined
+            ? { initialUri: linkEditor.uri, onRemove: () => updateLink(undefined) }
+            : {})}
+          {...(cn.linkEditor !== undefined ? { classNames: cn.linkEditor } : {})}
+        />
+      )}
     </div>
   )
 }
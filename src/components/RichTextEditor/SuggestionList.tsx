@@ -0,0 +1,185 @@
+/**
+ * SuggestionList
+ *
+ * Generic autocomplete dropdown: keyboard navigation, selection and the
+ * empty state, with each row's content supplied by `renderItem`. The mention,
+ * hashtag and emoji lists are built on it, and it renders the popups of the
+ * editor's custom `suggestions` triggers.
+ */
+
+import {
+  forwardRef,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useState,
+  type ForwardedRef,
+  type ReactElement,
+  type ReactNode,
+  type RefAttributes,
+} from 'react'
+import type { SuggestionKeyDownProps, SuggestionProps } from '@tiptap/suggestion'
+import type { SuggestionClassNames } from '../../types/classNames'
+import { defaultSuggestionClassNames } from '../../defaults/classNames'
+import { generateClassNames } from '../../utils/classNames'
+import type { MentionSuggestionListRef } from './MentionSuggestionList'
+import type {
+  DefaultSuggestionRendererOptions,
+  SuggestionListComponent,
+} from './createSuggestionRenderer'
+
+// ─── Props ───────────────────────────────────────────────────────────────────
+
+/**
+ * What `renderItem` knows about the row it renders.
+ */
+export interface SuggestionItemState {
+  /** Whether the row is highlighted (keyboard selection or hover) */
+  selected: boolean
+  /** The list's class names, merged with the defaults — for the row's inner parts */
+  classNames: SuggestionClassNames
+}
+
+export interface SuggestionListProps<TItem> extends SuggestionProps<TItem> {
+  /**
+   * Render the content of one row, inside the row's button.
+   */
+  renderItem: (item: TItem, state: SuggestionItemState) => ReactNode
+
+  /**
+   * React key of a row.
+   * @default the item's index
+   */
+  itemKey?: (item: TItem) => string
+
+  /**
+   * Text to show when the items array is empty.
+   * @default "No results"
+   */
+  noResultsText?: string
+
+  /**
+   * CSS class names for each styleable part of the suggestion dropdown.
+   * The list itself uses `root`, `item`, `itemSelected` and `empty`; the
+   * other slots are available to `renderItem`.
+   */
+  classNames?: Partial<SuggestionClassNames>
+}
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+function SuggestionListImpl<TItem>(
+  {
+    items,
+    command,
+    renderItem,
+    itemKey,
+    noResultsText = 'No results',
+    classNames: classNamesProp,
+  }: SuggestionListProps<TItem>,
+  ref: ForwardedRef<MentionSuggestionListRef>,
+) {
+  const [selectedIndex, setSelectedIndex] = useState(0)
+
+  // Memoized via JSON.stringify so inline object literals don't recalculate every render.
+  const cn = useMemo(
+    () => generateClassNames([defaultSuggestionClassNames, classNamesProp]),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [JSON.stringify(classNamesProp)],
+  )
+
+  // Reset selection when items change (new query results arrived)
+  useEffect(() => {
+    setSelectedIndex(0)
+  }, [items])
+
+  const selectItem = (index: number) => {
+    const item = items[index]
+    if (item !== undefined) command(item)
+  }
+
+  // ─── Keyboard handler (called by TipTap via the ref) ────────────────────
+
+  useImperativeHandle(ref, () => ({
+    onKeyDown({ event }: SuggestionKeyDownProps): boolean {
+      if (items.length === 0) return false
+      if (event.key === 'ArrowUp') {
+        setSelectedIndex((prev) => (prev + items.length - 1) % items.length)
+        return true
+      }
+      if (event.key === 'ArrowDown') {
+        setSelectedIndex((prev) => (prev + 1) % items.length)
+        return true
+      }
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        selectItem(selectedIndex)
+        return true
+      }
+      return false
+    },
+  }))
+
+  // ─── Render ──────────────────────────────────────────────────────────────
+
+  return (
+    <div
+      className={cn.root}
+      // Prevent the editor from losing focus when clicking a suggestion
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      {items.length === 0 ? (
+        <div className={cn.empty}>{noResultsText}</div>
+      ) : (
+        items.map((item, index) => {
+          const selected = index === selectedIndex
+          const itemClass = selected ? `${cn.item ?? ''} ${cn.itemSelected ?? ''}`.trim() : cn.item
+
+          return (
+            <button
+              key={itemKey?.(item) ?? index}
+              type="button"
+              className={itemClass}
+              onMouseEnter={() => setSelectedIndex(index)}
+              onClick={() => selectItem(index)}
+            >
+              {renderItem(item, { selected, classNames: cn })}
+            </button>
+          )
+        })
+      )}
+    </div>
+  )
+}
+
+/**
+ * Generic suggestion dropdown. Selecting a row calls TipTap's `command` with
+ * the item itself.
+ */
+export const SuggestionList = forwardRef(SuggestionListImpl) as <TItem>(
+  props: SuggestionListProps<TItem> & RefAttributes<MentionSuggestionListRef>,
+) => ReactElement
+
+// ─── Factory ─────────────────────────────────────────────────────────────────
+
+/**
+ * Create a list component for `createDefaultSuggestionRenderer` that renders
+ * rows with `renderItem`.
+ */
+export function createSuggestionListComponent<TItem>(
+  renderItem: SuggestionListProps<TItem>['renderItem'],
+  itemKey?: SuggestionListProps<TItem>['itemKey'],
+): SuggestionListComponent<TItem> {
+  return forwardRef<
+    MentionSuggestionListRef,
+    SuggestionProps<TItem> & DefaultSuggestionRendererOptions
+  >(function CustomSuggestionList({ showAvatars: _showAvatars, ...props }, ref) {
+    return (
+      <SuggestionList
+        {...props}
+        ref={ref}
+        renderItem={renderItem}
+        {...(itemKey !== undefined ? { itemKey } : {})}
+      />
+    )
+  })
+}
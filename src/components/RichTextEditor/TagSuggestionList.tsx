@@ -0,0 +1,54 @@
+/**
+ * TagSuggestionList
+ *
+ * Default #hashtag autocomplete dropdown, rendered by the default suggestion
+ * renderer when `RichTextEditor` is given an `onTagQuery` prop.
+ *
+ * Shares `SuggestionClassNames` (and therefore `classNames.suggestion`) with
+ * `MentionSuggestionList`, so both popups look the same out of the box.
+ */
+
+import { forwardRef } from 'react'
+import type { SuggestionProps } from '@tiptap/suggestion'
+import type { SuggestionClassNames } from '../../types/classNames'
+import type { MentionSuggestionListRef } from './MentionSuggestionList'
+import { SuggestionList } from './SuggestionList'
+
+// ─── Props ───────────────────────────────────────────────────────────────────
+
+export interface TagSuggestionListProps extends SuggestionProps<string> {
+  /**
+   * Text to show when the items array is empty.
+   * @default "No results"
+   */
+  noResultsText?: string
+
+  /**
+   * CSS class names for each styleable part of the suggestion dropdown.
+   * Only `root`, `item`, `itemSelected`, `text`, `name` and `empty` are used.
+   */
+  classNames?: Partial<SuggestionClassNames>
+}
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+/**
+ * Default hashtag suggestion dropdown. Each item is a tag value without the
+ * leading "#"; selecting one replaces the typed "#query" with "#tag ".
+ */
+export const TagSuggestionList = forwardRef<MentionSuggestionListRef, TagSuggestionListProps>(
+  function TagSuggestionListImpl(props, ref) {
+    return (
+      <SuggestionList
+        {...props}
+        ref={ref}
+        itemKey={(tag) => tag}
+        renderItem={(tag, { classNames: cn }) => (
+          <span className={cn.text}>
+            <span className={cn.name}>#{tag}</span>
+          </span>
+        )}
+      />
+    )
+  },
+)
@@ -10,18 +10,18 @@
  * https://tiptap.dev/docs/editor/extensions/nodes/mention#usage
  *
  * This is the default renderer used when the consumer does NOT supply
- * a custom `renderMentionSuggestion` prop to `<RichTextEditor>`.
+ * a custom `renderMentionSuggestion` prop to `<RichTextEditor>`. Passing a
+ * different list component (e.g. `TagSuggestionList`, or one made with
+ * `createSuggestionListComponent`) reuses the same popup lifecycle for other
+ * trigger characters.
  */
 
+import type { ForwardRefExoticComponent, RefAttributes } from 'react'
 import { computePosition, flip, offset, shift } from '@floating-ui/dom'
 import { ReactRenderer } from '@tiptap/react'
 import type { SuggestionOptions, SuggestionProps } from '@tiptap/suggestion'
 import type { SuggestionClassNames } from '../../types/classNames'
-import {
-  MentionSuggestionList,
-  type MentionSuggestionListRef,
-  type MentionSuggestionListProps,
-} from './MentionSuggestionList'
+import { MentionSuggestionList, type MentionSuggestionListRef } from './MentionSuggestionList'
 import type { MentionSuggestion } from './RichTextEditor'
 
 // ─── Options ─────────────────────────────────────────────────────────────────
@@ -47,6 +47,19 @@ export interface DefaultSuggestionRendererOptions {
   classNames?: Partial<SuggestionClassNames>
 }
 
+/**
+ * A suggestion list component the default renderer can mount.
+ * It receives TipTap's `SuggestionProps` plus the renderer options, and must
+ * expose an `onKeyDown` handle for keyboard navigation.
+ */
+export type SuggestionListComponent<TItem> = ForwardRefExoticComponent<
+  SuggestionProps<TItem> &
+    DefaultSuggestionRendererOptions &
+    RefAttributes<MentionSuggestionListRef>
+>
+
+type SuggestionListProps<TItem> = SuggestionProps<TItem> & DefaultSuggestionRendererOptions
+
 // ─── Factory ─────────────────────────────────────────────────────────────────
 
 /**
@@ -60,15 +73,24 @@ export interface DefaultSuggestionRendererOptions {
  *  - `onUpdate` → Update props, reposition popup
  *  - `onKeyDown`→ Delegate to the MentionSuggestionList imperative ref
  *  - `onExit`   → Destroy popup and React renderer
+ *
+ * @param options   - Options forwarded to the list component
+ * @param component - List component to mount (default: `MentionSuggestionList`)
  */
-export function createDefaultSuggestionRenderer(
+export function createDefaultSuggestionRenderer<TItem = MentionSuggestion>(
   options: DefaultSuggestionRendererOptions = {},
-): SuggestionOptions<MentionSuggestion>['render'] {
+  component?: SuggestionListComponent<TItem>,
+): SuggestionOptions<TItem>['render'] {
+  // The default list renders `MentionSuggestion` items; TItem only differs
+  // when a matching `component` is supplied.
+  const ListComponent =
+    component ?? (MentionSuggestionList as unknown as SuggestionListComponent<TItem>)
+
   return () => {
-    let renderer: ReactRenderer<MentionSuggestionListRef, MentionSuggestionListProps> | undefined
+    let renderer: ReactRenderer<MentionSuggestionListRef, SuggestionListProps<TItem>> | undefined
     let popup: HTMLDivElement | undefined
 
-    const buildProps = (props: SuggestionProps<MentionSuggestion>): MentionSuggestionListProps => ({
+    const buildProps = (props: SuggestionProps<TItem>): SuggestionListProps<TItem> => ({
       ...props,
       showAvatars: options.showAvatars ?? true,
       noResultsText: options.noResultsText ?? 'No results',
@@ -76,8 +98,8 @@ export function createDefaultSuggestionRenderer(
     })
 
     return {
-      onStart(props: SuggestionProps<MentionSuggestion>) {
-        renderer = new ReactRenderer(MentionSuggestionList, {
+      onStart(props: SuggestionProps<TItem>) {
+        renderer = new ReactRenderer(ListComponent, {
           props: buildProps(props),
           editor: props.editor,
         })
@@ -108,7 +130,7 @@ export function createDefaultSuggestionRenderer(
         })
       },
 
-      onUpdate(props: SuggestionProps<MentionSuggestion>) {
+      onUpdate(props: SuggestionProps<TItem>) {
         renderer?.updateProps(buildProps(props))
 
         if (!props.clientRect || !popup) return
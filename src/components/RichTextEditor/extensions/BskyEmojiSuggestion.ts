@@ -0,0 +1,96 @@
+/**
+ * TipTap extension adding `:shortcode:` emoji autocomplete to the RichTextEditor.
+ *
+ * Like hashtag suggestions, choosing an emoji inserts plain text — the unicode
+ * character itself — so the emitted text, grapheme count and facet byte
+ * offsets are exactly what they would be had the emoji been typed.
+ *
+ * Uses the same `@tiptap/suggestion` machinery (and, by default, the same
+ * @floating-ui/dom popup renderer) as `createBskyMentionExtension`.
+ */
+
+import { Extension } from '@tiptap/core'
+import { PluginKey } from '@tiptap/pm/state'
+import { Suggestion, type SuggestionOptions } from '@tiptap/suggestion'
+import {
+  createDefaultSuggestionRenderer,
+  type DefaultSuggestionRendererOptions,
+} from '../createSuggestionRenderer'
+import { EmojiSuggestionList } from '../EmojiSuggestionList'
+import type { EmojiSuggestion } from '../RichTextEditor'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface BskyEmojiSuggestionOptions {
+  /**
+   * Async function that returns emoji suggestions for a shortcode query
+   * (without the leading ":"). Called every time the user types after ":".
+   */
+  onEmojiQuery: (query: string) => Promise<EmojiSuggestion[]>
+
+  /**
+   * Custom TipTap `suggestion.render` factory.
+   * When omitted, the built-in @floating-ui/dom + `EmojiSuggestionList` renderer is used.
+   */
+  renderSuggestionList?: SuggestionOptions<EmojiSuggestion>['render']
+
+  /**
+   * Options forwarded to the default renderer (ignored when `renderSuggestionList`
+   * is provided).
+   */
+  defaultRendererOptions?: DefaultSuggestionRendererOptions
+}
+
+// ─── Extension factory ───────────────────────────────────────────────────────
+
+/**
+ * Create a TipTap extension providing ":" emoji autocomplete.
+ *
+ * The popup only opens after a space or at the start of a line, so times
+ * ("12:30") and URLs ("https://") never trigger it, and only once at least
+ * two characters have been typed. Returns up to 8 suggestions per query,
+ * like the mention extension.
+ */
+export function createBskyEmojiSuggestionExtension({
+  onEmojiQuery,
+  renderSuggestionList,
+  defaultRendererOptions,
+}: BskyEmojiSuggestionOptions) {
+  const render =
+    renderSuggestionList ??
+    createDefaultSuggestionRenderer<EmojiSuggestion>(defaultRendererOptions, EmojiSuggestionList)
+
+  return Extension.create({
+    name: 'bskyEmojiSuggestion',
+
+    addProseMirrorPlugins() {
+      return [
+        Suggestion<EmojiSuggestion>({
+          editor: this.editor,
+          pluginKey: new PluginKey('bskyEmojiSuggestion'),
+          char: ':',
+          allowSpaces: false,
+          startOfLine: false,
+
+          items: async ({ query }) => {
+            if (query.length < 2) return []
+            try {
+              const results = await onEmojiQuery(query)
+              return results.slice(0, 8)
+            } catch {
+              return []
+            }
+          },
+
+          // Replace ":query" with the emoji followed by a space
+          command: ({ editor, range, props: { emoji } }) => {
+            editor.chain().focus().insertContentAt(range, `${emoji} `).run()
+          },
+
+          // Spread so the key is only present when defined (exactOptionalPropertyTypes)
+          ...(render !== undefined ? { render } : {}),
+        }),
+      ]
+    },
+  })
+}
@@ -31,10 +31,36 @@ import { Decoration, DecorationSet } from '@tiptap/pm/view'
  */
 const URL_REGEX = /https?:\/\/[^\s<>"{}|\\^`[\]]+/g
 
+/**
+ * Find every URL in `text`, with the trailing punctuation Bluesky's
+ * `iterateUris` strips removed. `start` / `end` are UTF-16 indices.
+ */
+export function findUrls(text: string): Array<{ uri: string; start: number; end: number }> {
+  const urls: Array<{ uri: string; start: number; end: number }> = []
+  // Reset lastIndex before each new text
+  URL_REGEX.lastIndex = 0
+
+  let match: RegExpExecArray | null
+  while ((match = URL_REGEX.exec(text)) !== null) {
+    let uri = match[0]
+
+    // Strip trailing punctuation (mirrors Bluesky's iterateUris)
+    if (/[.,;!?]$/.test(uri)) {
+      uri = uri.slice(0, -1)
+    }
+    if (/[)]$/.test(uri) && !uri.includes('(')) {
+      uri = uri.slice(0, -1)
+    }
+
+    urls.push({ uri, start: match.index, end: match.index + uri.length })
+  }
+  return urls
+}
+
 // ─── Decoration helpers ──────────────────────────────────────────────────────
 
 /**
- * Walk every text node in the document, run URL_REGEX over its content,
+ * Walk every text node in the document, find the URLs in its content,
  * and emit an inline Decoration for each match.
  */
 function getDecorations(doc: ProsemirrorNode, linkClass: string): DecorationSet {
@@ -43,28 +69,9 @@ function getDecorations(doc: ProsemirrorNode, linkClass: string): DecorationSet
   doc.descendants((node, pos) => {
     if (!node.isText || !node.text) return
 
-    const text = node.text
-    // Reset lastIndex before each new text node
-    URL_REGEX.lastIndex = 0
-
-    let match: RegExpExecArray | null
-    while ((match = URL_REGEX.exec(text)) !== null) {
-      let uri = match[0]
-      const from = pos + match.index
-      let to = from + uri.length
-
-      // Strip trailing punctuation (mirrors Bluesky's iterateUris)
-      if (/[.,;!?]$/.test(uri)) {
-        uri = uri.slice(0, -1)
-        to--
-      }
-      if (/[)]$/.test(uri) && !uri.includes('(')) {
-        uri = uri.slice(0, -1)
-        to--
-      }
-
+    for (const { start, end } of findUrls(node.text)) {
       decorations.push(
-        Decoration.inline(from, to, {
+        Decoration.inline(pos + start, pos + end, {
           class: linkClass,
           'data-autolink': '',
         }),
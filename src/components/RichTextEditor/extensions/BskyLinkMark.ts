@@ -0,0 +1,149 @@
+/**
+ * BskyLinkMark — links whose text differs from their URI ("markdown-style"
+ * links such as "the docs" → https://docs.bsky.app).
+ *
+ * Raw URLs never need this mark: their link facets are re-detected from the
+ * text by `detectFacetsWithoutResolution()` and only decorated by
+ * `BskyLinkDecorator`. A link with custom text cannot be derived from the
+ * text, so it is stored in the document as a mark carrying its `uri`, and
+ * `editorJsonToRecord` turns every marked run into an explicit link facet
+ * that replaces whatever was detected over the same range.
+ *
+ * Links are added by:
+ *   - Mod-K on a selection (or inside an existing link) — opens the editor's
+ *     link popover through the `onEditLink` option
+ *   - Typing `[label](url)` — converted as soon as the ")" is typed
+ *   - The `setLink` / `unsetLink` commands
+ *
+ * Only http(s) URIs are accepted (see `normalizeLinkUri`): an `<a>` with any
+ * other `href` is parsed as plain text, and `setLink` refuses it.
+ */
+
+import { InputRule, Mark, mergeAttributes, type Editor } from '@tiptap/core'
+import { normalizeLinkUri } from '../../../utils/url'
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    bskyLink: {
+      /** Link the selected text to `uri`. Fails unless `uri` is an http(s) URL. */
+      setLink: (attributes: { uri: string }) => ReturnType
+      /** Remove the link from the selected text */
+      unsetLink: () => ReturnType
+    }
+  }
+}
+
+// ─── Input rule ──────────────────────────────────────────────────────────────
+
+/** `[label](url)` just before the cursor */
+const MARKDOWN_LINK_REGEX = /\[([^[\]]+)\]\(([^()\s]+)\)$/
+
+// ─── TipTap Extension ────────────────────────────────────────────────────────
+
+export interface BskyLinkMarkOptions {
+  /**
+   * CSS class applied to each link rendered inside the editor.
+   * Override via the editor's `classNames.link` prop.
+   * @default 'autolink'
+   */
+  linkClass: string
+
+  /**
+   * Called on Mod-K. Return true when a link editor was opened, so the
+   * browser's own shortcut is suppressed.
+   */
+  onEditLink: ((editor: Editor) => boolean) | undefined
+}
+
+export const BskyLinkMark = Mark.create<BskyLinkMarkOptions>({
+  name: 'link',
+
+  // Typing at either end of a link does not extend it
+  inclusive: false,
+
+  addOptions() {
+    return {
+      linkClass: 'autolink',
+      onEditLink: undefined,
+    }
+  },
+
+  addAttributes() {
+    return {
+      uri: {
+        default: null,
+        parseHTML: (element) => normalizeLinkUri(element.getAttribute('href') ?? '') ?? null,
+        renderHTML: (attributes) => {
+          const uri =
+            typeof attributes.uri === 'string' ? normalizeLinkUri(attributes.uri) : undefined
+          return uri ? { href: uri } : {}
+        },
+      },
+    }
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'a[href]',
+        // Drop the mark, keeping the text, when the URI is not http(s)
+        getAttrs: (element) =>
+          normalizeLinkUri(element.getAttribute('href') ?? '') === undefined ? false : null,
+      },
+    ]
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      'a',
+      mergeAttributes(HTMLAttributes, {
+        class: this.options.linkClass,
+        'data-link': '',
+        rel: 'noopener noreferrer nofollow',
+      }),
+      0,
+    ]
+  },
+
+  addCommands() {
+    return {
+      setLink:
+        ({ uri }) =>
+        ({ chain }) => {
+          const normalized = normalizeLinkUri(uri)
+          return normalized !== undefined && chain().setMark(this.name, { uri: normalized }).run()
+        },
+      unsetLink:
+        () =>
+        ({ chain }) =>
+          chain().unsetMark(this.name, { extendEmptyMarkRange: true }).run(),
+    }
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      'Mod-k': ({ editor }) => this.options.onEditLink?.(editor) ?? false,
+    }
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: MARKDOWN_LINK_REGEX,
+        handler: ({ state, range, match }) => {
+          const [, label, url] = match
+          const uri = url !== undefined ? normalizeLinkUri(url) : undefined
+          if (!label || uri === undefined) return null
+
+          const { tr } = state
+          tr.replaceWith(
+            range.from,
+            range.to,
+            state.schema.text(label, [this.type.create({ uri })]),
+          )
+          tr.removeStoredMark(this.type)
+        },
+      }),
+    ]
+  },
+})
@@ -11,6 +11,7 @@
 import { Mention } from '@tiptap/extension-mention'
 import type { SuggestionOptions } from '@tiptap/suggestion'
 import type { MentionSuggestion } from '../RichTextEditor'
+import { getMentionHandle } from '../serialization'
 import {
   createDefaultSuggestionRenderer,
   type DefaultSuggestionRendererOptions,
@@ -48,12 +49,43 @@ export interface BskyMentionOptions {
 
 // ─── Extension factory ───────────────────────────────────────────────────────
 
+/**
+ * Mention node with Bluesky-specific `did` and `handle` attributes on top of
+ * the stock `id` / `label` ones.
+ *
+ * - `did`    — the account DID; when present it is used verbatim as the
+ *              mention facet's `did`, so no resolution is needed
+ * - `handle` — the handle displayed as "@handle" and written to the text
+ *
+ * Both round-trip through HTML as `data-did` / `data-handle`.
+ */
+const BskyMentionNode = Mention.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      did: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-did'),
+        renderHTML: (attributes) =>
+          attributes.did ? { 'data-did': attributes.did as string } : {},
+      },
+      handle: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-handle'),
+        renderHTML: (attributes) =>
+          attributes.handle ? { 'data-handle': attributes.handle as string } : {},
+      },
+    }
+  },
+})
+
 /**
  * Create a configured TipTap Mention extension for Bluesky.
  *
- * The mention node stores the account handle as `id` and surfaces it via
- * `renderLabel` as "@handle". When the editor JSON is serialised in
- * `editorJsonToText`, mention nodes are rendered as `@{id}`.
+ * The mention node stores the account `did` and `handle` (plus the handle as
+ * `id`, for compatibility with custom suggestion renderers) and surfaces the
+ * handle via `renderLabel` as "@handle". When the editor JSON is serialised,
+ * mention nodes are rendered as `@{handle}` and their facet uses the stored DID.
  */
 export function createBskyMentionExtension({
   onMentionQuery,
@@ -64,23 +96,22 @@ export function createBskyMentionExtension({
   // Use the consumer-supplied renderer, or fall back to our built-in one.
   const render = renderSuggestionList ?? createDefaultSuggestionRenderer(defaultRendererOptions)
 
-  return Mention.configure({
+  return BskyMentionNode.configure({
     HTMLAttributes: {
       class: mentionClass,
     },
 
     /**
      * Render the mention node's text content inside the editor.
-     * The `id` attribute stores the handle (e.g. "alice.bsky.social"),
+     * The `handle` attribute (falling back to `label` / `id` for nodes
+     * inserted by custom renderers) stores the handle, e.g. "alice.bsky.social",
      * so we prefix it with "@".
      *
      * Mirrors the Bluesky reference:
      *   text += `@${json.attrs?.id || ''}`  (in editorJsonToText)
      */
     renderLabel({ options, node }) {
-      const handle =
-        (node.attrs.label as string | undefined) ?? (node.attrs.id as string | undefined) ?? ''
-      return `${options.suggestion.char ?? '@'}${handle}`
+      return `${options.suggestion.char ?? '@'}${getMentionHandle(node.attrs)}`
     },
 
     suggestion: {
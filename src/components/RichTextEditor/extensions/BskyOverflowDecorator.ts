@@ -0,0 +1,165 @@
+/**
+ * BskyOverflowDecorator — highlights text past the post length limit.
+ *
+ * Like `BskyLinkDecorator`, this is a stateless ProseMirror DecorationSet that
+ * is recalculated on every document change. The document is flattened the
+ * same way `editorJsonToText` flattens it (paragraphs joined by "\n",
+ * mentions as "@handle"), the grapheme at index `maxGraphemes` is located,
+ * and everything from there to the end of the document is decorated.
+ * With `shortenLinks`, URLs count as their `toShortUrl` form, matching the
+ * text the editor emits in that mode.
+ *
+ * Mirrors the overflow highlight in Bluesky's composer.
+ */
+
+import { Extension } from '@tiptap/core'
+import type { Node as ProsemirrorNode } from '@tiptap/pm/model'
+import { Plugin, PluginKey } from '@tiptap/pm/state'
+import { Decoration, DecorationSet } from '@tiptap/pm/view'
+import { graphemeIndexToCharIndex } from '../../../utils/graphemes'
+import { toShortUrl } from '../../../utils/url'
+import { getMentionHandle } from '../serialization'
+import { findUrls } from './BskyLinkDecorator'
+
+// ─── Decoration helpers ──────────────────────────────────────────────────────
+
+/**
+ * Replace every URL of the flattened `text` with its short form. All the
+ * characters of a short URL are attributed to the start of the original URL,
+ * so a link that only partially fits is highlighted as a whole.
+ */
+function shortenUrls(text: string, positions: number[]): { text: string; positions: number[] } {
+  let shortText = ''
+  const shortPositions: number[] = []
+  let last = 0
+
+  for (const { uri, start, end } of findUrls(text)) {
+    const short = toShortUrl(uri)
+    shortText += text.slice(last, start) + short
+    shortPositions.push(...positions.slice(last, start))
+    for (let i = 0; i < short.length; i++) shortPositions.push(positions[start] ?? 0)
+    last = end
+  }
+
+  shortText += text.slice(last)
+  shortPositions.push(...positions.slice(last))
+  return { text: shortText, positions: shortPositions }
+}
+
+/**
+ * Find the document position of the first grapheme past `maxGraphemes`,
+ * or `null` if the document fits.
+ */
+function findOverflowStart(
+  doc: ProsemirrorNode,
+  maxGraphemes: number,
+  shortenLinks: boolean,
+): number | null {
+  let text = ''
+  // Document position of every UTF-16 code unit in `text`
+  const positions: number[] = []
+  let isFirstBlock = true
+
+  const append = (str: string, pos: (i: number) => number) => {
+    for (let i = 0; i < str.length; i++) positions.push(pos(i))
+    text += str
+  }
+
+  doc.descendants((node, pos) => {
+    if (node.isBlock) {
+      // Paragraph separator — attributed to the start of the new paragraph
+      if (!isFirstBlock) append('\n', () => pos + 1)
+      isFirstBlock = false
+    } else if (node.isText) {
+      append(node.text ?? '', (i) => pos + i)
+    } else if (node.type.name === 'mention') {
+      append(`@${getMentionHandle(node.attrs)}`, () => pos)
+    } else if (node.type.name === 'hardBreak') {
+      append('\n', () => pos)
+    }
+  })
+
+  const measured = shortenLinks ? shortenUrls(text, positions) : { text, positions }
+  const charIndex = graphemeIndexToCharIndex(measured.text, maxGraphemes)
+  return measured.positions[charIndex] ?? null
+}
+
+function getDecorations(
+  doc: ProsemirrorNode,
+  { maxGraphemes, overflowClass, shortenLinks }: BskyOverflowDecoratorOptions,
+): DecorationSet {
+  const from = findOverflowStart(doc, maxGraphemes, shortenLinks)
+  if (from === null) return DecorationSet.empty
+
+  return DecorationSet.create(doc, [
+    Decoration.inline(from, doc.content.size, {
+      class: overflowClass,
+      'data-overflow': '',
+    }),
+  ])
+}
+
+// ─── Plugin factory ──────────────────────────────────────────────────────────
+
+function createOverflowDecoratorPlugin(options: BskyOverflowDecoratorOptions): Plugin {
+  const key = new PluginKey<DecorationSet>('bsky-overflow-decorator')
+
+  return new Plugin<DecorationSet>({
+    key,
+
+    state: {
+      init: (_, { doc }) => getDecorations(doc, options),
+      apply: (transaction, decorationSet) => {
+        if (transaction.docChanged) {
+          return getDecorations(transaction.doc, options)
+        }
+        return decorationSet.map(transaction.mapping, transaction.doc)
+      },
+    },
+
+    props: {
+      decorations(state) {
+        return key.getState(state)
+      },
+    },
+  })
+}
+
+// ─── TipTap Extension ────────────────────────────────────────────────────────
+
+export interface BskyOverflowDecoratorOptions {
+  /**
+   * Number of graphemes allowed before the text is highlighted as overflowing.
+   */
+  maxGraphemes: number
+
+  /**
+   * CSS class applied to the overflowing tail of the text.
+   * Override via the editor's `classNames.overflow` prop.
+   * @default 'overflow'
+   */
+  overflowClass: string
+
+  /**
+   * Count URLs as their `toShortUrl` form, for editors that emit shortened
+   * links (the editor's `shortenLinks` prop).
+   * @default false
+   */
+  shortenLinks: boolean
+}
+
+export const BskyOverflowDecorator = Extension.create<BskyOverflowDecoratorOptions>({
+  name: 'bskyOverflowDecorator',
+
+  addOptions() {
+    return {
+      maxGraphemes: 300,
+      overflowClass: 'overflow',
+      shortenLinks: false,
+    }
+  },
+
+  addProseMirrorPlugins() {
+    return [createOverflowDecoratorPlugin(this.options)]
+  },
+})
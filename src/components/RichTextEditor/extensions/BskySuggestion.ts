@@ -0,0 +1,107 @@
+/**
+ * TipTap extension for a custom suggestion trigger registered through the
+ * RichTextEditor's `suggestions` prop.
+ *
+ * Uses the same `@tiptap/suggestion` machinery (and, by default, the same
+ * @floating-ui/dom popup renderer) as the mention, hashtag and emoji
+ * extensions, with rows rendered by the generic `SuggestionList`.
+ */
+
+import { Extension } from '@tiptap/core'
+import { PluginKey } from '@tiptap/pm/state'
+import { Suggestion, type SuggestionOptions } from '@tiptap/suggestion'
+import {
+  createDefaultSuggestionRenderer,
+  type DefaultSuggestionRendererOptions,
+} from '../createSuggestionRenderer'
+import { createSuggestionListComponent } from '../SuggestionList'
+import type { SuggestionDescriptor } from '../suggestions'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface BskySuggestionOptions<TItem> {
+  /** The trigger to register */
+  suggestion: SuggestionDescriptor<TItem>
+
+  /**
+   * Plugin key of the suggestion, for reading its state from outside.
+   * @default a new key per extension
+   */
+  pluginKey?: PluginKey
+
+  /**
+   * Custom TipTap `suggestion.render` factory.
+   * When omitted, the built-in @floating-ui/dom + `SuggestionList` renderer is used.
+   */
+  renderSuggestionList?: SuggestionOptions<TItem>['render']
+
+  /**
+   * Options forwarded to the default renderer (ignored when `renderSuggestionList`
+   * is provided).
+   */
+  defaultRendererOptions?: DefaultSuggestionRendererOptions
+}
+
+// ─── Extension factory ───────────────────────────────────────────────────────
+
+/**
+ * Create a TipTap extension providing autocomplete for `suggestion.char`.
+ *
+ * The popup only opens after a space or at the start of a line. Returns up
+ * to 8 suggestions per query, like the mention extension. Selecting one
+ * removes the typed trigger and query, then inserts whatever text
+ * `suggestion.onSelect` returns as plain text.
+ */
+export function createBskySuggestionExtension<TItem>({
+  suggestion,
+  pluginKey = new PluginKey(`bskySuggestion${suggestion.char}`),
+  renderSuggestionList,
+  defaultRendererOptions,
+}: BskySuggestionOptions<TItem>) {
+  const { char } = suggestion
+  const render =
+    renderSuggestionList ??
+    createDefaultSuggestionRenderer<TItem>(
+      defaultRendererOptions,
+      createSuggestionListComponent<TItem>(
+        (item, state) => suggestion.renderItem(item, state),
+        suggestion.itemKey?.bind(suggestion),
+      ),
+    )
+
+  return Extension.create({
+    // One extension (and plugin) per trigger character
+    name: `bskySuggestion${char}`,
+
+    addProseMirrorPlugins() {
+      return [
+        Suggestion<TItem>({
+          editor: this.editor,
+          pluginKey,
+          char,
+          allowSpaces: false,
+          startOfLine: false,
+
+          items: async ({ query }) => {
+            try {
+              const results = await suggestion.query(query)
+              return results.slice(0, 8)
+            } catch {
+              return []
+            }
+          },
+
+          // The list calls `command` with the chosen item itself
+          command: ({ editor, range, props }) => {
+            editor.chain().focus().deleteRange(range).run()
+            const text = suggestion.onSelect(props as TItem)
+            if (text) editor.chain().focus().insertContent({ type: 'text', text }).run()
+          },
+
+          // Spread so the key is only present when defined (exactOptionalPropertyTypes)
+          ...(render !== undefined ? { render } : {}),
+        }),
+      ]
+    },
+  })
+}
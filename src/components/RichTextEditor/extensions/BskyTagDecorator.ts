@@ -0,0 +1,178 @@
+/**
+ * BskyTagDecorator — stateless #hashtag decoration for the RichTextEditor.
+ *
+ * Works exactly like `BskyLinkDecorator`: a ProseMirror Plugin with a
+ * DecorationSet that is recalculated from scratch on every document change.
+ *
+ * To guarantee the highlight always matches the tag facet that
+ * `detectFacetsWithoutResolution()` will emit, detection reuses @atproto/api's
+ * own `TAG_REGEX` and `TRAILING_PUNCTUATION_REGEX` and applies the same rules:
+ *
+ *   - a tag starts at the beginning of a line or after whitespace
+ *   - trailing punctuation is stripped ("#atproto!" → "atproto")
+ *   - purely numeric tags ("#123") are ignored
+ *   - tags longer than 64 characters are ignored
+ *
+ * Each paragraph is flattened the same way `editorJsonToText` flattens it
+ * (mentions as "@handle"), so a "#" directly after a mention chip is not
+ * mistaken for the start of a line.
+ *
+ * Style it via the `classNames.tag` prop.
+ */
+
+import { Extension } from '@tiptap/core'
+import type { Node as ProsemirrorNode } from '@tiptap/pm/model'
+import { Plugin, PluginKey } from '@tiptap/pm/state'
+import { Decoration, DecorationSet } from '@tiptap/pm/view'
+import { TAG_REGEX, TRAILING_PUNCTUATION_REGEX } from '@atproto/api'
+import { getMentionHandle } from '../serialization'
+
+// ─── Tag detection ───────────────────────────────────────────────────────────
+
+/** Maximum tag length accepted by @atproto/api's tag detection. */
+const MAX_TAG_LENGTH = 64
+
+/**
+ * A hashtag found in a string: UTF-16 range of "#tag" plus the tag value.
+ */
+export interface DetectedTag {
+  start: number
+  end: number
+  tag: string
+}
+
+/**
+ * Find every hashtag in `text` using the same rules as @atproto/api's
+ * `detectFacets` / `detectFacetsWithoutResolution`.
+ *
+ * @example
+ * detectTags('I love #atproto!') // => [{ start: 7, end: 15, tag: 'atproto' }]
+ */
+export function detectTags(text: string): DetectedTag[] {
+  // Fresh copies — the shared regexes are global and carry `lastIndex` state
+  const re = new RegExp(TAG_REGEX.source, TAG_REGEX.flags)
+  const trailing = new RegExp(TRAILING_PUNCTUATION_REGEX.source, TRAILING_PUNCTUATION_REGEX.flags)
+  const tags: DetectedTag[] = []
+
+  let match: RegExpExecArray | null
+  while ((match = re.exec(text)) !== null) {
+    const leading = match[1] ?? ''
+    let tag = match[2]
+    if (!tag) continue
+
+    // Strip ending punctuation and any spaces
+    tag = tag.trim().replace(trailing, '')
+    if (tag.length === 0 || tag.length > MAX_TAG_LENGTH) continue
+
+    const start = match.index + leading.length
+    tags.push({ start, end: start + 1 + tag.length, tag })
+  }
+
+  return tags
+}
+
+// ─── Decoration helpers ──────────────────────────────────────────────────────
+
+/**
+ * Flatten a textblock into plain text, keeping the document position of every
+ * UTF-16 code unit.
+ */
+function flattenTextblock(block: ProsemirrorNode, blockPos: number) {
+  let text = ''
+  const positions: number[] = []
+
+  block.forEach((node, offset) => {
+    const pos = blockPos + 1 + offset
+    const str = node.isText
+      ? (node.text ?? '')
+      : node.type.name === 'mention'
+        ? `@${getMentionHandle(node.attrs)}`
+        : node.type.name === 'hardBreak'
+          ? '\n'
+          : ''
+    for (let i = 0; i < str.length; i++) {
+      positions.push(node.isText ? pos + i : pos)
+    }
+    text += str
+  })
+
+  return { text, positions }
+}
+
+function getDecorations(doc: ProsemirrorNode, tagClass: string): DecorationSet {
+  const decorations: Decoration[] = []
+
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return true
+
+    const { text, positions } = flattenTextblock(node, pos)
+    for (const { start, end, tag } of detectTags(text)) {
+      const from = positions[start]
+      const last = positions[end - 1]
+      if (from === undefined || last === undefined) continue
+
+      decorations.push(
+        Decoration.inline(from, last + 1, {
+          class: tagClass,
+          'data-tag': tag,
+        }),
+      )
+    }
+
+    // Textblocks only contain inline content — no need to descend further
+    return false
+  })
+
+  return DecorationSet.create(doc, decorations)
+}
+
+// ─── Plugin factory ──────────────────────────────────────────────────────────
+
+function createTagDecoratorPlugin(tagClass: string): Plugin {
+  const key = new PluginKey<DecorationSet>('bsky-tag-decorator')
+
+  return new Plugin<DecorationSet>({
+    key,
+
+    state: {
+      init: (_, { doc }) => getDecorations(doc, tagClass),
+      apply: (transaction, decorationSet) => {
+        if (transaction.docChanged) {
+          return getDecorations(transaction.doc, tagClass)
+        }
+        return decorationSet.map(transaction.mapping, transaction.doc)
+      },
+    },
+
+    props: {
+      decorations(state) {
+        return key.getState(state)
+      },
+    },
+  })
+}
+
+// ─── TipTap Extension ────────────────────────────────────────────────────────
+
+export interface BskyTagDecoratorOptions {
+  /**
+   * CSS class applied to each decorated #hashtag span.
+   * Override via the editor's `classNames.tag` prop.
+   * @default 'hashtag'
+   */
+  tagClass: string
+}
+
+export const BskyTagDecorator = Extension.create<BskyTagDecoratorOptions>({
+  name: 'bskyTagDecorator',
+
+  addOptions() {
+    return {
+      tagClass: 'hashtag',
+    }
+  },
+
+  addProseMirrorPlugins() {
+    return [createTagDecoratorPlugin(this.options.tagClass)]
+  },
+})
@@ -0,0 +1,92 @@
+/**
+ * TipTap extension adding #hashtag autocomplete to the RichTextEditor.
+ *
+ * Unlike mentions, hashtags are not nodes: a tag facet is derived from the
+ * text by `detectFacetsWithoutResolution()`, so choosing a suggestion simply
+ * replaces the typed "#query" with the plain text "#tag ". `BskyTagDecorator`
+ * then highlights it like any other typed hashtag.
+ *
+ * Uses the same `@tiptap/suggestion` machinery (and, by default, the same
+ * @floating-ui/dom popup renderer) as `createBskyMentionExtension`.
+ */
+
+import { Extension } from '@tiptap/core'
+import { PluginKey } from '@tiptap/pm/state'
+import { Suggestion, type SuggestionOptions } from '@tiptap/suggestion'
+import {
+  createDefaultSuggestionRenderer,
+  type DefaultSuggestionRendererOptions,
+} from '../createSuggestionRenderer'
+import { TagSuggestionList } from '../TagSuggestionList'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface BskyTagSuggestionOptions {
+  /**
+   * Async function that returns tag suggestions (without the leading "#")
+   * for a given query string. Called every time the user types after "#".
+   */
+  onTagQuery: (query: string) => Promise<string[]>
+
+  /**
+   * Custom TipTap `suggestion.render` factory.
+   * When omitted, the built-in @floating-ui/dom + `TagSuggestionList` renderer is used.
+   */
+  renderSuggestionList?: SuggestionOptions<string>['render']
+
+  /**
+   * Options forwarded to the default renderer (ignored when `renderSuggestionList`
+   * is provided).
+   */
+  defaultRendererOptions?: DefaultSuggestionRendererOptions
+}
+
+// ─── Extension factory ───────────────────────────────────────────────────────
+
+/**
+ * Create a TipTap extension providing "#" tag autocomplete.
+ * Returns up to 8 suggestions per query, like the mention extension.
+ */
+export function createBskyTagSuggestionExtension({
+  onTagQuery,
+  renderSuggestionList,
+  defaultRendererOptions,
+}: BskyTagSuggestionOptions) {
+  const render =
+    renderSuggestionList ??
+    createDefaultSuggestionRenderer<string>(defaultRendererOptions, TagSuggestionList)
+
+  return Extension.create({
+    name: 'bskyTagSuggestion',
+
+    addProseMirrorPlugins() {
+      return [
+        Suggestion<string>({
+          editor: this.editor,
+          pluginKey: new PluginKey('bskyTagSuggestion'),
+          char: '#',
+          allowSpaces: false,
+          startOfLine: false,
+
+          items: async ({ query }) => {
+            if (!query) return []
+            try {
+              const results = await onTagQuery(query)
+              return results.slice(0, 8)
+            } catch {
+              return []
+            }
+          },
+
+          // Replace "#query" with the chosen tag followed by a space
+          command: ({ editor, range, props: tag }) => {
+            editor.chain().focus().insertContentAt(range, `#${tag} `).run()
+          },
+
+          // Spread so the key is only present when defined (exactOptionalPropertyTypes)
+          ...(render !== undefined ? { render } : {}),
+        }),
+      ]
+    },
+  })
+}
@@ -1,2 +1,9 @@
 export { createBskyMentionExtension } from './BskyMention'
 export { BskyLinkDecorator } from './BskyLinkDecorator'
+export { BskyLinkMark } from './BskyLinkMark'
+export { BskyOverflowDecorator } from './BskyOverflowDecorator'
+export { BskyTagDecorator, detectTags } from './BskyTagDecorator'
+export type { DetectedTag } from './BskyTagDecorator'
+export { createBskyTagSuggestionExtension } from './BskyTagSuggestion'
+export { createBskyEmojiSuggestionExtension } from './BskyEmojiSuggestion'
+export { createBskySuggestionExtension } from './BskySuggestion'
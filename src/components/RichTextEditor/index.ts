@@ -3,13 +3,37 @@ export type {
   RichTextEditorProps,
   RichTextEditorRef,
   MentionSuggestion,
+  EmojiSuggestion,
+  RichTextSelection,
 } from './RichTextEditor'
 
+export { posToByteOffset, byteOffsetToPos } from './positions'
+
 export { MentionSuggestionList } from './MentionSuggestionList'
 export type {
   MentionSuggestionListProps,
   MentionSuggestionListRef,
 } from './MentionSuggestionList'
 
+export { SuggestionList, createSuggestionListComponent } from './SuggestionList'
+export type { SuggestionListProps, SuggestionItemState } from './SuggestionList'
+
+export { defineSuggestion } from './suggestions'
+export type { SuggestionDescriptor, AnySuggestionDescriptor } from './suggestions'
+
+export type { SlashCommand } from './slashCommands'
+
+export { TagSuggestionList } from './TagSuggestionList'
+export type { TagSuggestionListProps } from './TagSuggestionList'
+
+export { EmojiSuggestionList } from './EmojiSuggestionList'
+export type { EmojiSuggestionListProps } from './EmojiSuggestionList'
+
+export { LinkEditPopover } from './LinkEditPopover'
+export type { LinkEditPopoverProps } from './LinkEditPopover'
+
 export { createDefaultSuggestionRenderer } from './createSuggestionRenderer'
-export type { DefaultSuggestionRendererOptions } from './createSuggestionRenderer'
+export type {
+  DefaultSuggestionRendererOptions,
+  SuggestionListComponent,
+} from './createSuggestionRenderer'
@@ -0,0 +1,81 @@
+/**
+ * Link detection for the RichTextEditor's `onLinksDetected` and
+ * `onLinkCardRequested` callbacks.
+ *
+ * Mirrors the link card logic of Bluesky's composer (`suggestLinkCardUri` in
+ * social-app's text-input-util.ts): a card is only suggested for a link once
+ * it is complete — followed by whitespace, or pasted — so that typing a URL
+ * character by character does not request a card for every prefix of it.
+ */
+
+import { isLinkFeature, type RichTextRecord } from '../../types/facets'
+import { createUtf8IndexMap } from '../../utils/utf8'
+
+/**
+ * Every distinct link URI of a record, in text order, mapped to whether the
+ * link is complete (followed by whitespace).
+ */
+export type DetectedLinks = Map<string, boolean>
+
+/** At most this many cards are suggested per editor, to avoid spamming fetches */
+const MAX_SUGGESTED_LINK_CARDS = 10
+
+/**
+ * Collect the link URIs of `record`'s facets.
+ */
+export function detectLinks(record: RichTextRecord): DetectedLinks {
+  const links: DetectedLinks = new Map()
+  if (!record.facets?.length) return links
+
+  const indexMap = createUtf8IndexMap(record.text)
+  for (const facet of record.facets) {
+    const next = indexMap.slice(facet.index.byteEnd, facet.index.byteEnd + 1)
+    const completed = /^\s$/.test(next)
+    for (const feature of facet.features) {
+      if (!isLinkFeature(feature)) continue
+      links.set(feature.uri, (links.get(feature.uri) ?? false) || completed)
+    }
+  }
+  return links
+}
+
+/**
+ * Whether two detections contain the same URIs in the same order.
+ */
+export function isSameLinkList(a: DetectedLinks, b: DetectedLinks): boolean {
+  if (a.size !== b.size) return false
+  const bUris = [...b.keys()]
+  return [...a.keys()].every((uri, i) => uri === bUris[i])
+}
+
+/**
+ * Pick the link to suggest a card for after an edit, or `undefined`.
+ *
+ * A link qualifies when it has never been suggested before and either was
+ * just completed (incomplete in `prev`, complete in `next`) or is new in a
+ * paste (`mayBePaste`). Only a single qualifying link is suggested — when an
+ * edit completes several at once, the choice is ambiguous and none is. The
+ * suggested URI is added to `pastSuggested`.
+ */
+export function suggestLinkCardUri(
+  mayBePaste: boolean,
+  next: DetectedLinks,
+  prev: DetectedLinks,
+  pastSuggested: Set<string>,
+): string | undefined {
+  if (pastSuggested.size >= MAX_SUGGESTED_LINK_CARDS) return undefined
+
+  const candidates: string[] = []
+  for (const [uri, completed] of next) {
+    if (pastSuggested.has(uri)) continue
+    // Pasted links are complete as soon as they appear
+    if (mayBePaste ? !prev.has(uri) : completed && prev.get(uri) === false) {
+      candidates.push(uri)
+    }
+  }
+
+  const [uri] = candidates
+  if (candidates.length !== 1 || uri === undefined) return undefined
+  pastSuggested.add(uri)
+  return uri
+}
@@ -0,0 +1,95 @@
+/**
+ * Mapping between ProseMirror document positions and UTF-8 byte offsets into
+ * the editor's text — the text `editorJsonToText` produces, where paragraphs
+ * are separated by "\n", hard breaks are "\n" and mention nodes are
+ * "@handle".
+ *
+ * Facet indices are byte offsets into that same text, so offsets from these
+ * helpers line up with the facets of the record `onChange` emits.
+ *
+ * @example
+ * ```ts
+ * // Inside a TipTap extension or plugin
+ * const { from, to } = editor.state.selection
+ * const byteStart = posToByteOffset(editor.state.doc, from)
+ * const pos = byteOffsetToPos(editor.state.doc, facet.index.byteStart)
+ * ```
+ */
+
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model'
+import { utf8ByteLength, utf8ByteOffsetToCharIndex } from '../../utils/utf8'
+import { getMentionHandle } from './serialization'
+import type { RichTextSelection } from './RichTextEditor'
+
+/** The text an inline leaf node contributes, as serialized by `editorJsonToText` */
+function leafText(node: ProseMirrorNode): string {
+  if (node.type.name === 'mention') return `@${getMentionHandle(node.attrs)}`
+  if (node.type.name === 'hardBreak') return '\n'
+  return ''
+}
+
+/**
+ * Convert a document position to a UTF-8 byte offset into the editor text.
+ * Positions are clamped to the document; one between the two halves of a
+ * surrogate pair maps to the start of the character.
+ */
+export function posToByteOffset(doc: ProseMirrorNode, pos: number): number {
+  const clamped = Math.max(0, Math.min(pos, doc.content.size))
+  const text = doc.textBetween(0, clamped, '\n', leafText)
+  const last = text.charCodeAt(text.length - 1)
+  const isSplitPair = last >= 0xd800 && last <= 0xdbff
+  return utf8ByteLength(isSplitPair ? text.slice(0, -1) : text)
+}
+
+/**
+ * Convert a UTF-8 byte offset into the editor text to a document position.
+ *
+ * An offset inside a multi-byte character maps to the start of the
+ * character, and one inside a mention to the position before the mention.
+ * Offsets past the end map to the end of the last paragraph.
+ */
+export function byteOffsetToPos(doc: ProseMirrorNode, byteOffset: number): number {
+  let bytes = 0
+  let result: number | undefined
+
+  doc.forEach((block, offset, index) => {
+    if (result !== undefined) return
+    // The "\n" separating paragraphs
+    if (index > 0) bytes += 1
+    const start = offset + 1
+
+    block.forEach((child, childOffset) => {
+      if (result !== undefined) return
+      const text = child.isText ? (child.text ?? '') : leafText(child)
+      const length = utf8ByteLength(text)
+      if (byteOffset <= bytes + length) {
+        const into = child.isText
+          ? utf8ByteOffsetToCharIndex(text, byteOffset - bytes)
+          : byteOffset - bytes < length
+            ? 0
+            : child.nodeSize
+        result = start + childOffset + into
+      }
+      bytes += length
+    })
+
+    if (result === undefined && byteOffset <= bytes) result = start + block.content.size
+  })
+
+  return result ?? Math.max(0, doc.content.size - 1)
+}
+
+/**
+ * The byte offsets and text of the document range `from`–`to`.
+ */
+export function getByteSelection(
+  doc: ProseMirrorNode,
+  from: number,
+  to: number,
+): RichTextSelection {
+  return {
+    byteStart: posToByteOffset(doc, from),
+    byteEnd: posToByteOffset(doc, to),
+    text: doc.textBetween(from, to, '\n', leafText),
+  }
+}
@@ -0,0 +1,352 @@
+/**
+ * Conversion between `RichTextRecord`s and the TipTap editor document.
+ *
+ * - `toInitialHTML` turns a record into the HTML the editor loads on mount.
+ * - `editorJsonToText` flattens the editor JSON into the post text.
+ * - `editorJsonToRecord` builds the full `RichTextRecord` emitted by `onChange`.
+ * - `isSameEditorContent` decides whether a controlled `value` differs from
+ *   what the editor already shows.
+ *
+ * Mirrors `richTextToHTML` / `editorJsonToText` from Bluesky's social-app
+ * TextInput.web.tsx, extended so mention nodes can carry their DID and link
+ * marks can attach a URI to arbitrary text.
+ */
+
+import type { JSONContent } from '@tiptap/react'
+import { RichText as AtpRichText } from '@atproto/api'
+import type { ByteSlice, Facet, RichTextRecord } from '../../types/facets'
+import { isLinkFeature, isMentionFeature } from '../../types/facets'
+import { utf8ByteLength } from '../../utils/utf8'
+import { normalizeLinkUri } from '../../utils/url'
+
+// ─── Internal types ──────────────────────────────────────────────────────────
+
+/**
+ * A mention node whose DID is already known (e.g. picked from autocomplete),
+ * located by its UTF-8 byte range in the flattened text.
+ */
+interface KnownMention {
+  byteStart: number
+  byteEnd: number
+  did: string
+}
+
+/**
+ * A run of text carrying a link mark, located by its UTF-8 byte range in the
+ * flattened text.
+ */
+interface MarkedLink {
+  byteStart: number
+  byteEnd: number
+  uri: string
+}
+
+interface SerializedDocument {
+  text: string
+  mentions: KnownMention[]
+  links: MarkedLink[]
+}
+
+// ─── Link detection ──────────────────────────────────────────────────────────
+
+/**
+ * Every link facet `detectFacetsWithoutResolution()` finds in `text`, keyed
+ * by "byteStart:byteEnd:uri". A link facet in this set is implied by the text
+ * and needs no link mark.
+ */
+function detectLinkKeys(text: string): Set<string> {
+  const rt = new AtpRichText({ text })
+  rt.detectFacetsWithoutResolution()
+
+  const keys = new Set<string>()
+  for (const { index, features } of (rt.facets ?? []) as unknown as Facet[]) {
+    for (const feature of features) {
+      if (isLinkFeature(feature)) keys.add(linkKey(index, feature.uri))
+    }
+  }
+  return keys
+}
+
+function linkKey(index: ByteSlice, uri: string): string {
+  return `${index.byteStart}:${index.byteEnd}:${uri}`
+}
+
+// ─── Record → HTML ───────────────────────────────────────────────────────────
+
+/**
+ * Convert a `RichTextRecord` or string to the HTML the editor uses as
+ * its initial content.
+ *
+ * Each line of text becomes a `<p>` (mirroring how `editorJsonToText` joins
+ * paragraphs with "\n"), and each mention facet becomes
+ * `<span data-type="mention" data-did="did" data-handle="handle">` so TipTap's
+ * Mention extension can parse it on load. The handle is taken from the
+ * segment text the author saw (e.g. "@alice.bsky.social"), so the chip label
+ * — and the text emitted on the next `onChange` — is unchanged while the DID
+ * stays the node's identity. A mention facet over text that doesn't start
+ * with "@" cannot be shown as a chip without altering the text, so it is
+ * loaded as plain text instead.
+ *
+ * Link facets that link detection would not reproduce from the text (custom
+ * link text) become `<a href="uri">` so they load as link marks. Only http(s)
+ * URIs are loaded this way (see `normalizeLinkUri`); any other link, e.g. a
+ * `javascript:` URI, is loaded as plain text.
+ *
+ * Adapted from `richTextToHTML` in the Bluesky reference implementation.
+ */
+export function toInitialHTML(value: RichTextRecord | string | undefined): string {
+  if (!value) return ''
+
+  const record = typeof value === 'string' ? { text: value } : value
+  const { text, facets } = record
+
+  // Use @atproto/api's RichText class to iterate segments — it handles
+  // the byte-offset arithmetic for us.
+  // Cast via unknown: our Facet type is structurally identical to @atproto/api's
+  // internal Main[] but lacks the index signature that atproto adds.
+  // We also guard against undefined since exactOptionalPropertyTypes is enabled.
+  const atpFacets = facets?.length ? (facets as unknown as AtpRichText['facets']) : undefined
+  const rt = new AtpRichText(atpFacets ? { text, facets: atpFacets } : { text })
+
+  const paragraphs: string[] = ['']
+  const append = (html: string) => {
+    paragraphs[paragraphs.length - 1] += html
+  }
+
+  const detectedLinks = detectLinkKeys(text)
+  let byteStart = 0
+
+  for (const segment of rt.segments()) {
+    const byteEnd = byteStart + utf8ByteLength(segment.text)
+    const link = segment.link
+    const markedUri =
+      link !== undefined && !detectedLinks.has(linkKey({ byteStart, byteEnd }, link.uri))
+        ? normalizeLinkUri(link.uri)
+        : undefined
+    byteStart = byteEnd
+
+    if (segment.mention && segment.text.startsWith('@')) {
+      const did = escapeHTML(segment.mention.did)
+      const handle = escapeHTML(segment.text.slice(1))
+      append(
+        `<span data-type="mention" data-id="${handle}" data-did="${did}" data-handle="${handle}"></span>`,
+      )
+    } else {
+      segment.text.split('\n').forEach((line, i) => {
+        if (i > 0) paragraphs.push('')
+        const html = escapeHTML(line)
+        append(markedUri && line ? `<a href="${escapeHTML(markedUri)}">${html}</a>` : html)
+      })
+    }
+  }
+
+  return paragraphs.map((html) => `<p>${html}</p>`).join('')
+}
+
+export function escapeHTML(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// ─── Editor JSON → text / record ─────────────────────────────────────────────
+
+/**
+ * Read the handle shown for a mention node.
+ * Prefers the explicit `handle` attribute, falling back to the stock Mention
+ * `label` / `id` attributes used by custom suggestion renderers.
+ */
+export function getMentionHandle(attrs: Record<string, unknown> | undefined): string {
+  const handle = attrs?.handle ?? attrs?.label ?? attrs?.id
+  return typeof handle === 'string' ? handle : ''
+}
+
+/**
+ * Walk the editor JSON, producing the flattened text and the byte ranges of
+ * every mention node that already carries a DID and of every linked run.
+ */
+function serializeEditorJson(json: JSONContent): SerializedDocument {
+  let text = ''
+  const mentions: KnownMention[] = []
+  const links: MarkedLink[] = []
+
+  const visit = (node: JSONContent, isLastDocumentChild: boolean) => {
+    if (node.type === 'doc') {
+      const children = node.content ?? []
+      children.forEach((child, i) => visit(child, i === children.length - 1))
+    } else if (node.type === 'paragraph') {
+      for (const child of node.content ?? []) {
+        visit(child, false)
+      }
+      if (!isLastDocumentChild) {
+        text += '\n'
+      }
+    } else if (node.type === 'hardBreak') {
+      text += '\n'
+    } else if (node.type === 'text') {
+      const uri: unknown = node.marks?.find((mark) => mark.type === 'link')?.attrs?.uri
+      if (typeof uri === 'string' && uri && node.text) {
+        const byteStart = utf8ByteLength(text)
+        const byteEnd = byteStart + utf8ByteLength(node.text)
+        // Adjacent runs of the same link form a single facet
+        const previous = links[links.length - 1]
+        if (previous?.byteEnd === byteStart && previous.uri === uri) previous.byteEnd = byteEnd
+        else links.push({ byteStart, byteEnd, uri })
+      }
+      text += node.text ?? ''
+    } else if (node.type === 'mention') {
+      const mentionText = `@${getMentionHandle(node.attrs)}`
+      const did: unknown = node.attrs?.did
+      if (typeof did === 'string' && did.startsWith('did:')) {
+        const byteStart = utf8ByteLength(text)
+        mentions.push({ byteStart, byteEnd: byteStart + utf8ByteLength(mentionText), did })
+      }
+      text += mentionText
+    }
+  }
+
+  visit(json, false)
+  return { text, mentions, links }
+}
+
+/**
+ * Convert the TipTap editor's JSON document to a plain text string.
+ *
+ * - `doc` nodes iterate their children
+ * - `paragraph` nodes add a newline after themselves (except the last one)
+ * - `hardBreak` nodes add a newline
+ * - `text` nodes emit their text content
+ * - `mention` nodes emit "@{handle}"
+ *
+ * Directly mirrors `editorJsonToText` from the Bluesky reference.
+ */
+export function editorJsonToText(json: JSONContent): string {
+  return serializeEditorJson(json).text
+}
+
+/**
+ * Convert the TipTap editor's JSON document to a `RichTextRecord`.
+ *
+ * Facets are detected from the flattened text with `detectFacetsWithoutResolution()`.
+ * Mention nodes that carry a `did` attribute (e.g. chosen from the autocomplete
+ * popup) then replace any detected facet over the same range, so their mention
+ * facet holds the real DID without a network round-trip — even if the handle
+ * has since changed. Other mentions keep the handle placeholder. Likewise,
+ * every run of text with a link mark becomes a link facet replacing whatever
+ * was detected over it.
+ */
+export function editorJsonToRecord(json: JSONContent): RichTextRecord {
+  const { text, mentions, links } = serializeEditorJson(json)
+
+  const rt = new AtpRichText({ text })
+  rt.detectFacetsWithoutResolution()
+
+  // Cast via unknown: atproto's internal facet type has an extra index
+  // signature but is structurally identical to our public Facet type.
+  const detected = (rt.facets ?? []) as unknown as Facet[]
+
+  const explicit: Facet[] = [
+    ...mentions.map(({ byteStart, byteEnd, did }) => ({
+      index: { byteStart, byteEnd },
+      features: [{ $type: 'app.bsky.richtext.facet#mention' as const, did }],
+    })),
+    ...links.map(({ byteStart, byteEnd, uri }) => ({
+      index: { byteStart, byteEnd },
+      features: [{ $type: 'app.bsky.richtext.facet#link' as const, uri }],
+    })),
+  ]
+
+  const facets: Facet[] = detected.filter(
+    ({ index }) =>
+      !explicit.some((e) => index.byteStart < e.index.byteEnd && e.index.byteStart < index.byteEnd),
+  )
+  facets.push(...explicit)
+  facets.sort((a, b) => a.index.byteStart - b.index.byteStart)
+
+  return {
+    text: rt.text,
+    ...(facets.length ? { facets } : {}),
+  }
+}
+
+// ─── Controlled value diffing ────────────────────────────────────────────────
+
+/**
+ * Collect the mention facets of a record.
+ * A mention whose `did` is still a handle placeholder gets `did: undefined`.
+ */
+function collectMentions(record: RichTextRecord): Array<{ index: ByteSlice; did?: string }> {
+  const mentions: Array<{ index: ByteSlice; did?: string }> = []
+  for (const { index, features } of record.facets ?? []) {
+    for (const feature of features) {
+      if (!isMentionFeature(feature)) continue
+      mentions.push(feature.did.startsWith('did:') ? { index, did: feature.did } : { index })
+    }
+  }
+  return mentions
+}
+
+/**
+ * Collect the link facets of a record that link detection would not
+ * reproduce from its text — the ones the editor holds as link marks.
+ */
+function collectMarkedLinks(record: RichTextRecord): string[] {
+  const detected = detectLinkKeys(record.text)
+  const links: string[] = []
+  for (const { index, features } of record.facets ?? []) {
+    for (const feature of features) {
+      if (!isLinkFeature(feature)) continue
+      const key = linkKey(index, feature.uri)
+      if (!detected.has(key)) links.push(key)
+    }
+  }
+  return links
+}
+
+/**
+ * Whether loading `value` into an editor currently holding `current` (as
+ * produced by `editorJsonToRecord`) would change anything the editor can
+ * represent.
+ *
+ * Only the text, mention facets and links with custom text are compared:
+ * other link facets and tag facets are always re-detected from the text, so a
+ * record that omits them (or orders them differently) describes the same
+ * editor content. Likewise, a mention
+ * the editor only knows by handle is re-detected from the text, so it matches
+ * a resolved mention over the same range (echoing back `onResolvedChange`)
+ * or no mention at all (echoing back a sanitized `onChange` record). Only
+ * mentions with a DID on either side must be matched on the other.
+ */
+export function isSameEditorContent(current: RichTextRecord, value: RichTextRecord): boolean {
+  if (current.text !== value.text) return false
+
+  const currentLinks = collectMarkedLinks(current)
+  const valueLinks = collectMarkedLinks(value)
+  if (
+    currentLinks.length !== valueLinks.length ||
+    !currentLinks.every((link) => valueLinks.includes(link))
+  ) {
+    return false
+  }
+
+  const a = collectMentions(current)
+  const b = collectMentions(value)
+
+  const isMatchedIn = (
+    mentions: Array<{ index: ByteSlice; did?: string }>,
+    { index, did }: { index: ByteSlice; did?: string },
+  ) =>
+    mentions.some(
+      (other) =>
+        other.index.byteStart === index.byteStart &&
+        other.index.byteEnd === index.byteEnd &&
+        (other.did === undefined || other.did === did),
+    )
+
+  return (
+    a.every((mention) => mention.did === undefined || isMatchedIn(b, mention)) &&
+    b.every((mention) => mention.did === undefined || isMatchedIn(a, mention))
+  )
+}
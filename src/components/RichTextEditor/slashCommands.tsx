@@ -0,0 +1,87 @@
+/**
+ * Slash commands for the RichTextEditor's `commands` prop.
+ *
+ * Typing "/" at the start of a line or after whitespace opens a command menu
+ * built on the custom suggestion triggers (`suggestions.ts`). While the menu
+ * is open, the typed "/query" is not part of the post: the editor leaves it
+ * out of every emitted record (see `withoutOpenCommand`). Choosing a command
+ * removes the "/query" and runs it.
+ */
+
+import { PluginKey, type EditorState } from '@tiptap/pm/state'
+import type { JSONContent } from '@tiptap/react'
+import type { SuggestionDescriptor } from './suggestions'
+import type { RichTextEditorRef } from './RichTextEditor'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/**
+ * An action of the "/" command menu.
+ */
+export interface SlashCommand {
+  /** Unique identifier — also matched against the typed query */
+  id: string
+  /** Label shown in the menu */
+  title: string
+  /** Optional secondary text shown under the title */
+  description?: string
+  /**
+   * Run the command. The typed "/query" has already been removed; use the
+   * editor's imperative API to change its content.
+   */
+  run: (editorRef: RichTextEditorRef) => void
+}
+
+/** Plugin key of the "/" suggestion, used to read whether the menu is open */
+export const SlashCommandPluginKey = new PluginKey('bskySlashCommand')
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * The commands matching a query: those whose id starts with it or whose
+ * title contains it, case-insensitively. An empty query matches every command.
+ */
+export function filterSlashCommands(commands: SlashCommand[], query: string): SlashCommand[] {
+  const q = query.toLowerCase()
+  return commands.filter(
+    ({ id, title }) => id.toLowerCase().startsWith(q) || title.toLowerCase().includes(q),
+  )
+}
+
+/**
+ * The "/" suggestion trigger for a set of commands. Both getters are called
+ * when used, so the latest commands and editor handle are always picked up;
+ * nothing runs while there is no handle yet.
+ */
+export function createSlashCommandSuggestion(
+  getCommands: () => SlashCommand[],
+  getEditorRef: () => RichTextEditorRef | null,
+): SuggestionDescriptor<SlashCommand> {
+  return {
+    char: '/',
+    query: (query) => Promise.resolve(filterSlashCommands(getCommands(), query)),
+    renderItem: (command, { classNames: cn }) => (
+      <span className={cn.text}>
+        <span className={cn.name}>{command.title}</span>
+        {command.description && <span className={cn.handle}>{command.description}</span>}
+      </span>
+    ),
+    onSelect: (command) => {
+      const editorRef = getEditorRef()
+      if (editorRef) command.run(editorRef)
+    },
+    itemKey: (command) => command.id,
+  }
+}
+
+/**
+ * The editor JSON for `state` without the "/query" of an open command menu,
+ * or `undefined` when no menu is open.
+ */
+export function withoutOpenCommand(state: EditorState): JSONContent | undefined {
+  const menu = SlashCommandPluginKey.getState(state) as
+    | { active: boolean; range: { from: number; to: number } }
+    | undefined
+  if (!menu?.active) return undefined
+  return state.tr.delete(menu.range.from, menu.range.to).doc.toJSON() as JSONContent
+}
@@ -0,0 +1,82 @@
+/**
+ * Custom suggestion triggers for the RichTextEditor's `suggestions` prop.
+ *
+ * Each descriptor registers one trigger character (`$` for cashtags, `%` for
+ * units, …) with its own item type. Every trigger reuses the default
+ * @floating-ui/dom popup and the generic `SuggestionList`; only the query,
+ * the row content and what happens on selection differ.
+ */
+
+import type { ReactNode } from 'react'
+import type { SuggestionItemState } from './SuggestionList'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/**
+ * A suggestion trigger. `TItem` is the payload of one suggestion — whatever
+ * `query` resolves to is handed back to `renderItem` and `onSelect`.
+ */
+export interface SuggestionDescriptor<TItem> {
+  /**
+   * Trigger character (e.g. "$"). Like mentions, the popup only opens after
+   * a space or at the start of a line. A character taken by a built-in
+   * trigger in use is ignored: "@" always, "#" with `onTagQuery`, ":" with
+   * `onEmojiQuery` and "/" with `commands`.
+   */
+  char: string
+
+  /**
+   * Return the suggestions for the text typed after `char`. Called on every
+   * keystroke; at most 8 results are shown and a rejection shows none.
+   */
+  query(query: string): Promise<TItem[]>
+
+  /**
+   * Render the content of one row. The row itself (a button carrying the
+   * `item` / `itemSelected` classes) is rendered by the list; `state.classNames`
+   * holds the suggestion class names for the parts inside it.
+   */
+  renderItem(item: TItem, state: SuggestionItemState): ReactNode
+
+  /**
+   * Called when a suggestion is chosen, after the typed trigger and query
+   * have been removed. Return the text to insert in their place (e.g.
+   * `$${item.symbol} `), or nothing to insert no text.
+   */
+  onSelect(item: TItem): string | void
+
+  /**
+   * React key of a row.
+   * @default the item's index
+   */
+  itemKey?(item: TItem): string
+}
+
+/**
+ * A descriptor with any item type, as accepted by the `suggestions` prop.
+ * The callbacks are declared as methods, so a descriptor of a specific item
+ * type is assignable to it.
+ */
+export type AnySuggestionDescriptor = SuggestionDescriptor<unknown>
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Identity helper that infers `TItem` from `query`, so `renderItem` and
+ * `onSelect` are typed when the descriptor is written inline.
+ *
+ * @example
+ * ```ts
+ * const cashtags = defineSuggestion({
+ *   char: '$',
+ *   query: async (q) => searchTickers(q), // Promise<Ticker[]>
+ *   renderItem: (ticker) => `$${ticker.symbol} — ${ticker.name}`,
+ *   onSelect: (ticker) => `$${ticker.symbol} `,
+ * })
+ * ```
+ */
+export function defineSuggestion<TItem>(
+  descriptor: SuggestionDescriptor<TItem>,
+): SuggestionDescriptor<TItem> {
+  return descriptor
+}
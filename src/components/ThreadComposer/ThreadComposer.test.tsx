@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest'
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react'
+import type { Editor } from '@tiptap/core'
+import { ThreadComposer } from './ThreadComposer'
+import type { RichTextRecord } from '../../types/facets'
+
+/** The TipTap editors of every post, in thread order */
+function getTiptapEditors(): Editor[] {
+  return Array.from(document.querySelectorAll('.ProseMirror')).map(
+    (el) => (el as HTMLElement & { editor: Editor }).editor,
+  )
+}
+
+describe('ThreadComposer', () => {
+  it('splits the initial value into posts and numbers them', async () => {
+    render(
+      <ThreadComposer
+        initialValue="The first post is here. The second one follows it."
+        maxGraphemes={30}
+        data-testid="thread"
+      />,
+    )
+    await waitFor(() => expect(getTiptapEditors()).toHaveLength(2))
+    expect(screen.getByText('The first post is here.')).toBeInTheDocument()
+    expect(screen.getByText('The second one follows it.')).toBeInTheDocument()
+    expect(screen.getByText('1/2')).toBeInTheDocument()
+    expect(screen.getByText('2/2')).toBeInTheDocument()
+  })
+
+  it('flows overflow into the next post with the cursor, keeping facets whole', async () => {
+    const onChange = vi.fn<(posts: RichTextRecord[]) => void>()
+    render(<ThreadComposer maxGraphemes={20} onChange={onChange} />)
+    await waitFor(() => expect(getTiptapEditors()).toHaveLength(1))
+
+    act(() => {
+      getTiptapEditors()[0]?.commands.insertContent('Read this: example.com/page')
+    })
+
+    await waitFor(() => expect(getTiptapEditors()).toHaveLength(2))
+    const posts = onChange.mock.lastCall?.[0]
+    expect(posts?.map((post) => post.text)).toEqual(['Read this:', 'example.com/page'])
+    expect(posts?.[1]?.facets?.[0]?.index).toEqual({ byteStart: 0, byteEnd: 16 })
+    expect(getTiptapEditors()[1]?.getText()).toBe('example.com/page')
+    // The cursor moved along with the text it was typing
+    await waitFor(() => expect(getTiptapEditors()[1]?.state.selection.from).toBe(17))
+  })
+
+  it('pushes overflow into the start of an existing next post', async () => {
+    const onChange = vi.fn<(posts: RichTextRecord[]) => void>()
+    render(
+      <ThreadComposer
+        initialValue="one two three four five six"
+        maxGraphemes={15}
+        onChange={onChange}
+      />,
+    )
+    await waitFor(() => expect(getTiptapEditors()).toHaveLength(2))
+
+    act(() => {
+      getTiptapEditors()[0]?.commands.insertContentAt(1, 'zero ')
+    })
+
+    await waitFor(() =>
+      expect(onChange.mock.lastCall?.[0].map((post) => post.text)).toEqual([
+        'zero one two',
+        'three four five',
+        'six',
+      ]),
+    )
+  })
+
+  it('merges a post into the previous one on Backspace at its start', async () => {
+    const onChange = vi.fn<(posts: RichTextRecord[]) => void>()
+    render(<ThreadComposer initialValue="alpha beta gamma" maxGraphemes={12} onChange={onChange} />)
+    await waitFor(() => expect(getTiptapEditors()).toHaveLength(2))
+
+    act(() => {
+      getTiptapEditors()[0]?.commands.setContent('<p>alpha</p>')
+    })
+    const second = getTiptapEditors()[1]
+    act(() => {
+      second?.commands.focus('start')
+    })
+    fireEvent.keyDown(second?.view.dom as HTMLElement, { key: 'Backspace' })
+
+    await waitFor(() => expect(getTiptapEditors()).toHaveLength(1))
+    expect(onChange.mock.lastCall?.[0]).toEqual([{ text: 'alpha gamma' }])
+  })
+})
@@ -0,0 +1,307 @@
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type HTMLAttributes,
+  type KeyboardEvent,
+} from 'react'
+import type { RichTextRecord } from '../../types/facets'
+import type { ThreadComposerClassNames } from '../../types/classNames'
+import { defaultThreadComposerClassNames } from '../../defaults/classNames'
+import { generateClassNames } from '../../utils/classNames'
+import { MAX_POST_GRAPHEMES } from '../../utils/graphemes'
+import { concatRichText } from '../../utils/operations'
+import { splitOverflow, splitRichTextIntoThread } from '../../utils/thread'
+import { utf8ByteLength } from '../../utils/utf8'
+import {
+  RichTextEditor,
+  type RichTextEditorProps,
+  type RichTextEditorRef,
+} from '../RichTextEditor/RichTextEditor'
+
+// ─── Component Props ─────────────────────────────────────────────────────────
+
+export interface ThreadComposerProps extends Omit<
+  HTMLAttributes<HTMLDivElement>,
+  'onChange' | 'defaultValue'
+> {
+  /**
+   * Initial content, split into as many posts as it needs on mount.
+   * This is an uncontrolled initial state — use `onChange` to track updates.
+   */
+  initialValue?: RichTextRecord | string
+
+  /**
+   * Grapheme limit of each post.
+   * @default 300  (the `app.bsky.feed.post` limit)
+   */
+  maxGraphemes?: number
+
+  /**
+   * Called on every change with the records of all posts, in thread order.
+   */
+  onChange?: (posts: RichTextRecord[]) => void
+
+  /**
+   * Props forwarded to every post's `RichTextEditor` (placeholder, mention
+   * search, classNames, …). Content and length props are managed by the
+   * composer.
+   */
+  editorProps?: Omit<
+    RichTextEditorProps,
+    'initialValue' | 'value' | 'onChange' | 'maxGraphemes' | 'editorRef'
+  >
+
+  /**
+   * CSS class names for each styleable part of the component.
+   *
+   * Use `generateClassNames()` to cleanly merge with the built-in defaults:
+   * @example
+   * ```tsx
+   * import { generateClassNames, defaultThreadComposerClassNames } from 'bsky-richtext-react'
+   *
+   * <ThreadComposer
+   *   classNames={generateClassNames([
+   *     defaultThreadComposerClassNames,
+   *     { post: 'border-l-4 border-sky-500 pl-4' },
+   *   ], cn)}
+   * />
+   * ```
+   */
+  classNames?: Partial<ThreadComposerClassNames>
+}
+
+// ─── Thread state ────────────────────────────────────────────────────────────
+
+/** A post of the thread. `id` keys its editor, so it survives reordering. */
+interface ThreadPost {
+  id: number
+  record: RichTextRecord
+}
+
+/** Where the cursor should end up after an edit: a post and a byte offset */
+interface ThreadCursor {
+  index: number
+  byte: number
+}
+
+/**
+ * Replace the post at `index` with `record`, then push whatever doesn't fit
+ * into the start of the following post, cascading down the thread. New posts
+ * are appended as needed. `cursor` follows the text it was in.
+ */
+function reflow(
+  posts: ThreadPost[],
+  index: number,
+  record: RichTextRecord,
+  cursor: ThreadCursor | undefined,
+  maxGraphemes: number,
+  createId: () => number,
+): { posts: ThreadPost[]; cursor: ThreadCursor | undefined } {
+  const next = posts.slice()
+  next[index] = { id: posts[index]?.id ?? createId(), record }
+
+  for (let i = index; i < next.length; i++) {
+    const post = next[i]
+    const overflow = post && splitOverflow(post.record, maxGraphemes)
+    if (!post || !overflow) break
+
+    next[i] = { ...post, record: overflow.head }
+    const following = next[i + 1]
+    next[i + 1] = following
+      ? {
+          ...following,
+          record: concatRichText(overflow.rest, following.record.text ? ' ' : '', following.record),
+        }
+      : { id: createId(), record: overflow.rest }
+
+    if (cursor?.index === i && cursor.byte >= overflow.restByteStart) {
+      cursor = { index: i + 1, byte: cursor.byte - overflow.restByteStart }
+    }
+  }
+
+  return { posts: next, cursor }
+}
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+/**
+ * `ThreadComposer` writes a thread as a column of `RichTextEditor`s, one per
+ * post. Text typed or pasted past a post's limit flows into the next post —
+ * split at a sentence or word boundary, never inside a link, mention or tag
+ * (see `splitRichTextIntoThread`) — and the cursor follows it. Backspace at
+ * the start of a post pulls its text back into the previous one.
+ *
+ * @example
+ * ```tsx
+ * const [posts, setPosts] = useState<RichTextRecord[]>([])
+ *
+ * <ThreadComposer
+ *   onChange={setPosts}
+ *   editorProps={{ placeholder: "What's up?" }}
+ * />
+ * ```
+ */
+export function ThreadComposer({
+  initialValue,
+  maxGraphemes = MAX_POST_GRAPHEMES,
+  onChange,
+  editorProps,
+  classNames: classNamesProp,
+  ...divProps
+}: ThreadComposerProps) {
+  // Merge provided classNames with defaults.
+  // Memoized via JSON.stringify so inline object literals don't recalculate every render.
+  const cn = useMemo(
+    () => generateClassNames([defaultThreadComposerClassNames, classNamesProp]),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [JSON.stringify(classNamesProp)],
+  )
+
+  const nextId = useRef(0)
+  const createId = () => nextId.current++
+
+  const [posts, setPosts] = useState<ThreadPost[]>(() => {
+    const record = typeof initialValue === 'string' ? { text: initialValue } : initialValue
+    return splitRichTextIntoThread(record ?? { text: '' }, { maxGraphemes }).map((post) => ({
+      id: createId(),
+      record: post,
+    }))
+  })
+
+  // Editor callbacks fire from TipTap transactions — read the latest state
+  // through refs rather than the closure of the render that created them.
+  const postsRef = useRef(posts)
+  const onChangeRef = useRef(onChange)
+  useEffect(() => {
+    onChangeRef.current = onChange
+  })
+
+  const editorRefs = useRef(new Map<number, RichTextEditorRef>())
+  const pendingFocus = useRef<{
+    id: number
+    byte: number
+    /** The target post was created by the change */
+    isNew: boolean
+    /** Set once the change is rendered, when the target post is new */
+    waitForEditor: boolean
+  } | null>(null)
+
+  const applyFocus = (editor: RichTextEditorRef, byte: number) => {
+    pendingFocus.current = null
+    editor.focus()
+    editor.setSelection({ byteStart: byte, byteEnd: byte })
+  }
+
+  // One stable callback per post, so it only runs when the editor's handle
+  // changes — notably once a new post's TipTap editor has been created
+  const refCallbacks = useRef(new Map<number, (editor: RichTextEditorRef | null) => void>())
+  const editorRefFor = (id: number) => {
+    let callback = refCallbacks.current.get(id)
+    if (!callback) {
+      callback = (editor) => {
+        if (!editor) {
+          editorRefs.current.delete(id)
+          return
+        }
+        editorRefs.current.set(id, editor)
+        const focus = pendingFocus.current
+        if (focus?.id === id && focus.waitForEditor) applyFocus(editor, focus.byte)
+      }
+      refCallbacks.current.set(id, callback)
+    }
+    return callback
+  }
+
+  const commit = (
+    result: { posts: ThreadPost[]; cursor: ThreadCursor | undefined },
+    focusedId: number,
+  ) => {
+    const previous = postsRef.current
+    postsRef.current = result.posts
+    setPosts(result.posts)
+    onChangeRef.current?.(result.posts.map((post) => post.record))
+
+    for (const id of refCallbacks.current.keys()) {
+      if (!result.posts.some((post) => post.id === id)) refCallbacks.current.delete(id)
+    }
+
+    const target = result.cursor && result.posts[result.cursor.index]
+    if (result.cursor && target && target.id !== focusedId) {
+      pendingFocus.current = {
+        id: target.id,
+        byte: result.cursor.byte,
+        isNew: !previous.some((post) => post.id === target.id),
+        waitForEditor: false,
+      }
+    }
+  }
+
+  // Move the cursor once the editors show the new content. A post created by
+  // this change only gets its TipTap editor after mounting, so its ref
+  // callback moves the cursor instead.
+  useEffect(() => {
+    const focus = pendingFocus.current
+    if (!focus) return
+    if (focus.isNew) {
+      focus.waitForEditor = true
+      return
+    }
+    const editor = editorRefs.current.get(focus.id)
+    if (editor) applyFocus(editor, focus.byte)
+  }, [posts])
+
+  const handleChange = (id: number, record: RichTextRecord) => {
+    const index = postsRef.current.findIndex((post) => post.id === id)
+    if (index === -1) return
+    const selection = editorRefs.current.get(id)?.getSelection()
+    const cursor = selection ? { index, byte: selection.byteEnd } : undefined
+    commit(reflow(postsRef.current, index, record, cursor, maxGraphemes, createId), id)
+  }
+
+  // Backspace at the very start of a post merges it into the previous one.
+  // Handled in the capture phase, before the editor sees the key.
+  const handleKeyDownCapture = (id: number, event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key !== 'Backspace') return
+    const current = postsRef.current
+    const index = current.findIndex((post) => post.id === id)
+    const previous = current[index - 1]
+    const post = current[index]
+    const selection = editorRefs.current.get(id)?.getSelection()
+    if (!previous || !post || selection?.byteStart !== 0 || selection.byteEnd !== 0) return
+
+    event.preventDefault()
+    event.stopPropagation()
+    const separator = previous.record.text && post.record.text ? ' ' : ''
+    const merged = concatRichText(previous.record, separator, post.record)
+    const remaining = current.filter((p) => p.id !== id)
+    const cursor = { index: index - 1, byte: utf8ByteLength(previous.record.text) }
+    commit(reflow(remaining, index - 1, merged, cursor, maxGraphemes, createId), id)
+  }
+
+  return (
+    <div className={cn.root} {...divProps}>
+      {posts.map((post, index) => (
+        <div
+          key={post.id}
+          className={cn.post}
+          onKeyDownCapture={(event) => handleKeyDownCapture(post.id, event)}
+        >
+          <RichTextEditor
+            {...editorProps}
+            value={post.record}
+            maxGraphemes={maxGraphemes}
+            onChange={(record) => handleChange(post.id, record)}
+            editorRef={editorRefFor(post.id)}
+          />
+          {posts.length > 1 && (
+            <span className={cn.index}>
+              {index + 1}/{posts.length}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,2 @@
+export { ThreadComposer } from './ThreadComposer'
+export type { ThreadComposerProps } from './ThreadComposer'
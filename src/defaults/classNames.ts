@@ -25,7 +25,15 @@
  * ```
  */
 
-import type { DisplayClassNames, EditorClassNames, SuggestionClassNames } from '../types/classNames'
+import type {
+  CounterClassNames,
+  DisplayClassNames,
+  LinkCardClassNames,
+  LinkEditorClassNames,
+  EditorClassNames,
+  SuggestionClassNames,
+  ThreadComposerClassNames,
+} from '../types/classNames'
 
 // ─── Display ─────────────────────────────────────────────────────────────────
 
@@ -34,6 +42,8 @@ export const defaultDisplayClassNames: DisplayClassNames = {
   mention: 'inline text-blue-500 hover:underline cursor-pointer',
   link: 'inline text-blue-500 hover:underline',
   tag: 'inline text-blue-500 hover:underline cursor-pointer',
+  showMore:
+    'inline ml-1 p-0 border-none bg-transparent text-blue-500 hover:underline cursor-pointer',
 }
 
 // ─── Suggestion ──────────────────────────────────────────────────────────────
@@ -53,6 +63,16 @@ export const defaultSuggestionClassNames: SuggestionClassNames = {
   empty: 'block px-3 py-2 text-sm text-gray-500',
 }
 
+// ─── Link editor ─────────────────────────────────────────────────────────────
+
+export const defaultLinkEditorClassNames: LinkEditorClassNames = {
+  root: 'flex flex-wrap items-center gap-2 p-2 bg-white rounded-lg shadow-lg border border-gray-200 z-10',
+  input: 'flex-1 min-w-48 px-2 py-1 text-sm rounded border border-gray-300',
+  submit: 'px-2 py-1 text-sm rounded border-none bg-blue-500 text-white cursor-pointer',
+  remove: 'px-2 py-1 text-sm rounded border-none bg-transparent text-red-600 cursor-pointer',
+  error: 'basis-full text-xs text-red-600',
+}
+
 // ─── Editor ──────────────────────────────────────────────────────────────────
 
 export const defaultEditorClassNames: EditorClassNames = {
@@ -60,5 +80,38 @@ export const defaultEditorClassNames: EditorClassNames = {
   content: 'block w-full',
   mention: 'inline text-blue-500',
   link: 'inline text-blue-500',
+  tag: 'inline text-blue-500',
+  overflow: 'bg-red-100 text-red-700',
   suggestion: defaultSuggestionClassNames,
+  linkEditor: defaultLinkEditorClassNames,
+}
+
+// ─── Counter ─────────────────────────────────────────────────────────────────
+
+export const defaultCounterClassNames: CounterClassNames = {
+  root: 'inline-block text-sm tabular-nums text-gray-500',
+  overLimit: 'text-red-600 font-medium',
+}
+
+// ─── Link card ───────────────────────────────────────────────────────────────
+
+export const defaultLinkCardClassNames: LinkCardClassNames = {
+  root: 'relative flex flex-col w-full overflow-hidden rounded-lg border border-gray-200 bg-white',
+  thumb: 'block w-full aspect-[1.91/1] object-cover bg-gray-100',
+  body: 'flex flex-col gap-1 px-3 py-2 min-w-0',
+  title: 'block truncate font-medium text-gray-900 text-sm',
+  description: 'block line-clamp-2 text-sm text-gray-600',
+  domain: 'block truncate text-xs text-gray-500',
+  loading: 'block px-3 py-2 text-sm text-gray-500 animate-pulse',
+  error: 'block px-3 py-2 text-sm text-gray-500',
+  remove:
+    'absolute top-2 right-2 flex items-center justify-center w-6 h-6 rounded-full border-none bg-black/60 text-white text-sm cursor-pointer',
+}
+
+// ─── Thread composer ─────────────────────────────────────────────────────────
+
+export const defaultThreadComposerClassNames: ThreadComposerClassNames = {
+  root: 'flex flex-col gap-3',
+  post: 'relative flex flex-col gap-1 border-l-2 border-gray-200 pl-3',
+  index: 'self-end text-xs tabular-nums text-gray-500',
 }
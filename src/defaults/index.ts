@@ -2,4 +2,8 @@ export {
   defaultDisplayClassNames,
   defaultEditorClassNames,
   defaultSuggestionClassNames,
+  defaultCounterClassNames,
+  defaultLinkCardClassNames,
+  defaultLinkEditorClassNames,
+  defaultThreadComposerClassNames,
 } from './classNames'
@@ -1,20 +1,40 @@
-import { useMemo } from 'react'
+import { useEffect, useMemo, useRef } from 'react'
 import type { RichTextRecord, RichTextSegment } from '../types/facets'
-import { parseRichText } from '../utils/parser'
+import { parseRichText, type ParseRichTextOptions } from '../utils/parser'
 
 /**
  * Parse a `RichTextRecord` into an array of `RichTextSegment` objects.
  *
- * The result is memoized — re-computation only occurs when `text` or the
- * serialized facets change.
+ * The result is memoized — re-computation only occurs when `text`, the
+ * serialized facets or `options.overlappingFacets` change. `onInvalidFacet`
+ * is therefore called once per parse, not on every render.
  *
  * @example
  * ```tsx
  * const segments = useRichText({ text: post.text, facets: post.facets })
- * // [{ text: 'Hello ' }, { text: '@alice', feature: { $type: '...mention', did: '...' } }]
+ * // [{ text: 'Hello ' }, { text: '@alice', feature: { $type: '...mention', did: '...' }, features: [...] }]
+ * ```
+ *
+ * @example Split overlapping facets and report dropped ones
+ * ```tsx
+ * const segments = useRichText(post, {
+ *   overlappingFacets: 'split',
+ *   onInvalidFacet: ({ index, reason }) => console.warn(`facet ${index}: ${reason}`),
+ * })
  * ```
  */
-export function useRichText(record: RichTextRecord): RichTextSegment[] {
+export function useRichText(
+  record: RichTextRecord,
+  options: ParseRichTextOptions = {},
+): RichTextSegment[] {
+  const { overlappingFacets, onInvalidFacet } = options
+
+  // Always call the latest callback without re-parsing when it changes
+  const onInvalidFacetRef = useRef(onInvalidFacet)
+  useEffect(() => {
+    onInvalidFacetRef.current = onInvalidFacet
+  })
+
   // Stable serialization key for the facets array so useMemo can diff it
   const facetsKey = useMemo(
     () => (record.facets ? JSON.stringify(record.facets) : ''),
@@ -22,9 +42,13 @@ export function useRichText(record: RichTextRecord): RichTextSegment[] {
   )
 
   return useMemo(
-    () => parseRichText(record),
+    () =>
+      parseRichText(record, {
+        ...(overlappingFacets !== undefined ? { overlappingFacets } : {}),
+        onInvalidFacet: (invalid) => onInvalidFacetRef.current?.(invalid),
+      }),
     // record is intentionally not in deps — we only react to text+facets changes
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [record.text, facetsKey],
+    [record.text, facetsKey, overlappingFacets],
   )
 }
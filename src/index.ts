@@ -18,6 +18,19 @@ export type {
   MentionProps,
   LinkProps,
   TagProps,
+  FeaturesProps,
+  ShowMoreProps,
+} from './components/RichTextDisplay'
+
+/**
+ * Registry of custom facet feature types (bold, code spans, cashtags, …)
+ * for `RichTextDisplay`'s `featureRegistry` prop.
+ */
+export { createFacetFeatureRegistry } from './components/RichTextDisplay'
+export type {
+  FacetFeatureRegistry,
+  FacetFeatureDefinition,
+  CustomFeatureProps,
 } from './components/RichTextDisplay'
 
 export { RichTextEditor } from './components/RichTextEditor'
@@ -25,8 +38,16 @@ export type {
   RichTextEditorProps,
   RichTextEditorRef,
   MentionSuggestion,
+  EmojiSuggestion,
+  RichTextSelection,
 } from './components/RichTextEditor'
 
+/**
+ * Mapping between ProseMirror positions in the editor and UTF-8 byte offsets
+ * into the text it emits — the unit of facet indices.
+ */
+export { posToByteOffset, byteOffsetToPos } from './components/RichTextEditor'
+
 /**
  * The default mention suggestion list component.
  * Exported so consumers can render it themselves, wrap it, or use it as
@@ -38,12 +59,76 @@ export type {
   MentionSuggestionListRef,
 } from './components/RichTextEditor'
 
+/**
+ * The generic suggestion list every built-in popup is built on, and the
+ * `suggestions` prop descriptors that reuse it for custom trigger characters.
+ */
+export {
+  SuggestionList,
+  createSuggestionListComponent,
+  defineSuggestion,
+} from './components/RichTextEditor'
+export type {
+  SuggestionListProps,
+  SuggestionItemState,
+  SuggestionDescriptor,
+  AnySuggestionDescriptor,
+  SlashCommand,
+} from './components/RichTextEditor'
+
+/**
+ * The default #hashtag suggestion list component, used when `RichTextEditor`
+ * is given an `onTagQuery` prop.
+ */
+export { TagSuggestionList } from './components/RichTextEditor'
+export type { TagSuggestionListProps } from './components/RichTextEditor'
+
+/**
+ * The default `:shortcode:` emoji suggestion list component, used when
+ * `RichTextEditor` is given an `onEmojiQuery` prop.
+ */
+export { EmojiSuggestionList } from './components/RichTextEditor'
+export type { EmojiSuggestionListProps } from './components/RichTextEditor'
+
+/**
+ * The link-edit popover `RichTextEditor` opens on Mod-K, exported so it can be
+ * reused or restyled outside the editor.
+ */
+export { LinkEditPopover } from './components/RichTextEditor'
+export type { LinkEditPopoverProps } from './components/RichTextEditor'
+
 /**
  * Factory for the default @floating-ui/dom suggestion renderer.
  * Useful if you want to compose your own mention extension setup.
+ * Pass a second argument to render a different list component (e.g. `TagSuggestionList`,
+ * or one made with `createSuggestionListComponent`).
  */
 export { createDefaultSuggestionRenderer } from './components/RichTextEditor'
-export type { DefaultSuggestionRendererOptions } from './components/RichTextEditor'
+export type {
+  DefaultSuggestionRendererOptions,
+  SuggestionListComponent,
+} from './components/RichTextEditor'
+
+/**
+ * Remaining-characters counter for post composers.
+ * Feed it the `graphemeLength` reported by `RichTextEditor`'s `onChange`.
+ */
+export { CharacterCounter } from './components/CharacterCounter'
+export type { CharacterCounterProps, CharacterCountProps } from './components/CharacterCounter'
+
+/**
+ * External embed card for a link, filled by a consumer-supplied metadata
+ * fetcher. Pair it with `RichTextEditor`'s `onLinkCardRequested`.
+ */
+export { LinkCardPreview } from './components/LinkCardPreview'
+export type { LinkCardPreviewProps, LinkCardMetadata } from './components/LinkCardPreview'
+
+/**
+ * Thread composer: one `RichTextEditor` per post, with text that doesn't fit
+ * flowing into the next post.
+ */
+export { ThreadComposer } from './components/ThreadComposer'
+export type { ThreadComposerProps } from './components/ThreadComposer'
 
 // ─── Hooks ───────────────────────────────────────────────────────────────────
 
@@ -52,6 +137,41 @@ export { useRichText } from './hooks'
 // ─── Utilities ───────────────────────────────────────────────────────────────
 
 export { parseRichText, toShortUrl, isValidUrl } from './utils'
+export type { ParseRichTextOptions, InvalidFacet, InvalidFacetReason } from './utils'
+
+/**
+ * Render a record to an HTML string without React — identical to the static
+ * markup of `RichTextDisplay` with its default renderers. For SSR, emails, feeds…
+ */
+export { renderRichTextToHTML } from './utils'
+export type { RenderRichTextToHTMLOptions } from './utils'
+
+/**
+ * Markdown export (links, mentions and tags become inline links) and import
+ * (inline links and autolinks become link facets).
+ */
+export { richTextToMarkdown, markdownToRichText } from './utils'
+export type { RichTextToMarkdownOptions } from './utils'
+
+/**
+ * Plain-text transcript of a record, with shortened links expanded — for
+ * screen readers, notifications and other markup-free contexts.
+ */
+export { richTextToPlainText } from './utils'
+export type { RichTextToPlainTextOptions, MentionFormat } from './utils'
+
+/**
+ * Collapse links whose text is the full URI to their `toShortUrl` form, keeping
+ * the full URI in the facet — what Bluesky does before posting.
+ */
+export { shortenLinks } from './utils'
+
+/**
+ * Single-pass UTF-8 byte ↔ UTF-16 index map. Build one per record and reuse it
+ * to convert every facet's byte offsets in O(1) (this is what `parseRichText` does).
+ */
+export { createUtf8IndexMap } from './utils'
+export type { Utf8IndexMap } from './utils'
 
 /**
  * Deep-merge multiple classNames objects into one.
@@ -78,6 +198,47 @@ export type { ClassNameFn } from './utils'
  */
 export { searchBskyActors, createDebouncedSearch } from './utils'
 
+/**
+ * Resolve mention handles to DIDs.
+ * `resolveBskyHandle` uses the same public API as `searchBskyActors` and is the
+ * default resolver behind `RichTextEditor`'s `onResolvedChange`.
+ * `resolveMentionFacets` turns a record from `onChange` into a lexicon-valid one.
+ */
+export { resolveBskyHandle, createCachedHandleResolver, resolveMentionFacets } from './utils'
+export type { ResolvedRichText } from './utils'
+
+/**
+ * Grapheme-aware length helpers matching the `app.bsky.feed.post` limits
+ * (300 graphemes / 3000 bytes).
+ */
+export { graphemeLength, getRichTextLength, MAX_POST_GRAPHEMES, MAX_POST_BYTES } from './utils'
+export type { RichTextLength } from './utils'
+
+/**
+ * Immutable slice / concat / insert / replace on records, shifting facet byte
+ * ranges with the text and dropping facets that would be cut in half.
+ */
+export { sliceRichText, concatRichText, insertRichText, replaceRange } from './utils'
+export type { RichTextOffsetUnit, RichTextOffsetOptions, RichTextFragment } from './utils'
+
+/**
+ * Split a record that's too long for one post into a thread, breaking at
+ * sentence or word boundaries and never inside a facet.
+ */
+export { splitRichTextIntoThread } from './utils'
+export type { SplitRichTextIntoThreadOptions } from './utils'
+
+/**
+ * Validate facets against the `app.bsky.richtext.facet` lexicon, and strip
+ * anything a PDS would reject.
+ */
+export { validateRichText, sanitizeRichText } from './utils'
+export type {
+  RichTextValidationError,
+  RichTextValidationErrorCode,
+  RichTextValidationResult,
+} from './utils'
+
 // ─── Default ClassNames ───────────────────────────────────────────────────────
 
 /**
@@ -99,6 +260,10 @@ export {
   defaultDisplayClassNames,
   defaultEditorClassNames,
   defaultSuggestionClassNames,
+  defaultCounterClassNames,
+  defaultLinkCardClassNames,
+  defaultLinkEditorClassNames,
+  defaultThreadComposerClassNames,
 } from './defaults'
 
 // ─── Types ───────────────────────────────────────────────────────────────────
@@ -109,11 +274,21 @@ export type {
   LinkFeature,
   TagFeature,
   FacetFeature,
+  UnknownFacetFeature,
+  AnyFacetFeature,
   Facet,
   RichTextRecord,
   RichTextSegment,
 } from './types'
 
-export { isMentionFeature, isLinkFeature, isTagFeature } from './types'
+export { isMentionFeature, isLinkFeature, isTagFeature, isKnownFeature } from './types'
 
-export type { DisplayClassNames, EditorClassNames, SuggestionClassNames } from './types'
+export type {
+  DisplayClassNames,
+  EditorClassNames,
+  SuggestionClassNames,
+  CounterClassNames,
+  LinkCardClassNames,
+  LinkEditorClassNames,
+  ThreadComposerClassNames,
+} from './types'
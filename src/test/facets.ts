@@ -0,0 +1,17 @@
+/**
+ * Shared helpers for building facets in tests.
+ */
+
+import type { Facet, FacetFeature } from '../types/facets'
+import { utf8ByteLength } from '../utils/utf8'
+
+/** UTF-8 byte range of the first occurrence of `substring` in `text` */
+export function byteRangeOf(text: string, substring: string): Facet['index'] {
+  const byteStart = utf8ByteLength(text.slice(0, text.indexOf(substring)))
+  return { byteStart, byteEnd: byteStart + utf8ByteLength(substring) }
+}
+
+/** Facet covering the first occurrence of `substring` in `text` */
+export function facetFor(text: string, substring: string, ...features: FacetFeature[]): Facet {
+  return { index: byteRangeOf(text, substring), features }
+}
@@ -35,6 +35,8 @@ export interface DisplayClassNames {
   link?: string
   /** Anchor element wrapping each #hashtag */
   tag?: string
+  /** "Show more" `<button>` shown after truncated text (`maxGraphemes` / `maxLines`) */
+  showMore?: string
 }
 
 // ─── MentionSuggestionList ───────────────────────────────────────────────────
@@ -69,6 +71,81 @@ export interface SuggestionClassNames {
   empty?: string
 }
 
+// ─── CharacterCounter ────────────────────────────────────────────────────────
+
+/**
+ * Styleable parts of the `CharacterCounter` component.
+ */
+export interface CounterClassNames {
+  /** Root `<span>` showing the remaining count */
+  root?: string
+  /**
+   * Class added to the root when the text is over the limit.
+   * Applied in addition to `root` — not instead of it.
+   */
+  overLimit?: string
+}
+
+// ─── LinkCardPreview ─────────────────────────────────────────────────────────
+
+/**
+ * Styleable parts of the `LinkCardPreview` component.
+ */
+export interface LinkCardClassNames {
+  /** Root `<div>` wrapping the card */
+  root?: string
+  /** Thumbnail `<img>` */
+  thumb?: string
+  /** Text column container (holds title, description and domain) */
+  body?: string
+  /** Page title */
+  title?: string
+  /** Page description */
+  description?: string
+  /** Domain of the link, shown under the description and while loading */
+  domain?: string
+  /** Placeholder shown while the metadata is being fetched */
+  loading?: string
+  /** Message shown when the metadata could not be fetched */
+  error?: string
+  /** Remove `<button>` (only rendered with `onRemove`) */
+  remove?: string
+}
+
+// ─── ThreadComposer ──────────────────────────────────────────────────────────
+
+/**
+ * Styleable parts of the `ThreadComposer` component.
+ * Each post's editor is styled through `editorProps.classNames`.
+ */
+export interface ThreadComposerClassNames {
+  /** Root `<div>` wrapping the posts */
+  root?: string
+  /** Wrapper `<div>` around each post's editor */
+  post?: string
+  /** "1/3" position label of each post (only rendered for two or more posts) */
+  index?: string
+}
+
+// ─── LinkEditPopover ─────────────────────────────────────────────────────────
+
+/**
+ * Styleable parts of the `LinkEditPopover` component.
+ * Also nested as `linkEditor` inside `EditorClassNames`.
+ */
+export interface LinkEditorClassNames {
+  /** Root `<form>` of the popover */
+  root?: string
+  /** URL `<input>` */
+  input?: string
+  /** Submit `<button>` */
+  submit?: string
+  /** Remove `<button>` (only rendered when editing an existing link) */
+  remove?: string
+  /** Message shown when the URL is not valid */
+  error?: string
+}
+
 // ─── RichTextEditor ──────────────────────────────────────────────────────────
 
 /**
@@ -83,8 +160,14 @@ export interface EditorClassNames {
   placeholder?: string
   /** Mention chips rendered inside the editor */
   mention?: string
-  /** Autolink decoration spans rendered inside the editor */
+  /** Autolink decoration spans and links with custom text rendered inside the editor */
   link?: string
-  /** Class names forwarded to the nested `MentionSuggestionList` */
+  /** #hashtag decoration spans rendered inside the editor */
+  tag?: string
+  /** Decoration spans covering text past `maxGraphemes` */
+  overflow?: string
+  /** Class names forwarded to the nested `MentionSuggestionList` / `TagSuggestionList` */
   suggestion?: SuggestionClassNames
+  /** Class names forwarded to the Mod-K `LinkEditPopover` */
+  linkEditor?: LinkEditorClassNames
 }
@@ -44,18 +44,32 @@ export interface TagFeature {
   tag: string
 }
 
-/** Union of all possible facet feature types. */
+/** Union of all facet feature types defined by the `app.bsky.richtext.facet` lexicon. */
 export type FacetFeature = MentionFeature | LinkFeature | TagFeature
 
+/**
+ * A facet feature with a `$type` outside the `app.bsky.richtext.facet`
+ * lexicon — e.g. bold text, code spans or cashtags defined by other AT
+ * Protocol apps. The lexicon's feature union is open, so records may carry
+ * these; register a renderer for them with `createFacetFeatureRegistry()`.
+ */
+export interface UnknownFacetFeature {
+  $type: string
+  [key: string]: unknown
+}
+
+/** Any facet feature — one of the lexicon's own, or a custom one. */
+export type AnyFacetFeature = FacetFeature | UnknownFacetFeature
+
 // ─── Facet ──────────────────────────────────────────────────────────────────
 
 /**
  * A single richtext annotation — maps a byte-range within the post text
- * to one or more semantic features (mention, link, tag).
+ * to one or more semantic features (mention, link, tag, or a custom type).
  */
 export interface Facet {
   index: ByteSlice
-  features: FacetFeature[]
+  features: AnyFacetFeature[]
 }
 
 // ─── RichText Record ────────────────────────────────────────────────────────
@@ -72,26 +86,37 @@ export interface RichTextRecord {
 // ─── Segment ────────────────────────────────────────────────────────────────
 
 /**
- * A parsed segment of richtext — a slice of text with its associated feature
- * (if any). Produced by the richtext parser.
+ * A parsed segment of richtext — a slice of text with its associated
+ * features (if any). Produced by the richtext parser.
  */
 export interface RichTextSegment {
   /** The raw text of this segment */
   text: string
-  /** The facet feature associated with this segment, if any */
-  feature?: FacetFeature
+  /**
+   * The first feature of the segment's facet, if any.
+   * Kept for backward compatibility — prefer `features`, which a facet may
+   * populate with several features for the same span (e.g. a link and a tag).
+   */
+  feature?: AnyFacetFeature
+  /** Every feature of the segment's facet, in lexicon order. Absent for plain text. */
+  features?: AnyFacetFeature[]
 }
 
 // ─── Type Guards ────────────────────────────────────────────────────────────
 
-export function isMentionFeature(feature: FacetFeature): feature is MentionFeature {
+export function isMentionFeature(feature: AnyFacetFeature): feature is MentionFeature {
   return feature.$type === 'app.bsky.richtext.facet#mention'
 }
 
-export function isLinkFeature(feature: FacetFeature): feature is LinkFeature {
+export function isLinkFeature(feature: AnyFacetFeature): feature is LinkFeature {
   return feature.$type === 'app.bsky.richtext.facet#link'
 }
 
-export function isTagFeature(feature: FacetFeature): feature is TagFeature {
+export function isTagFeature(feature: AnyFacetFeature): feature is TagFeature {
   return feature.$type === 'app.bsky.richtext.facet#tag'
 }
+
+/** Whether `feature` is one of the lexicon's own feature types (mention, link or tag). */
+export function isKnownFeature(feature: AnyFacetFeature): feature is FacetFeature {
+  return isMentionFeature(feature) || isLinkFeature(feature) || isTagFeature(feature)
+}
@@ -4,15 +4,21 @@ export type {
   LinkFeature,
   TagFeature,
   FacetFeature,
+  UnknownFacetFeature,
+  AnyFacetFeature,
   Facet,
   RichTextRecord,
   RichTextSegment,
 } from './facets'
 
-export { isMentionFeature, isLinkFeature, isTagFeature } from './facets'
+export { isMentionFeature, isLinkFeature, isTagFeature, isKnownFeature } from './facets'
 
 export type {
   DisplayClassNames,
   EditorClassNames,
   SuggestionClassNames,
+  CounterClassNames,
+  LinkCardClassNames,
+  LinkEditorClassNames,
+  ThreadComposerClassNames,
 } from './classNames'
@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { searchBskyActors, createDebouncedSearch } from './blueskyApi'
+import {
+  searchBskyActors,
+  createDebouncedSearch,
+  resolveBskyHandle,
+  createCachedHandleResolver,
+} from './blueskyApi'
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -208,3 +213,86 @@ describe('createDebouncedSearch', () => {
     expect(result[0]?.handle).toBe('charlie.bsky.social')
   })
 })
+
+// ─── resolveBskyHandle ────────────────────────────────────────────────────────
+
+describe('resolveBskyHandle', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('returns undefined for empty handle without a network request', async () => {
+    vi.stubGlobal('fetch', vi.fn())
+    expect(await resolveBskyHandle('  ')).toBeUndefined()
+    expect(vi.mocked(fetch)).not.toHaveBeenCalled()
+  })
+
+  it('returns the DID from the API response', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(makeFetchResponse({ did: 'did:plc:abc123' })),
+    )
+
+    expect(await resolveBskyHandle('alice.bsky.social')).toBe('did:plc:abc123')
+
+    const calledUrl = vi.mocked(fetch).mock.calls[0]?.[0] as string
+    expect(calledUrl).toContain('com.atproto.identity.resolveHandle')
+    expect(calledUrl).toContain('handle=alice.bsky.social')
+  })
+
+  it('strips a leading "@" before resolving', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(makeFetchResponse({ did: 'did:plc:a' })))
+
+    await resolveBskyHandle('@alice.bsky.social')
+
+    const calledUrl = vi.mocked(fetch).mock.calls[0]?.[0] as string
+    expect(calledUrl).toContain('handle=alice.bsky.social')
+  })
+
+  it('returns undefined when API responds with non-ok status', async () => {
+    mockFetchNotOk()
+    expect(await resolveBskyHandle('nobody.bsky.social')).toBeUndefined()
+  })
+
+  it('returns undefined on network error', async () => {
+    mockFetchError()
+    expect(await resolveBskyHandle('alice.bsky.social')).toBeUndefined()
+  })
+
+  it('returns undefined when the response has no valid DID', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(makeFetchResponse({ did: 'nope' })))
+    expect(await resolveBskyHandle('alice.bsky.social')).toBeUndefined()
+  })
+})
+
+// ─── createCachedHandleResolver ───────────────────────────────────────────────
+
+describe('createCachedHandleResolver', () => {
+  it('resolves each handle only once (case-insensitive)', async () => {
+    const resolve = vi.fn().mockResolvedValue('did:plc:alice')
+    const cached = createCachedHandleResolver(resolve)
+
+    const [a, b] = await Promise.all([cached('alice.bsky.social'), cached('Alice.bsky.social')])
+    const c = await cached('alice.bsky.social')
+
+    expect(a).toBe('did:plc:alice')
+    expect(b).toBe('did:plc:alice')
+    expect(c).toBe('did:plc:alice')
+    expect(resolve).toHaveBeenCalledTimes(1)
+    expect(resolve).toHaveBeenCalledWith('alice.bsky.social')
+  })
+
+  it('does not cache failed resolutions', async () => {
+    const resolve = vi
+      .fn()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValueOnce('did:plc:bob')
+    const cached = createCachedHandleResolver(resolve)
+
+    expect(await cached('bob.bsky.social')).toBeUndefined()
+    expect(await cached('bob.bsky.social')).toBeUndefined()
+    expect(await cached('bob.bsky.social')).toBe('did:plc:bob')
+    expect(resolve).toHaveBeenCalledTimes(3)
+  })
+})
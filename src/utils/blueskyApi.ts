@@ -8,14 +8,21 @@
  * `createDebouncedSearch` wraps `searchBskyActors` with a debounce so rapid
  * keystrokes don't fire unnecessary network requests. Only the latest in-flight
  * query resolves; stale promises from earlier keystrokes are silently discarded.
+ *
+ * `resolveBskyHandle` resolves a handle to its DID through the same public
+ * host. `createCachedHandleResolver` memoises any resolver per handle so the
+ * editor doesn't re-resolve the same mention on every keystroke.
  */
 
 import type { MentionSuggestion } from '../components/RichTextEditor/RichTextEditor'
 
 // ─── Constants ───────────────────────────────────────────────────────────────
 
-const BSKY_SEARCH_API =
-  'https://public.api.bsky.app/xrpc/app.bsky.actor.searchActors'
+const BSKY_PUBLIC_API = 'https://public.api.bsky.app/xrpc'
+
+const BSKY_SEARCH_API = `${BSKY_PUBLIC_API}/app.bsky.actor.searchActors`
+
+const BSKY_RESOLVE_HANDLE_API = `${BSKY_PUBLIC_API}/com.atproto.identity.resolveHandle`
 
 // ─── Raw API ─────────────────────────────────────────────────────────────────
 
@@ -119,3 +126,75 @@ export function createDebouncedSearch(
     })
   }
 }
+
+// ─── Handle resolution ───────────────────────────────────────────────────────
+
+/**
+ * Resolve a Bluesky handle to its DID using the public, unauthenticated API.
+ *
+ * Returns `undefined` if the handle is blank, does not exist, the network
+ * request fails, or the response is malformed.
+ *
+ * @param handle - Handle without the leading "@" (e.g. "alice.bsky.social")
+ */
+export async function resolveBskyHandle(handle: string): Promise<string | undefined> {
+  const trimmed = handle.trim().replace(/^@/, '')
+  if (!trimmed) return undefined
+
+  try {
+    const url = new URL(BSKY_RESOLVE_HANDLE_API)
+    url.searchParams.set('handle', trimmed)
+
+    const res = await fetch(url.toString())
+    if (!res.ok) return undefined
+
+    const data = (await res.json()) as { did?: unknown }
+    return typeof data.did === 'string' && data.did.startsWith('did:') ? data.did : undefined
+  } catch {
+    // Network error, JSON parse error, etc. — fail gracefully
+    return undefined
+  }
+}
+
+/**
+ * Wrap a handle resolver with a per-handle cache.
+ *
+ * Handles are compared case-insensitively. Concurrent lookups for the same
+ * handle share a single in-flight request. Successful resolutions are kept
+ * for the lifetime of the returned function; failed ones (`undefined` or a
+ * thrown error) are evicted so the next call retries.
+ *
+ * @param resolve - Underlying resolver (default: `resolveBskyHandle`)
+ *
+ * @example
+ * ```ts
+ * const resolveHandle = createCachedHandleResolver(async (handle) => {
+ *   const res = await agent.resolveHandle({ handle })
+ *   return res.data.did
+ * })
+ * ```
+ */
+export function createCachedHandleResolver(
+  resolve: (handle: string) => Promise<string | undefined> = resolveBskyHandle,
+): (handle: string) => Promise<string | undefined> {
+  const cache = new Map<string, Promise<string | undefined>>()
+
+  return (handle: string): Promise<string | undefined> => {
+    const key = handle.trim().toLowerCase()
+    const cached = cache.get(key)
+    if (cached) return cached
+
+    const pending = resolve(key).then(
+      (did) => {
+        if (!did) cache.delete(key)
+        return did
+      },
+      () => {
+        cache.delete(key)
+        return undefined
+      },
+    )
+    cache.set(key, pending)
+    return pending
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Shared feature helpers for the richtext renderers (`RichTextDisplay` and
+ * `renderRichTextToHTML`), so both order features, build `href`s and
+ * accessible labels the same way.
+ */
+
+import type { AnyFacetFeature } from '../types/facets'
+
+/**
+ * Order a facet's features by `precedence`. Types not listed keep their facet
+ * order, after the listed ones.
+ */
+export function orderFeatures(
+  features: AnyFacetFeature[],
+  precedence: Array<AnyFacetFeature['$type']> | undefined,
+): AnyFacetFeature[] {
+  if (!precedence || precedence.length === 0 || features.length < 2) return features
+  const rank = (feature: AnyFacetFeature) => {
+    const index = precedence.indexOf(feature.$type)
+    return index === -1 ? precedence.length : index
+  }
+  // Array.prototype.sort is stable, so equal ranks keep their facet order
+  return [...features].sort((a, b) => rank(a) - rank(b))
+}
+
+/** Default `href` for @mention anchors — the account's bsky.app profile */
+export function defaultMentionUrl(did: string): string {
+  return `https://bsky.app/profile/${did}`
+}
+
+/** Default `href` for #hashtag anchors — the bsky.app hashtag feed */
+export function defaultTagUrl(tag: string): string {
+  return `https://bsky.app/hashtag/${encodeURIComponent(tag)}`
+}
+
+/** Handle shown by a mention segment, without the leading "@" */
+export function mentionHandle(text: string): string {
+  return text.replace(/^@/, '')
+}
+
+/** `aria-label` announcing a mention anchor (`aria` mode) */
+export function mentionAriaLabel(text: string): string {
+  return `mention of ${mentionHandle(text)}`
+}
+
+/**
+ * `aria-label` carrying the full URI of a link whose visible text is
+ * shortened (`aria` mode). `undefined` when the text already is the URI.
+ */
+export function linkAriaLabel(displayText: string, uri: string): string | undefined {
+  return displayText === uri ? undefined : uri
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { graphemeLength, graphemeIndexToCharIndex, getRichTextLength } from './graphemes'
+
+describe('graphemeLength', () => {
+  it('counts ASCII characters', () => {
+    expect(graphemeLength('Hello')).toBe(5)
+    expect(graphemeLength('')).toBe(0)
+  })
+
+  it('counts emoji with modifiers and ZWJ sequences as one grapheme', () => {
+    expect(graphemeLength('👍🏽')).toBe(1)
+    expect(graphemeLength('👨‍👩‍👧')).toBe(1)
+    expect(graphemeLength('hi 👋')).toBe(4)
+  })
+
+  it('counts combining accents as part of their base character', () => {
+    expect(graphemeLength('é')).toBe(1)
+  })
+})
+
+describe('graphemeIndexToCharIndex', () => {
+  it('maps grapheme indices to UTF-16 indices', () => {
+    const text = '👍🏽 ok'
+    expect(graphemeIndexToCharIndex(text, 0)).toBe(0)
+    expect(graphemeIndexToCharIndex(text, 1)).toBe(4)
+    expect(graphemeIndexToCharIndex(text, 2)).toBe(5)
+  })
+
+  it('returns text.length when past the end', () => {
+    expect(graphemeIndexToCharIndex('abc', 3)).toBe(3)
+    expect(graphemeIndexToCharIndex('abc', 10)).toBe(3)
+  })
+})
+
+describe('getRichTextLength', () => {
+  it('reports graphemes and UTF-8 bytes', () => {
+    expect(getRichTextLength('héllo')).toEqual({ graphemeLength: 5, byteLength: 6 })
+    expect(getRichTextLength('👍🏽')).toEqual({ graphemeLength: 1, byteLength: 8 })
+  })
+})
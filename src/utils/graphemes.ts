@@ -0,0 +1,114 @@
+/**
+ * Grapheme utilities for post length limits.
+ *
+ * Bluesky limits post text to 300 graphemes and 3000 UTF-8 bytes
+ * (`app.bsky.feed.post#text`: `maxGraphemes: 300`, `maxLength: 3000`).
+ * A grapheme is a user-perceived character — "👍🏽" or "é" written with a
+ * combining accent count as one, even though they span several UTF-16 code
+ * units. Counting uses `Intl.Segmenter`, the same segmentation @atproto/api
+ * uses natively, falling back to code points where it's unavailable.
+ */
+
+import { utf8ByteLength } from './utf8'
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Maximum number of graphemes in an `app.bsky.feed.post` text. */
+export const MAX_POST_GRAPHEMES = 300
+
+/** Maximum number of UTF-8 bytes in an `app.bsky.feed.post` text. */
+export const MAX_POST_BYTES = 3000
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/**
+ * Length of a richtext string, measured the two ways the lexicon limits it.
+ */
+export interface RichTextLength {
+  /** Number of user-perceived characters */
+  graphemeLength: number
+  /** Number of UTF-8 bytes */
+  byteLength: number
+}
+
+// ─── Segmenter ───────────────────────────────────────────────────────────────
+
+/**
+ * Minimal structural type for `Intl.Segmenter` — the ES2020 lib this package
+ * compiles against doesn't declare it.
+ */
+interface GraphemeSegmenter {
+  segment(input: string): Iterable<{ segment: string; index: number }>
+}
+
+const segmenter: GraphemeSegmenter | null =
+  typeof Intl !== 'undefined' && 'Segmenter' in Intl
+    ? new (
+        Intl as unknown as {
+          Segmenter: new (
+            locale?: string,
+            options?: { granularity: 'grapheme' },
+          ) => GraphemeSegmenter
+        }
+      ).Segmenter(undefined, { granularity: 'grapheme' })
+    : null
+
+/**
+ * Iterate the UTF-16 start index of every grapheme in `text`.
+ */
+function* graphemeStarts(text: string): Generator<number> {
+  if (segmenter) {
+    for (const { index } of segmenter.segment(text)) yield index
+    return
+  }
+  // Fallback: one grapheme per code point
+  let index = 0
+  for (const codePoint of text) {
+    yield index
+    index += codePoint.length
+  }
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Count the graphemes (user-perceived characters) in a string.
+ *
+ * @example
+ * graphemeLength('👍🏽 ok') // => 4
+ */
+export function graphemeLength(text: string): number {
+  let count = 0
+  for (const _ of graphemeStarts(text)) count++
+  return count
+}
+
+/**
+ * Convert a grapheme index into a JavaScript (UTF-16) string index.
+ * Returns `text.length` when `graphemeIndex` is past the end of the string.
+ *
+ * @example
+ * graphemeIndexToCharIndex('👍🏽 ok', 1) // => 4
+ */
+export function graphemeIndexToCharIndex(text: string, graphemeIndex: number): number {
+  if (graphemeIndex <= 0) return 0
+  let count = 0
+  for (const index of graphemeStarts(text)) {
+    if (count === graphemeIndex) return index
+    count++
+  }
+  return text.length
+}
+
+/**
+ * Measure a string's grapheme and UTF-8 byte length.
+ *
+ * @example
+ * getRichTextLength('héllo') // => { graphemeLength: 5, byteLength: 6 }
+ */
+export function getRichTextLength(text: string): RichTextLength {
+  return {
+    graphemeLength: graphemeLength(text),
+    byteLength: utf8ByteLength(text),
+  }
+}
@@ -1,6 +1,45 @@
 export { parseRichText } from './parser'
-export { toShortUrl, isValidUrl } from './url'
-export { toUtf8Bytes, utf8ByteLength, utf8ByteOffsetToCharIndex, sliceByByteOffset } from './utf8'
+export type { ParseRichTextOptions, InvalidFacet, InvalidFacetReason } from './parser'
+export { renderRichTextToHTML } from './renderHTML'
+export type { RenderRichTextToHTMLOptions } from './renderHTML'
+export { richTextToMarkdown, markdownToRichText } from './markdown'
+export type { RichTextToMarkdownOptions } from './markdown'
+export { richTextToPlainText } from './plainText'
+export type { RichTextToPlainTextOptions, MentionFormat } from './plainText'
+export { toShortUrl, isValidUrl, shortenLinks } from './url'
+export {
+  toUtf8Bytes,
+  utf8ByteLength,
+  utf8ByteOffsetToCharIndex,
+  sliceByByteOffset,
+  createUtf8IndexMap,
+} from './utf8'
+export type { Utf8IndexMap } from './utf8'
 export { generateClassNames } from './classNames'
 export type { ClassNameFn } from './classNames'
-export { searchBskyActors, createDebouncedSearch } from './blueskyApi'
+export {
+  searchBskyActors,
+  createDebouncedSearch,
+  resolveBskyHandle,
+  createCachedHandleResolver,
+} from './blueskyApi'
+export { resolveMentionFacets } from './resolveMentions'
+export type { ResolvedRichText } from './resolveMentions'
+export {
+  graphemeLength,
+  graphemeIndexToCharIndex,
+  getRichTextLength,
+  MAX_POST_GRAPHEMES,
+  MAX_POST_BYTES,
+} from './graphemes'
+export type { RichTextLength } from './graphemes'
+export { validateRichText, sanitizeRichText } from './validate'
+export type {
+  RichTextValidationError,
+  RichTextValidationErrorCode,
+  RichTextValidationResult,
+} from './validate'
+export { sliceRichText, concatRichText, insertRichText, replaceRange } from './operations'
+export type { RichTextOffsetUnit, RichTextOffsetOptions, RichTextFragment } from './operations'
+export { splitRichTextIntoThread } from './thread'
+export type { SplitRichTextIntoThreadOptions } from './thread'
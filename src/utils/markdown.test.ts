@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest'
+import { markdownToRichText, richTextToMarkdown } from './markdown'
+import { sliceByByteOffset } from './utf8'
+import type { FacetFeature, RichTextRecord } from '../types/facets'
+import { facetFor } from '../test/facets'
+
+function link(uri: string): FacetFeature {
+  return { $type: 'app.bsky.richtext.facet#link', uri }
+}
+
+describe('richTextToMarkdown', () => {
+  it('writes links, mentions and tags as inline links', () => {
+    const text = 'Hi @alice.bsky.social, see example.com #atproto'
+    const record: RichTextRecord = {
+      text,
+      facets: [
+        facetFor(text, '@alice.bsky.social', {
+          $type: 'app.bsky.richtext.facet#mention',
+          did: 'did:plc:alice',
+        }),
+        facetFor(text, 'example.com', link('https://example.com')),
+        facetFor(text, '#atproto', { $type: 'app.bsky.richtext.facet#tag', tag: 'atproto' }),
+      ],
+    }
+
+    expect(richTextToMarkdown(record)).toBe(
+      'Hi [@alice.bsky.social](https://bsky.app/profile/did:plc:alice), ' +
+        'see [example.com](https://example.com) [#atproto](https://bsky.app/hashtag/atproto)',
+    )
+    expect(
+      richTextToMarkdown(record, {
+        mentionUrl: (did) => `/profile/${did}`,
+        tagUrl: (tag) => `/tags/${tag}`,
+        linkUrl: (uri) => `${uri}?ref=blog`,
+      }),
+    ).toBe(
+      'Hi [@alice.bsky.social](/profile/did:plc:alice), ' +
+        'see [example.com](https://example.com?ref=blog) [#atproto](/tags/atproto)',
+    )
+  })
+
+  it('escapes Markdown syntax in text, labels and destinations', () => {
+    const text = '*not bold* [x] wow!link'
+    const record: RichTextRecord = {
+      text,
+      facets: [facetFor(text, 'link', link('https://en.wikipedia.org/wiki/Foo_(bar)'))],
+    }
+
+    expect(richTextToMarkdown(record)).toBe(
+      '\\*not bold\\* \\[x\\] wow\\![link](https://en.wikipedia.org/wiki/Foo_\\(bar\\))',
+    )
+  })
+
+  it('writes line breaks as hard breaks and escapes block markers at line starts', () => {
+    const record: RichTextRecord = { text: '# hi\n- item\n  + more\n1. first\n===\nnot # a - b' }
+    const markdown = richTextToMarkdown(record)
+    expect(markdown).toBe('\\# hi\\\n\\- item\\\n  \\+ more\\\n1\\. first\\\n\\===\\\nnot # a - b')
+    expect(markdownToRichText(markdown)).toEqual(record)
+  })
+
+  it('uses featurePrecedence for multi-feature facets', () => {
+    const text = '#bsky'
+    const record: RichTextRecord = {
+      text,
+      facets: [
+        facetFor(text, '#bsky', link('https://bsky.app'), {
+          $type: 'app.bsky.richtext.facet#tag',
+          tag: 'bsky',
+        }),
+      ],
+    }
+    expect(richTextToMarkdown(record)).toBe('[#bsky](https://bsky.app)')
+    expect(richTextToMarkdown(record, { featurePrecedence: ['app.bsky.richtext.facet#tag'] })).toBe(
+      '[#bsky](https://bsky.app/hashtag/bsky)',
+    )
+  })
+})
+
+describe('markdownToRichText', () => {
+  it('converts inline links to link facets with UTF-8 byte offsets', () => {
+    const record = markdownToRichText(
+      '🦋 Read [the docs](https://docs.bsky.app) — [ünïcode](https://x.y)',
+    )
+
+    expect(record.text).toBe('🦋 Read the docs — ünïcode')
+    expect(record.facets?.map((f) => f.features)).toEqual([
+      [link('https://docs.bsky.app')],
+      [link('https://x.y')],
+    ])
+    expect(
+      record.facets?.map((f) => sliceByByteOffset(record.text, f.index.byteStart, f.index.byteEnd)),
+    ).toEqual(['the docs', 'ünïcode'])
+  })
+
+  it('converts autolinks and ignores link titles', () => {
+    expect(markdownToRichText('<https://bsky.app> and [a](https://a.b "Title")')).toEqual({
+      text: 'https://bsky.app and a',
+      facets: [
+        { index: { byteStart: 0, byteEnd: 16 }, features: [link('https://bsky.app')] },
+        { index: { byteStart: 21, byteEnd: 22 }, features: [link('https://a.b')] },
+      ],
+    })
+  })
+
+  it('handles parentheses, brackets and escapes', () => {
+    expect(markdownToRichText('[a [b] c](https://w.org/Foo_(bar)) \\[no\\](link)')).toEqual({
+      text: 'a [b] c [no](link)',
+      facets: [
+        { index: { byteStart: 0, byteEnd: 7 }, features: [link('https://w.org/Foo_(bar)')] },
+      ],
+    })
+  })
+
+  it('keeps links to anything but http(s) URLs as plain text', () => {
+    expect(
+      markdownToRichText(
+        '[x](javascript:alert(1)) <data:text/html,hi> [y](/path) [ok](https://a.b)',
+      ),
+    ).toEqual({
+      text: 'x data:text/html,hi y ok',
+      facets: [{ index: { byteStart: 22, byteEnd: 24 }, features: [link('https://a.b')] }],
+    })
+  })
+
+  it('keeps thousands of unclosed brackets and links as text', () => {
+    const markdown = `${'['.repeat(10_000)}${'[a]('.repeat(10_000)}`
+    expect(markdownToRichText(markdown)).toEqual({ text: markdown })
+  })
+
+  it('keeps images, code spans and other syntax as text', () => {
+    expect(markdownToRichText('**hi** ![img](a.png) `[x](y)` [unclosed](')).toEqual({
+      text: '**hi** ![img](a.png) `[x](y)` [unclosed](',
+    })
+  })
+
+  it('round-trips links exported by richTextToMarkdown', () => {
+    const text = 'Wow! *stars* [brackets] see Foo (bar) `code`'
+    const record: RichTextRecord = {
+      text,
+      facets: [facetFor(text, 'Foo (bar)', link('https://en.wikipedia.org/wiki/Foo_(bar)'))],
+    }
+    expect(markdownToRichText(richTextToMarkdown(record))).toEqual(record)
+  })
+})
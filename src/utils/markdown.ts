@@ -0,0 +1,374 @@
+/**
+ * Markdown export and import for richtext.
+ *
+ * - `richTextToMarkdown` walks the segments produced by `parseRichText` and
+ *   writes every faceted segment as an inline link: links to their URI,
+ *   mentions to the profile and tags to the hashtag page.
+ * - `markdownToRichText` scans Markdown for inline links (`[text](uri)`) and
+ *   autolinks (`<uri>`), builds segments from them and joins the segments with
+ *   `segmentsToRichText`, which computes the UTF-8 byte offsets of each facet.
+ *
+ * Only links are converted. Other Markdown syntax (emphasis, headings, lists…)
+ * has no facet equivalent: it is escaped on export and kept as text on import.
+ * Line breaks are exported as hard breaks (`\` at the end of the line), so
+ * they are not joined into one paragraph. Only http(s) links are imported.
+ */
+
+import type { AnyFacetFeature, RichTextRecord, RichTextSegment } from '../types/facets'
+import { isKnownFeature, isMentionFeature, isLinkFeature } from '../types/facets'
+import { parseRichText, segmentsToRichText, type ParseRichTextOptions } from './parser'
+import { defaultMentionUrl, defaultTagUrl, orderFeatures } from './features'
+import { normalizeLinkUri } from './url'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface RichTextToMarkdownOptions extends ParseRichTextOptions {
+  /**
+   * Generate the link target for @mentions.
+   * @default (did) => `https://bsky.app/profile/${did}`
+   */
+  mentionUrl?: (did: string) => string
+
+  /**
+   * Generate the link target for #hashtags.
+   * @default (tag) => `https://bsky.app/hashtag/${encodeURIComponent(tag)}`
+   */
+  tagUrl?: (tag: string) => string
+
+  /**
+   * Transform a link URI before it is written as the link target.
+   * @default (uri) => uri
+   */
+  linkUrl?: (uri: string) => string
+
+  /**
+   * Order in which the features of a multi-feature facet are considered —
+   * the first known feature becomes the link. Mirrors `RichTextDisplay`'s
+   * `featurePrecedence`.
+   * @default facet order
+   */
+  featurePrecedence?: Array<AnyFacetFeature['$type']>
+}
+
+// ─── Escaping ────────────────────────────────────────────────────────────────
+
+/** Characters that could start Markdown inline syntax in plain text */
+const MARKDOWN_SPECIAL_REGEX = /[\\`*_[\]<>~]/g
+
+/** Any ASCII punctuation character may be backslash-escaped (CommonMark) */
+const ASCII_PUNCTUATION_REGEX = /[!-/:-@[-`{-~]/
+
+/** `<scheme:…>` autolink, matched at `lastIndex` */
+const AUTOLINK_REGEX = /<([A-Za-z][A-Za-z0-9+.-]{1,31}:[^\s<>]*)>/y
+
+/** Nesting limit of parentheses in a link destination, as in CommonMark's reference parser */
+const MAX_DESTINATION_PARENS = 32
+
+/**
+ * A heading, setext underline, bullet or ordered-list marker at the start of
+ * a line — only its punctuation needs escaping
+ */
+const BLOCK_MARKER_REGEX = /^([ \t]*)(?:([#=+-])|(\d{1,9})([.)]))/
+
+function escapeMarkdown(text: string): string {
+  return text.replace(MARKDOWN_SPECIAL_REGEX, '\\$&')
+}
+
+/**
+ * Escape plain text, including block markers at the start of each line, and
+ * write its newlines as hard breaks. `atLineStart` tells whether the text
+ * begins a line of the output.
+ */
+function escapeText(text: string, atLineStart: boolean): string {
+  return text
+    .split('\n')
+    .map((line, i) => {
+      const escaped = escapeMarkdown(line)
+      if (i === 0 && !atLineStart) return escaped
+      return escaped.replace(
+        BLOCK_MARKER_REGEX,
+        (_, indent: string, marker?: string, digits?: string, delimiter?: string) =>
+          marker ? `${indent}\\${marker}` : `${indent}${digits}\\${delimiter}`,
+      )
+    })
+    .join('\\\n')
+}
+
+/** Escape a link destination so it survives inside `(…)` */
+function escapeDestination(uri: string): string {
+  return uri.replace(/[\\()]/g, '\\$&').replace(/\s/g, (char) => encodeURIComponent(char))
+}
+
+/** Resolve backslash escapes and hard breaks */
+function unescapeMarkdown(text: string): string {
+  return text.replace(/\\([!-/:-@[-`{-~\n])/g, '$1')
+}
+
+// ─── Markdown scanning ───────────────────────────────────────────────────────
+
+/**
+ * The closing `]` of every `[` that has one, in a single pass: a label's
+ * brackets must balance and escaped brackets don't count. Matching each `[`
+ * by scanning ahead from it would be quadratic in the number of unclosed ones.
+ */
+function matchBrackets(md: string): Map<number, number> {
+  const closers = new Map<number, number>()
+  const open: number[] = []
+  for (let i = 0; i < md.length; i++) {
+    const char = md[i]
+    if (char === '\\') i++
+    else if (char === '[') open.push(i)
+    else if (char === ']') {
+      const start = open.pop()
+      if (start !== undefined) closers.set(start, i)
+    }
+  }
+  return closers
+}
+
+/**
+ * Find the end (exclusive) of a code span starting at `start`, or -1 when
+ * the backtick run is never closed by a run of the same length.
+ */
+function findCodeSpanEnd(md: string, start: number): number {
+  let runEnd = start
+  while (md[runEnd] === '`') runEnd++
+  const run = md.slice(start, runEnd)
+
+  let from = runEnd
+  for (;;) {
+    const close = md.indexOf(run, from)
+    if (close === -1) return -1
+    let closeEnd = close + run.length
+    if (md[closeEnd] !== '`') return closeEnd
+    // Longer run — not a match, skip past it
+    while (md[closeEnd] === '`') closeEnd++
+    from = closeEnd
+  }
+}
+
+/**
+ * Match an inline link `[label](destination "optional title")` whose `[` is
+ * at `start`, given the bracket pairs from `matchBrackets`. Returns the
+ * unescaped label and URI and the end of the match.
+ */
+function matchInlineLink(
+  md: string,
+  start: number,
+  closers: Map<number, number>,
+): { label: string; uri: string; end: number } | undefined {
+  let i = closers.get(start)
+  if (i === undefined || md[i + 1] !== '(') return undefined
+  const label = md.slice(start + 1, i)
+
+  i += 2
+  while (md[i] === ' ' || md[i] === '\t') i++
+
+  // Destination — either <…> or a run without spaces and with balanced
+  // parentheses. Both scans stop early on input that cannot be part of the
+  // destination (a "<" or newline, more than 32 nested parentheses), so
+  // failed matches don't rescan the rest of the input.
+  let destination: string
+  if (md[i] === '<') {
+    const destStart = i + 1
+    for (i = destStart; i < md.length && md[i] !== '>'; i++) {
+      if (md[i] === '<' || md[i] === '\n') return undefined
+      if (md[i] === '\\') i++
+    }
+    if (i >= md.length) return undefined
+    destination = md.slice(destStart, i)
+    i++
+  } else {
+    const destStart = i
+    let parens = 0
+    for (; i < md.length; i++) {
+      const char = md[i] ?? ''
+      if (char === '\\') i++
+      else if (char === '(') {
+        if (++parens > MAX_DESTINATION_PARENS) return undefined
+      } else if (char === ')') {
+        if (parens === 0) break
+        parens--
+      } else if (/\s/.test(char)) break
+    }
+    destination = md.slice(destStart, i)
+  }
+
+  // Optional title — ignored, richtext links have none
+  while (md[i] === ' ' || md[i] === '\t' || md[i] === '\n') i++
+  const opener = md[i]
+  if (opener === '"' || opener === "'" || opener === '(') {
+    const closer = opener === '(' ? ')' : opener
+    i++
+    while (i < md.length && md[i] !== closer) {
+      // A parenthesized title cannot contain an unescaped "("
+      if (opener === '(' && md[i] === '(') return undefined
+      i += md[i] === '\\' ? 2 : 1
+    }
+    if (i >= md.length) return undefined
+    i++
+    while (md[i] === ' ' || md[i] === '\t' || md[i] === '\n') i++
+  }
+
+  if (md[i] !== ')') return undefined
+  return { label: unescapeMarkdown(label), uri: unescapeMarkdown(destination), end: i + 1 }
+}
+
+/** `uri` if it is an absolute http(s) URL — script and data URIs are not imported */
+function toHttpUri(uri: string): string | undefined {
+  return /^https?:/i.test(uri) ? normalizeLinkUri(uri) : undefined
+}
+
+function linkSegment(text: string, uri: string): RichTextSegment {
+  const feature: AnyFacetFeature = { $type: 'app.bsky.richtext.facet#link', uri }
+  return { text, feature, features: [feature] }
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Convert a `RichTextRecord` to Markdown. Links become `[text](uri)`,
+ * mentions link to the profile and tags to the hashtag page (both
+ * configurable). Plain text is escaped so it is never interpreted as
+ * Markdown syntax, and line breaks are written as hard breaks.
+ *
+ * @example
+ * ```ts
+ * richTextToMarkdown(post.record, { mentionUrl: (did) => `/profile/${did}` })
+ * // => 'Hi [@alice.bsky.social](/profile/did:plc:…), see [example.com](https://example.com)'
+ * ```
+ */
+export function richTextToMarkdown(
+  record: RichTextRecord,
+  options: RichTextToMarkdownOptions = {},
+): string {
+  const { mentionUrl, tagUrl, linkUrl, featurePrecedence, overlappingFacets, onInvalidFacet } =
+    options
+
+  const segments = parseRichText(record, {
+    ...(overlappingFacets !== undefined ? { overlappingFacets } : {}),
+    ...(onInvalidFacet !== undefined ? { onInvalidFacet } : {}),
+  })
+
+  let markdown = ''
+  for (const segment of segments) {
+    const features = orderFeatures(
+      segment.features ?? (segment.feature ? [segment.feature] : []),
+      featurePrecedence,
+    )
+    const feature = features.find(isKnownFeature)
+    if (!feature) {
+      markdown += escapeText(segment.text, markdown === '' || markdown.endsWith('\n'))
+      continue
+    }
+
+    const uri = isMentionFeature(feature)
+      ? (mentionUrl?.(feature.did) ?? defaultMentionUrl(feature.did))
+      : isLinkFeature(feature)
+        ? (linkUrl?.(feature.uri) ?? feature.uri)
+        : (tagUrl?.(feature.tag) ?? defaultTagUrl(feature.tag))
+
+    // "![" would start an image instead of a link
+    if (markdown.endsWith('!')) markdown = `${markdown.slice(0, -1)}\\!`
+    markdown += `[${escapeText(segment.text, false)}](${escapeDestination(uri)})`
+  }
+  return markdown
+}
+
+/**
+ * Convert Markdown to a `RichTextRecord`. Inline links (`[text](uri)`) and
+ * autolinks (`<https://…>`) become link facets over their text, with UTF-8
+ * byte offsets; backslash escapes and hard breaks are resolved. Everything
+ * else — including images and code spans — is kept as text. Links to
+ * anything but an http(s) URL (`javascript:`, `data:`, relative paths…) are
+ * kept as their plain text.
+ *
+ * Links pointing to profiles or hashtag pages are imported as links, not as
+ * mention or tag facets.
+ *
+ * @example
+ * ```ts
+ * markdownToRichText('Read [the docs](https://docs.bsky.app) 📚')
+ * // => {
+ * //   text: 'Read the docs 📚',
+ * //   facets: [{ index: { byteStart: 5, byteEnd: 13 }, features: [{ $type: '…#link', uri: 'https://docs.bsky.app' }] }],
+ * // }
+ * ```
+ */
+export function markdownToRichText(markdown: string): RichTextRecord {
+  const segments: RichTextSegment[] = []
+  let plain = ''
+
+  const closers = matchBrackets(markdown)
+  const pushLink = (text: string, rawUri: string) => {
+    const uri = toHttpUri(rawUri)
+    if (uri === undefined) {
+      plain += text
+      return
+    }
+    if (plain) segments.push({ text: plain })
+    plain = ''
+    segments.push(linkSegment(text, uri))
+  }
+
+  let i = 0
+  while (i < markdown.length) {
+    const char = markdown[i] ?? ''
+    const next = markdown[i + 1] ?? ''
+
+    // Backslash escape, or a hard break when followed by a newline
+    if (char === '\\' && (next === '\n' || ASCII_PUNCTUATION_REGEX.test(next))) {
+      plain += next
+      i += 2
+      continue
+    }
+
+    // Code span — copied verbatim, links inside are not converted
+    if (char === '`') {
+      const end = findCodeSpanEnd(markdown, i)
+      let runEnd = i
+      while (markdown[runEnd] === '`') runEnd++
+      const stop = end === -1 ? runEnd : end
+      plain += markdown.slice(i, stop)
+      i = stop
+      continue
+    }
+
+    // Autolink
+    if (char === '<') {
+      AUTOLINK_REGEX.lastIndex = i
+      const match = AUTOLINK_REGEX.exec(markdown)
+      if (match?.[1] !== undefined) {
+        pushLink(match[1], match[1])
+        i = AUTOLINK_REGEX.lastIndex
+        continue
+      }
+    }
+
+    // Image — kept as text
+    if (char === '!' && next === '[') {
+      const image = matchInlineLink(markdown, i + 1, closers)
+      if (image) {
+        plain += markdown.slice(i, image.end)
+        i = image.end
+        continue
+      }
+    }
+
+    // Inline link
+    if (char === '[') {
+      const link = matchInlineLink(markdown, i, closers)
+      if (link?.uri) {
+        pushLink(link.label || link.uri, link.uri)
+        i = link.end
+        continue
+      }
+    }
+
+    plain += char
+    i++
+  }
+
+  if (plain) segments.push({ text: plain })
+  return segmentsToRichText(segments)
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { concatRichText, insertRichText, replaceRange, sliceRichText } from './operations'
+import type { Facet, RichTextRecord } from '../types/facets'
+
+const mention: Facet = {
+  index: { byteStart: 0, byteEnd: 6 },
+  features: [{ $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:alice' }],
+}
+
+// "@alice likes 🦋 #bsky" — the emoji is 4 bytes, so the tag is bytes 18–23
+const tag: Facet = {
+  index: { byteStart: 18, byteEnd: 23 },
+  features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'bsky' }],
+}
+
+const record: RichTextRecord = { text: '@alice likes 🦋 #bsky', facets: [mention, tag] }
+
+describe('sliceRichText', () => {
+  it('keeps the facets inside the slice, re-based', () => {
+    expect(sliceRichText(record, 13)).toEqual({
+      text: '🦋 #bsky',
+      facets: [{ ...tag, index: { byteStart: 5, byteEnd: 10 } }],
+    })
+  })
+
+  it('drops facets cut by the slice boundaries', () => {
+    expect(sliceRichText(record, 3, 20)).toEqual({ text: 'ice likes 🦋 #b' })
+  })
+
+  it('slices by grapheme', () => {
+    expect(sliceRichText(record, 0, 14, { unit: 'grapheme' })).toEqual({
+      text: '@alice likes 🦋',
+      facets: [mention],
+    })
+  })
+
+  it('snaps byte offsets inside a character to its start and clamps', () => {
+    expect(sliceRichText(record, 15, 100).text).toBe('🦋 #bsky')
+    expect(sliceRichText(record, 10, 5).text).toBe('')
+  })
+})
+
+describe('concatRichText', () => {
+  it('shifts the facets of each part by the bytes before it', () => {
+    expect(concatRichText('RT ', record, { text: '!' })).toEqual({
+      text: 'RT @alice likes 🦋 #bsky!',
+      facets: [
+        { ...mention, index: { byteStart: 3, byteEnd: 9 } },
+        { ...tag, index: { byteStart: 21, byteEnd: 26 } },
+      ],
+    })
+  })
+
+  it('returns an empty record for no parts', () => {
+    expect(concatRichText()).toEqual({ text: '' })
+  })
+})
+
+describe('insertRichText', () => {
+  it('inserts a fragment with its facets and shifts the facets after it', () => {
+    const result = insertRichText(record, 13, { text: 'every ', facets: [] })
+    expect(result.text).toBe('@alice likes every 🦋 #bsky')
+    expect(result.facets?.map((facet) => facet.index)).toEqual([
+      { byteStart: 0, byteEnd: 6 },
+      { byteStart: 24, byteEnd: 29 },
+    ])
+  })
+
+  it('drops a facet the insertion point falls inside', () => {
+    expect(insertRichText(record, 3, 'x').facets?.map((facet) => facet.index)).toEqual([
+      { byteStart: 19, byteEnd: 24 },
+    ])
+  })
+
+  it('inserts by grapheme', () => {
+    expect(insertRichText({ text: '🦋🦋' }, 1, ' and ', { unit: 'grapheme' }).text).toBe(
+      '🦋 and 🦋',
+    )
+  })
+})
+
+describe('replaceRange', () => {
+  it('replaces a range, dropping the facets overlapping it', () => {
+    const atp: Facet = {
+      index: { byteStart: 1, byteEnd: 5 },
+      features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'atp' }],
+    }
+    expect(replaceRange(record, 6, 18, { text: ' #atp ', facets: [atp] })).toEqual({
+      text: '@alice #atp #bsky',
+      facets: [
+        mention,
+        { ...atp, index: { byteStart: 7, byteEnd: 11 } },
+        { ...tag, index: { byteStart: 12, byteEnd: 17 } },
+      ],
+    })
+    expect(replaceRange(record, 2, 8, '').facets?.map((facet) => facet.index)).toEqual([
+      { byteStart: 12, byteEnd: 17 },
+    ])
+  })
+})
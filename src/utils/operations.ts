@@ -0,0 +1,161 @@
+/**
+ * Immutable editing operations on `RichTextRecord`s.
+ *
+ * Each operation returns a new record whose facet byte ranges are shifted
+ * to follow the text. A facet that an operation would cut in half — one
+ * straddling a slice boundary, or overlapping a replaced range — is dropped
+ * rather than left pointing at the wrong text.
+ *
+ * Offsets are UTF-8 byte offsets by default, the unit of facet indices and
+ * of `RichTextEditorRef.getSelection()`. Pass `{ unit: 'grapheme' }` to count
+ * user-perceived characters instead, e.g. to truncate a post for a preview.
+ */
+
+import type { Facet, RichTextRecord } from '../types/facets'
+import { createUtf8IndexMap, utf8ByteLength, type Utf8IndexMap } from './utf8'
+import { graphemeIndexToCharIndex } from './graphemes'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/**
+ * Unit of the offsets passed to the richtext operations:
+ * - `byte`     — UTF-8 bytes, like facet indices. An offset inside a
+ *                multi-byte character maps to the start of the character.
+ * - `grapheme` — user-perceived characters, like the post length limit.
+ */
+export type RichTextOffsetUnit = 'byte' | 'grapheme'
+
+export interface RichTextOffsetOptions {
+  /**
+   * Unit of the offsets.
+   * @default 'byte'
+   */
+  unit?: RichTextOffsetUnit
+}
+
+/** A record, or plain text without facets */
+export type RichTextFragment = RichTextRecord | string
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function toRecord(fragment: RichTextFragment): RichTextRecord {
+  return typeof fragment === 'string' ? { text: fragment } : fragment
+}
+
+function withFacets(text: string, facets: Facet[]): RichTextRecord {
+  return facets.length > 0 ? { text, facets } : { text }
+}
+
+function shiftFacet(facet: Facet, delta: number): Facet {
+  return {
+    ...facet,
+    index: { byteStart: facet.index.byteStart + delta, byteEnd: facet.index.byteEnd + delta },
+  }
+}
+
+/** Convert an offset to a byte offset on a code point boundary, clamped to the text */
+function toByteOffset(map: Utf8IndexMap, offset: number, unit: RichTextOffsetUnit): number {
+  const charIndex =
+    unit === 'grapheme' ? graphemeIndexToCharIndex(map.text, offset) : map.byteToCharIndex(offset)
+  return map.charToByteIndex(charIndex)
+}
+
+/** The bytes `byteStart`–`byteEnd` of `record`, keeping only the facets entirely inside */
+function sliceBytes(
+  record: RichTextRecord,
+  map: Utf8IndexMap,
+  byteStart: number,
+  byteEnd: number,
+): RichTextRecord {
+  const facets = (record.facets ?? [])
+    .filter(({ index }) => index.byteStart >= byteStart && index.byteEnd <= byteEnd)
+    .map((facet) => shiftFacet(facet, -byteStart))
+  return withFacets(map.slice(byteStart, byteEnd), facets)
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * The part of `record` from `start` up to (not including) `end`, with the
+ * facets that lie entirely inside it re-based onto the new text. Offsets are
+ * clamped to the text; `end` defaults to the end of the text.
+ *
+ * @example
+ * // Truncate for a preview
+ * sliceRichText(post, 0, 100, { unit: 'grapheme' })
+ */
+export function sliceRichText(
+  record: RichTextRecord,
+  start: number,
+  end?: number,
+  { unit = 'byte' }: RichTextOffsetOptions = {},
+): RichTextRecord {
+  const map = createUtf8IndexMap(record.text)
+  const byteStart = toByteOffset(map, start, unit)
+  const byteEnd = end === undefined ? map.byteLength : toByteOffset(map, end, unit)
+  return sliceBytes(record, map, byteStart, Math.max(byteStart, byteEnd))
+}
+
+/**
+ * Join records (or plain strings) into one, shifting the facets of each
+ * part past the text before it.
+ *
+ * @example
+ * concatRichText('RT ', { text: '@alice.bsky.social', facets: [mention] }, ': ', post)
+ */
+export function concatRichText(...parts: RichTextFragment[]): RichTextRecord {
+  let text = ''
+  let bytes = 0
+  const facets: Facet[] = []
+
+  for (const part of parts.map(toRecord)) {
+    for (const facet of part.facets ?? []) facets.push(shiftFacet(facet, bytes))
+    text += part.text
+    bytes += utf8ByteLength(part.text)
+  }
+
+  return withFacets(text, facets)
+}
+
+/**
+ * Replace the text from `start` up to `end` with `fragment`. Facets after
+ * the range are shifted; facets overlapping it are dropped.
+ *
+ * @example
+ * // Replace the selection reported by the editor
+ * const { byteStart, byteEnd } = editorRef.current.getSelection()
+ * replaceRange(record, byteStart, byteEnd, 'new text')
+ */
+export function replaceRange(
+  record: RichTextRecord,
+  start: number,
+  end: number,
+  fragment: RichTextFragment,
+  { unit = 'byte' }: RichTextOffsetOptions = {},
+): RichTextRecord {
+  const map = createUtf8IndexMap(record.text)
+  const byteStart = toByteOffset(map, start, unit)
+  const byteEnd = Math.max(byteStart, toByteOffset(map, end, unit))
+  return concatRichText(
+    sliceBytes(record, map, 0, byteStart),
+    fragment,
+    sliceBytes(record, map, byteEnd, map.byteLength),
+  )
+}
+
+/**
+ * Insert `fragment` at offset `at`. Facets after it are shifted; a facet
+ * that `at` falls strictly inside is dropped.
+ *
+ * @example
+ * insertRichText({ text: 'Hello world' }, 6, 'big ')
+ * // => { text: 'Hello big world' }
+ */
+export function insertRichText(
+  record: RichTextRecord,
+  at: number,
+  fragment: RichTextFragment,
+  options?: RichTextOffsetOptions,
+): RichTextRecord {
+  return replaceRange(record, at, at, fragment, options)
+}
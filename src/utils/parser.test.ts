@@ -1,5 +1,5 @@
-import { describe, it, expect } from 'vitest'
-import { parseRichText } from './parser'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { parseRichText, segmentsToRichText, type InvalidFacet } from './parser'
 import type { RichTextRecord } from '../types/facets'
 
 describe('parseRichText', () => {
@@ -39,6 +39,7 @@ describe('parseRichText', () => {
     expect(segments[1]).toEqual({
       text: '@alice.bsky.social',
       feature: { $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:alice' },
+      features: [{ $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:alice' }],
     })
     expect(segments[2]).toEqual({ text: '!' })
   })
@@ -127,6 +128,38 @@ describe('parseRichText', () => {
     expect(segments[3]?.text).toBe('#bsky')
   })
 
+  it('exposes every feature of a multi-feature facet', () => {
+    const text = 'Read #atproto docs'
+    const link = { $type: 'app.bsky.richtext.facet#link' as const, uri: 'https://atproto.com' }
+    const tag = { $type: 'app.bsky.richtext.facet#tag' as const, tag: 'atproto' }
+
+    const segments = parseRichText({
+      text,
+      facets: [{ index: { byteStart: 5, byteEnd: 13 }, features: [link, tag] }],
+    })
+
+    expect(segments[1]).toEqual({ text: '#atproto', feature: link, features: [link, tag] })
+  })
+
+  it('carries custom feature types through unchanged', () => {
+    const bold = { $type: 'com.example.richtext.facet#bold' }
+    const segments = parseRichText({
+      text: 'Hello world',
+      facets: [{ index: { byteStart: 0, byteEnd: 5 }, features: [bold] }],
+    })
+
+    expect(segments[0]).toEqual({ text: 'Hello', feature: bold, features: [bold] })
+  })
+
+  it('leaves facets with no features as plain segments', () => {
+    const segments = parseRichText({
+      text: 'Hello world',
+      facets: [{ index: { byteStart: 0, byteEnd: 5 }, features: [] }],
+    })
+
+    expect(segments).toEqual([{ text: 'Hello' }, { text: ' world' }])
+  })
+
   it('handles multibyte (emoji) characters correctly', () => {
     // 🎉 is 4 bytes in UTF-8
     const text = '🎉 Cool!'
@@ -166,4 +199,175 @@ describe('parseRichText', () => {
     const segments = parseRichText(record)
     expect(segments).toEqual([{ text: 'Hi' }])
   })
+
+  describe('overlapping facets', () => {
+    // "Hello @alice.test!" with a link covering "@alice" and a tag covering "alice.test"
+    const link = { $type: 'app.bsky.richtext.facet#link' as const, uri: 'https://a.test' }
+    const tag = { $type: 'app.bsky.richtext.facet#tag' as const, tag: 'alice' }
+    const record: RichTextRecord = {
+      text: 'Hello @alice.test!',
+      facets: [
+        { index: { byteStart: 6, byteEnd: 12 }, features: [link] },
+        { index: { byteStart: 7, byteEnd: 17 }, features: [tag] },
+      ],
+    }
+
+    it('skips and reports overlapping facets by default', () => {
+      const onInvalidFacet = vi.fn()
+      const segments = parseRichText(record, { onInvalidFacet })
+
+      expect(segments.map((s) => s.text)).toEqual(['Hello ', '@alice', '.test!'])
+      expect(onInvalidFacet).toHaveBeenCalledOnce()
+      expect(onInvalidFacet).toHaveBeenCalledWith({
+        facet: record.facets?.[1],
+        index: 1,
+        reason: 'overlapping',
+      })
+    })
+
+    it('splits overlapping facets into segments carrying every feature', () => {
+      const onInvalidFacet = vi.fn()
+      const segments = parseRichText(record, { overlappingFacets: 'split', onInvalidFacet })
+
+      expect(segments).toEqual([
+        { text: 'Hello ' },
+        { text: '@', feature: link, features: [link] },
+        { text: 'alice', feature: link, features: [link, tag] },
+        { text: '.test', feature: tag, features: [tag] },
+        { text: '!' },
+      ])
+      expect(onInvalidFacet).not.toHaveBeenCalled()
+    })
+
+    it('splits nested facets around the inner range', () => {
+      const segments = parseRichText(
+        {
+          text: 'abcdef',
+          facets: [
+            { index: { byteStart: 0, byteEnd: 6 }, features: [link] },
+            { index: { byteStart: 2, byteEnd: 4 }, features: [tag] },
+          ],
+        },
+        { overlappingFacets: 'split' },
+      )
+
+      expect(segments.map((s) => [s.text, s.features?.length])).toEqual([
+        ['ab', 1],
+        ['cd', 2],
+        ['ef', 1],
+      ])
+    })
+  })
+
+  it('reports every kind of invalid facet with its index', () => {
+    const tag = { $type: 'app.bsky.richtext.facet#tag' as const, tag: 'x' }
+    const onInvalidFacet = vi.fn<(invalid: InvalidFacet) => void>()
+
+    // "a🎉b" — the emoji spans bytes 1–5
+    const segments = parseRichText(
+      {
+        text: 'a🎉b',
+        facets: [
+          { index: { byteStart: 0, byteEnd: 99 }, features: [tag] },
+          { index: { byteStart: 1, byteEnd: 1 }, features: [tag] },
+          { index: { byteStart: 2, byteEnd: 5 }, features: [tag] },
+          { index: { byteStart: 1, byteEnd: 5 }, features: [tag] },
+          { index: { byteStart: 1, byteEnd: 6 }, features: [tag] },
+        ],
+      },
+      { onInvalidFacet },
+    )
+
+    expect(segments.map((s) => s.text)).toEqual(['a', '🎉', 'b'])
+    expect(onInvalidFacet.mock.calls.map(([invalid]) => [invalid.index, invalid.reason])).toEqual([
+      [0, 'out-of-bounds'],
+      [1, 'zero-length'],
+      [2, 'mid-codepoint'],
+      [4, 'overlapping'],
+    ])
+  })
+
+  describe('on long texts', () => {
+    // Patched by the test below to count the characters the parser reads, and
+    // put back after it even when it fails halfway
+    const charCodeAt = Reflect.get(String.prototype, 'charCodeAt')
+    const encode = Reflect.get(TextEncoder.prototype, 'encode')
+    const restoreBuiltIns = () => {
+      String.prototype.charCodeAt = charCodeAt
+      TextEncoder.prototype.encode = encode
+    }
+    afterEach(restoreBuiltIns)
+
+    it('scales linearly with text length and facet count', () => {
+      // Multibyte text with one tag facet per chunk
+      const chunk = 'héllo 🎉 wörld #tag '
+      const chunkBytes = new TextEncoder().encode(chunk).length
+      const tagStart = new TextEncoder().encode('héllo 🎉 wörld ').length
+
+      const makeRecord = (count: number): RichTextRecord => ({
+        text: chunk.repeat(count),
+        facets: Array.from({ length: count }, (_, i) => ({
+          index: { byteStart: i * chunkBytes + tagStart, byteEnd: i * chunkBytes + tagStart + 4 },
+          features: [{ $type: 'app.bsky.richtext.facet#tag' as const, tag: 'tag' }],
+        })),
+      })
+
+      // Characters read from the text: every charCodeAt call (the index map's
+      // single pass) plus everything handed to TextEncoder. A parser that
+      // re-scans the text for each facet reads O(n²) characters. Counted by
+      // hand rather than with spies, which would keep every call in memory.
+      const charactersRead = (record: RichTextRecord) => {
+        let read = 0
+        String.prototype.charCodeAt = function (index) {
+          read++
+          return charCodeAt.call(this, index)
+        }
+        TextEncoder.prototype.encode = function (input = '') {
+          read += input.length
+          return encode.call(this, input)
+        }
+        parseRichText(record)
+        restoreBuiltIns()
+        return read
+      }
+
+      const small = makeRecord(250)
+      const large = makeRecord(2_000)
+
+      // Plain + tag segment per chunk, plus the trailing space
+      expect(parseRichText(small)).toHaveLength(501)
+      expect(parseRichText(large)).toHaveLength(4_001)
+
+      // 8× the input: a linear parser reads 8× as many characters, a quadratic one ~64×
+      const read = charactersRead(small)
+      expect(read).toBeGreaterThan(0)
+      expect(charactersRead(large)).toBeLessThanOrEqual(8 * read + chunk.length)
+    })
+  })
+})
+
+describe('segmentsToRichText', () => {
+  it('is the inverse of parseRichText', () => {
+    const record: RichTextRecord = {
+      text: '🦋 Hello #bsky and @alice',
+      facets: [
+        {
+          index: { byteStart: 11, byteEnd: 16 },
+          features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'bsky' }],
+        },
+        {
+          index: { byteStart: 21, byteEnd: 27 },
+          features: [{ $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:alice' }],
+        },
+      ],
+    }
+    expect(segmentsToRichText(parseRichText(record))).toEqual(record)
+  })
+
+  it('omits facets for plain and empty segments', () => {
+    const tag = { $type: 'app.bsky.richtext.facet#tag' as const, tag: 'x' }
+    expect(
+      segmentsToRichText([{ text: 'a' }, { text: '', feature: tag, features: [tag] }]),
+    ).toEqual({ text: 'a' })
+  })
 })
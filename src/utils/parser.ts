@@ -1,88 +1,263 @@
 /**
  * Richtext parser — converts `{ text, facets }` into an ordered array of
- * `RichTextSegment` objects, each with their text slice and optional feature.
+ * `RichTextSegment` objects, each with their text slice and optional features.
  *
  * Algorithm:
- *  1. Sort facets by byteStart (ascending).
- *  2. Walk through the text byte-by-byte, emitting plain segments between
- *     facets and annotated segments for each facet's byte range.
- *  3. Overlapping facets are handled gracefully (skipped).
+ *  1. Build a UTF-8 ↔ UTF-16 index map for the text in a single pass.
+ *  2. Drop invalid facets (out of bounds, zero-length, mid-codepoint) and
+ *     sort the rest by byteStart (ascending).
+ *  3. Walk through the facets, emitting plain segments between them and
+ *     annotated segments for each facet's byte range. Every byte offset is
+ *     converted with an O(1) map lookup, so parsing is linear in the text
+ *     length plus the number of facets (after sorting).
+ *  4. Overlapping facets are either skipped (the default) or split into
+ *     non-overlapping segments carrying every applicable feature.
+ *
+ * Every dropped facet is reported through `onInvalidFacet`.
+ *
+ * `segmentsToRichText` is the inverse: it joins segments back into a record.
  */
 
-import type { Facet, FacetFeature, RichTextRecord, RichTextSegment } from '../types/facets'
-import { sliceByByteOffset, utf8ByteLength } from './utf8'
+import type { AnyFacetFeature, Facet, RichTextRecord, RichTextSegment } from '../types/facets'
+import { createUtf8IndexMap, utf8ByteLength, type Utf8IndexMap } from './utf8'
 
-// ─── Internal helpers ────────────────────────────────────────────────────────
+// ─── Types ───────────────────────────────────────────────────────────────────
 
 /**
- * Sort facets by their byte start position. Mutates a copy.
+ * Why a facet was dropped by `parseRichText`:
+ * - `out-of-bounds`  — `byteStart` is negative or `byteEnd` is past the end of the text
+ * - `zero-length`    — the byte range is empty (or reversed)
+ * - `mid-codepoint`  — `byteStart` or `byteEnd` falls inside a multi-byte character
+ * - `overlapping`    — the range overlaps an earlier facet (only with `overlappingFacets: 'skip'`)
  */
-function sortFacets(facets: Facet[]): Facet[] {
-  return [...facets].sort((a, b) => a.index.byteStart - b.index.byteStart)
-}
+export type InvalidFacetReason = 'out-of-bounds' | 'zero-length' | 'mid-codepoint' | 'overlapping'
 
 /**
- * Pick the "primary" feature from a facet's feature array.
- * The lexicon allows multiple features per facet, but for rendering we
- * pick the first valid one (mention > link > tag precedence is implicit
- * in the order they appear).
+ * A facet that `parseRichText` dropped, with its position in `record.facets`.
  */
-function pickFeature(features: FacetFeature[]): FacetFeature | undefined {
-  return features[0]
+export interface InvalidFacet {
+  facet: Facet
+  /** Index of the facet in the original `record.facets` array */
+  index: number
+  reason: InvalidFacetReason
 }
 
-// ─── Public API ──────────────────────────────────────────────────────────────
+export interface ParseRichTextOptions {
+  /**
+   * How facets whose byte ranges overlap are handled:
+   * - `'skip'`  — a facet starting inside an earlier facet is dropped
+   *   (and reported as `overlapping`).
+   * - `'split'` — overlapping ranges are split at every facet boundary into
+   *   non-overlapping segments, each carrying the features of every facet
+   *   that covers it (in byteStart order).
+   * @default 'skip'
+   */
+  overlappingFacets?: 'skip' | 'split'
+
+  /**
+   * Called once for every facet that is dropped, with the reason why.
+   */
+  onInvalidFacet?: (invalid: InvalidFacet) => void
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────────
 
 /**
- * Parse a `RichTextRecord` into an ordered array of segments, each
- * carrying its text and an optional facet feature.
- *
- * The segments are contiguous — joining all `segment.text` values
- * reconstructs the original `record.text` exactly.
+ * Check a facet's byte range against the text. Returns `undefined` when the
+ * facet can be rendered (overlap is checked separately).
  */
-export function parseRichText(record: RichTextRecord): RichTextSegment[] {
-  const { text, facets } = record
+function getInvalidReason(facet: Facet, indexMap: Utf8IndexMap): InvalidFacetReason | undefined {
+  const { byteStart, byteEnd } = facet.index
+  if (byteStart < 0 || byteEnd > indexMap.byteLength) return 'out-of-bounds'
+  if (byteStart >= byteEnd) return 'zero-length'
+  if (!indexMap.isCodePointBoundary(byteStart) || !indexMap.isCodePointBoundary(byteEnd)) {
+    return 'mid-codepoint'
+  }
+  return undefined
+}
 
-  if (!facets || facets.length === 0) {
-    return [{ text }]
+/**
+ * Build an annotated segment. Segments of facets without features are plain.
+ */
+function toSegment(text: string, features: AnyFacetFeature[]): RichTextSegment {
+  const segment: RichTextSegment = { text }
+  const [feature] = features
+  if (feature !== undefined) {
+    segment.feature = feature
+    segment.features = features
   }
+  return segment
+}
 
-  const textByteLength = utf8ByteLength(text)
-  const sorted = sortFacets(facets)
+/**
+ * Emit one segment per facet, skipping facets that start inside an earlier one.
+ */
+function parseSkippingOverlaps(
+  indexMap: Utf8IndexMap,
+  sorted: Array<{ facet: Facet; index: number }>,
+  onInvalidFacet: ParseRichTextOptions['onInvalidFacet'],
+): RichTextSegment[] {
   const segments: RichTextSegment[] = []
-
   let cursor = 0 // current byte position
 
-  for (const facet of sorted) {
+  for (const { facet, index } of sorted) {
     const { byteStart, byteEnd } = facet.index
 
-    // Skip malformed or out-of-bounds facets
-    if (byteStart < cursor || byteEnd > textByteLength || byteStart >= byteEnd) {
+    if (byteStart < cursor) {
+      onInvalidFacet?.({ facet, index, reason: 'overlapping' })
       continue
     }
 
     // Emit plain text segment before this facet
     if (byteStart > cursor) {
-      segments.push({
-        text: sliceByByteOffset(text, cursor, byteStart),
-      })
+      segments.push({ text: indexMap.slice(cursor, byteStart) })
     }
 
     // Emit annotated segment for this facet
-    const feature = pickFeature(facet.features)
-    const segment: RichTextSegment = { text: sliceByByteOffset(text, byteStart, byteEnd) }
-    if (feature !== undefined) segment.feature = feature
-    segments.push(segment)
-
+    segments.push(toSegment(indexMap.slice(byteStart, byteEnd), [...facet.features]))
     cursor = byteEnd
   }
 
   // Emit any trailing plain text after the last facet
-  if (cursor < textByteLength) {
-    segments.push({
-      text: sliceByByteOffset(text, cursor, textByteLength),
-    })
+  if (cursor < indexMap.byteLength) {
+    segments.push({ text: indexMap.slice(cursor, indexMap.byteLength) })
   }
 
   return segments
 }
+
+/**
+ * Split overlapping facets at every facet boundary, so each segment carries
+ * the features of all facets covering it.
+ */
+function parseSplittingOverlaps(
+  indexMap: Utf8IndexMap,
+  sorted: Array<{ facet: Facet; index: number }>,
+): RichTextSegment[] {
+  // Every facet edge is a potential segment boundary
+  const boundaries = [
+    ...new Set(sorted.flatMap(({ facet }) => [facet.index.byteStart, facet.index.byteEnd])),
+  ].sort((a, b) => a - b)
+
+  const segments: RichTextSegment[] = []
+  let cursor = 0 // current byte position
+  let next = 0 // next facet in `sorted` to become active
+  let active: Facet[] = []
+
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const from = boundaries[i] ?? 0
+    const to = boundaries[i + 1] ?? from
+
+    // Facets covering [from, to) — kept in byteStart order
+    active = active.filter((facet) => facet.index.byteEnd > from)
+    while (next < sorted.length && (sorted[next]?.facet.index.byteStart ?? Infinity) <= from) {
+      const entry = sorted[next++]
+      if (entry) active.push(entry.facet)
+    }
+    if (active.length === 0) continue
+
+    // Emit plain text segment before this range
+    if (from > cursor) {
+      segments.push({ text: indexMap.slice(cursor, from) })
+    }
+
+    segments.push(
+      toSegment(
+        indexMap.slice(from, to),
+        active.flatMap((facet) => facet.features),
+      ),
+    )
+    cursor = to
+  }
+
+  // Emit any trailing plain text after the last facet
+  if (cursor < indexMap.byteLength) {
+    segments.push({ text: indexMap.slice(cursor, indexMap.byteLength) })
+  }
+
+  return segments
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Parse a `RichTextRecord` into an ordered array of segments, each
+ * carrying its text and, for faceted spans, every feature of the facet
+ * (`features`) plus the first one on its own (`feature`).
+ *
+ * The segments are contiguous — joining all `segment.text` values
+ * reconstructs the original `record.text` exactly.
+ *
+ * Features are carried through as-is, including custom ones outside the
+ * lexicon (typed as `UnknownFacetFeature`) — it is up to the renderer to
+ * decide what to do with them.
+ *
+ * @example Split overlapping facets and log dropped ones
+ * ```ts
+ * parseRichText(record, {
+ *   overlappingFacets: 'split',
+ *   onInvalidFacet: ({ index, reason }) => console.warn(`facet ${index}: ${reason}`),
+ * })
+ * ```
+ */
+export function parseRichText(
+  record: RichTextRecord,
+  options: ParseRichTextOptions = {},
+): RichTextSegment[] {
+  const { text, facets } = record
+  const { overlappingFacets = 'skip', onInvalidFacet } = options
+
+  if (!facets || facets.length === 0) {
+    return [{ text }]
+  }
+
+  const indexMap = createUtf8IndexMap(text)
+
+  // Drop (and report) malformed facets, keeping each one's original position
+  const valid: Array<{ facet: Facet; index: number }> = []
+  facets.forEach((facet, index) => {
+    const reason = getInvalidReason(facet, indexMap)
+    if (reason !== undefined) onInvalidFacet?.({ facet, index, reason })
+    else valid.push({ facet, index })
+  })
+
+  // Array.prototype.sort is stable, so equal starts keep their facet order
+  const sorted = valid.sort((a, b) => a.facet.index.byteStart - b.facet.index.byteStart)
+
+  return overlappingFacets === 'split'
+    ? parseSplittingOverlaps(indexMap, sorted)
+    : parseSkippingOverlaps(indexMap, sorted, onInvalidFacet)
+}
+
+/**
+ * Join segments back into a `RichTextRecord` — the inverse of
+ * `parseRichText`. Every segment with features becomes one facet over its
+ * text, with byte offsets computed from the UTF-8 length of the preceding
+ * segments. Empty segments never produce a facet.
+ *
+ * @example
+ * ```ts
+ * segmentsToRichText([
+ *   { text: 'Read ' },
+ *   { text: 'the docs', features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://docs.bsky.app' }] },
+ * ])
+ * // => { text: 'Read the docs', facets: [{ index: { byteStart: 5, byteEnd: 13 }, features: [...] }] }
+ * ```
+ */
+export function segmentsToRichText(segments: RichTextSegment[]): RichTextRecord {
+  let text = ''
+  let cursor = 0 // current byte position
+  const facets: Facet[] = []
+
+  for (const segment of segments) {
+    const byteLength = utf8ByteLength(segment.text)
+    const features = segment.features ?? (segment.feature ? [segment.feature] : [])
+    if (features.length > 0 && byteLength > 0) {
+      facets.push({ index: { byteStart: cursor, byteEnd: cursor + byteLength }, features })
+    }
+    text += segment.text
+    cursor += byteLength
+  }
+
+  return facets.length > 0 ? { text, facets } : { text }
+}
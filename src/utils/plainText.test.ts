@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { richTextToPlainText } from './plainText'
+import type { RichTextRecord } from '../types/facets'
+import { facetFor } from '../test/facets'
+
+const text = 'Hi @alice.bsky.social, see example.com/a/very/lo… #atproto'
+const record: RichTextRecord = {
+  text,
+  facets: [
+    facetFor(text, '@alice.bsky.social', {
+      $type: 'app.bsky.richtext.facet#mention',
+      did: 'did:plc:alice',
+    }),
+    facetFor(text, 'example.com/a/very/lo…', {
+      $type: 'app.bsky.richtext.facet#link',
+      uri: 'https://example.com/a/very/long/path',
+    }),
+    facetFor(text, '#atproto', { $type: 'app.bsky.richtext.facet#tag', tag: 'atproto' }),
+  ],
+}
+
+describe('richTextToPlainText', () => {
+  it('expands shortened links by default', () => {
+    expect(richTextToPlainText(record)).toBe(
+      'Hi @alice.bsky.social, see https://example.com/a/very/long/path #atproto',
+    )
+    expect(richTextToPlainText(record, { expandLinks: false })).toBe(text)
+  })
+
+  it('formats mentions', () => {
+    const expand = { expandLinks: false }
+    expect(richTextToPlainText(record, { ...expand, mentionFormat: 'handle' })).toMatch(
+      /^Hi alice\.bsky\.social,/,
+    )
+    expect(richTextToPlainText(record, { ...expand, mentionFormat: 'did' })).toMatch(
+      /^Hi did:plc:alice,/,
+    )
+    expect(
+      richTextToPlainText(record, {
+        ...expand,
+        mentionFormat: ({ handle }) => `mention of ${handle}`,
+      }),
+    ).toMatch(/^Hi mention of alice\.bsky\.social,/)
+  })
+
+  it('accepts plain strings', () => {
+    expect(richTextToPlainText('Hello')).toBe('Hello')
+  })
+
+  it('writes an expanded link once when split by an overlapping facet', () => {
+    const split = 'see bsky.app/x'
+    const splitRecord: RichTextRecord = {
+      text: split,
+      facets: [
+        facetFor(split, 'bsky.app/x', {
+          $type: 'app.bsky.richtext.facet#link',
+          uri: 'https://bsky.app/x',
+        }),
+        facetFor(split, 'app/x', { $type: 'app.bsky.richtext.facet#tag', tag: 'app' }),
+      ],
+    }
+    expect(richTextToPlainText(splitRecord, { overlappingFacets: 'split' })).toBe(
+      'see https://bsky.app/x',
+    )
+  })
+
+  it('writes an expanded link once when an overlapping tag takes precedence inside it', () => {
+    const split = 'see bsky.app/x'
+    const splitRecord: RichTextRecord = {
+      text: split,
+      facets: [
+        facetFor(split, 'bsky.app/x', {
+          $type: 'app.bsky.richtext.facet#link',
+          uri: 'https://bsky.app/x',
+        }),
+        facetFor(split, 'app', { $type: 'app.bsky.richtext.facet#tag', tag: 'app' }),
+      ],
+    }
+    expect(
+      richTextToPlainText(splitRecord, {
+        overlappingFacets: 'split',
+        featurePrecedence: ['app.bsky.richtext.facet#tag'],
+      }),
+    ).toBe('see https://bsky.app/x')
+  })
+})
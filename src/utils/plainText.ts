@@ -0,0 +1,139 @@
+/**
+ * Plain-text transcript of a richtext record — for screen readers,
+ * notifications, `<title>`s and other contexts that cannot show markup.
+ *
+ * Built on `parseRichText`: link segments can be expanded to their full URI
+ * (post text often holds a shortened form) and mentions re-formatted. Tags and
+ * plain text are kept as they are.
+ */
+
+import type { AnyFacetFeature, Facet, RichTextRecord } from '../types/facets'
+import { isKnownFeature, isMentionFeature, isLinkFeature } from '../types/facets'
+import { parseRichText, type ParseRichTextOptions } from './parser'
+import { mentionHandle, orderFeatures } from './features'
+import { utf8ByteLength } from './utf8'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/**
+ * How mentions are written by `richTextToPlainText`:
+ * - `'text'`   — the text as it appears in the post (e.g. "@alice.bsky.social")
+ * - `'handle'` — the handle without "@" (e.g. "alice.bsky.social")
+ * - `'did'`    — the mentioned account's DID
+ * - a function — called with the mention text, handle and DID
+ */
+export type MentionFormat =
+  | 'text'
+  | 'handle'
+  | 'did'
+  | ((mention: { text: string; handle: string; did: string }) => string)
+
+export interface RichTextToPlainTextOptions extends ParseRichTextOptions {
+  /**
+   * Replace the (possibly shortened) text of every link with its full URI.
+   * @default true
+   */
+  expandLinks?: boolean
+
+  /**
+   * How mentions are written.
+   * @default 'text'
+   *
+   * @example Announce mentions
+   * ```ts
+   * mentionFormat: ({ handle }) => `mention of ${handle}`
+   * ```
+   */
+  mentionFormat?: MentionFormat
+
+  /**
+   * Order in which the features of a multi-feature facet are considered.
+   * Mirrors `RichTextDisplay`'s `featurePrecedence`.
+   * @default facet order
+   */
+  featurePrecedence?: Array<AnyFacetFeature['$type']>
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Flatten a `RichTextRecord` into a plain string, expanding shortened links
+ * to their full URI and formatting mentions as requested.
+ *
+ * @example
+ * ```ts
+ * richTextToPlainText(post.record)
+ * // => 'Hi @alice.bsky.social, see https://example.com/a/very/long/path'
+ *
+ * richTextToPlainText(post.record, { mentionFormat: ({ handle }) => `mention of ${handle}` })
+ * // => 'Hi mention of alice.bsky.social, see https://example.com/a/very/long/path'
+ * ```
+ */
+export function richTextToPlainText(
+  record: RichTextRecord | string,
+  options: RichTextToPlainTextOptions = {},
+): string {
+  const {
+    expandLinks = true,
+    mentionFormat = 'text',
+    featurePrecedence,
+    overlappingFacets,
+    onInvalidFacet,
+  } = options
+
+  const parsed = typeof record === 'string' ? { text: record } : record
+  const segments = parseRichText(parsed, {
+    ...(overlappingFacets !== undefined ? { overlappingFacets } : {}),
+    ...(onInvalidFacet !== undefined ? { onInvalidFacet } : {}),
+  })
+
+  // With overlappingFacets: 'split' one facet can span several segments, not
+  // necessarily adjacent ones. Its replacement stands for its whole range: it
+  // is written for the first of them, and the rest of the range is dropped.
+  // Segments and facets are matched in one sweep over both, by byte offset.
+  const facets = (parsed.facets ?? []).slice().sort((a, b) => a.index.byteStart - b.index.byteStart)
+  const replaced = new Set<Facet>()
+  let active: Facet[] = []
+  let next = 0
+  let byteStart = 0
+
+  return segments
+    .map((segment) => {
+      const { text } = segment
+      const features = segment.features ?? (segment.feature ? [segment.feature] : [])
+      const byteEnd = byteStart + utf8ByteLength(text)
+
+      // The facets this segment was cut from
+      active = active.filter((facet) => facet.index.byteEnd > byteStart)
+      for (let facet = facets[next]; facet && facet.index.byteStart <= byteStart; ) {
+        active.push(facet)
+        facet = facets[++next]
+      }
+      const covering = active.filter(
+        ({ index, features: facetFeatures }) =>
+          byteEnd <= index.byteEnd && facetFeatures.some((feature) => features.includes(feature)),
+      )
+      byteStart = byteEnd
+
+      if (covering.some((facet) => replaced.has(facet))) return ''
+
+      const feature = orderFeatures(features, featurePrecedence).find(isKnownFeature)
+      const facet = feature && covering.find((f) => f.features.includes(feature))
+
+      if (feature && isLinkFeature(feature) && expandLinks) {
+        if (facet) replaced.add(facet)
+        return feature.uri
+      }
+
+      if (feature && isMentionFeature(feature) && mentionFormat !== 'text') {
+        if (facet) replaced.add(facet)
+        const { did } = feature
+        const handle = mentionHandle(text)
+        if (typeof mentionFormat === 'function') return mentionFormat({ text, handle, did })
+        return mentionFormat === 'handle' ? handle : did
+      }
+
+      return text
+    })
+    .join('')
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from 'vitest'
+import { renderToStaticMarkup } from 'react-dom/server'
+import { renderRichTextToHTML, type RenderRichTextToHTMLOptions } from './renderHTML'
+import { RichTextDisplay } from '../components/RichTextDisplay'
+import type { FacetFeature, RichTextRecord } from '../types/facets'
+import { facetFor } from '../test/facets'
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function expectSameAsDisplay(
+  value: RichTextRecord | string,
+  options: RenderRichTextToHTMLOptions = {},
+) {
+  const html = renderRichTextToHTML(value, options)
+  expect(html).toBe(renderToStaticMarkup(<RichTextDisplay value={value} {...options} />))
+  return html
+}
+
+const postText =
+  'Hi @alice.bsky.social, see https://example.com/a/very/long/path/indeed #atproto 🦋'
+const post: RichTextRecord = {
+  text: postText,
+  facets: [
+    facetFor(postText, '@alice.bsky.social', {
+      $type: 'app.bsky.richtext.facet#mention',
+      did: 'did:plc:alice',
+    }),
+    facetFor(postText, 'https://example.com/a/very/long/path/indeed', {
+      $type: 'app.bsky.richtext.facet#link',
+      uri: 'https://example.com/a/very/long/path/indeed',
+    }),
+    facetFor(postText, '#atproto', { $type: 'app.bsky.richtext.facet#tag', tag: 'atproto' }),
+  ],
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe('renderRichTextToHTML', () => {
+  it('renders plain strings and records without facets', () => {
+    expect(expectSameAsDisplay('Hello world')).toBe(
+      '<span class="inline break-words">Hello world</span>',
+    )
+    expectSameAsDisplay({ text: '' })
+  })
+
+  it('renders mentions, links and tags like RichTextDisplay', () => {
+    const html = expectSameAsDisplay(post)
+    expect(html).toContain('href="https://bsky.app/profile/did:plc:alice"')
+    expect(html).toContain('href="https://bsky.app/hashtag/atproto"')
+    expect(html).toContain('example.com/a/very/long/path/i…')
+  })
+
+  it('honours URL resolvers and classNames', () => {
+    const html = expectSameAsDisplay(post, {
+      mentionUrl: (did) => `/profile/${did}`,
+      tagUrl: (tag) => `/search?tag=${encodeURIComponent(tag)}&sort=top`,
+      linkUrl: (uri) => `/out?u=${encodeURIComponent(uri)}`,
+      classNames: { root: 'post', mention: 'mention' },
+    })
+    expect(html).toContain('href="/search?tag=atproto&amp;sort=top"')
+    expect(html).toMatch(/^<span class="inline break-words post">/)
+  })
+
+  it('escapes text and attribute values', () => {
+    const text = `<b>"Tom" & 'Jerry'</b> #<i>`
+    const html = expectSameAsDisplay({
+      text,
+      facets: [
+        facetFor(text, '#<i>', { $type: 'app.bsky.richtext.facet#tag', tag: '<i>"' }),
+        facetFor(text, '"Tom"', {
+          $type: 'app.bsky.richtext.facet#mention',
+          did: 'did:x:"><script>',
+        }),
+      ],
+    })
+    expect(html).not.toContain('<b>')
+    expect(html).not.toContain('<script>')
+    expect(html).toContain('&quot;Tom&quot;</a> &amp; &#x27;Jerry&#x27;&lt;/b&gt;')
+  })
+
+  it('adds aria labels like RichTextDisplay', () => {
+    const html = expectSameAsDisplay(post, { aria: true })
+    expect(html).toContain('aria-label="mention of alice.bsky.social"')
+    expect(html).toContain('aria-label="https://example.com/a/very/long/path/indeed"')
+  })
+
+  it('neutralises javascript: URLs like React', () => {
+    const text = 'click me'
+    const html = expectSameAsDisplay({
+      text,
+      facets: [
+        facetFor(text, 'click', {
+          $type: 'app.bsky.richtext.facet#link',
+          uri: ' JaVa\tScript:alert(1)',
+        }),
+      ],
+    })
+    expect(html).not.toContain('alert(1)')
+  })
+
+  it('supports disableLinks, featurePrecedence and featureComposition', () => {
+    const text = 'see #bsky.app'
+    const record: RichTextRecord = {
+      text,
+      facets: [
+        facetFor(
+          text,
+          '#bsky.app',
+          { $type: 'app.bsky.richtext.facet#link', uri: 'https://bsky.app' },
+          { $type: 'app.bsky.richtext.facet#tag', tag: 'bsky.app' },
+          { $type: 'com.example.unknown' } as unknown as FacetFeature,
+        ),
+      ],
+    }
+
+    expect(expectSameAsDisplay(record, { disableLinks: true })).not.toContain('<a')
+    expectSameAsDisplay(record, { featurePrecedence: ['app.bsky.richtext.facet#tag'] })
+    expectSameAsDisplay(record, { featureComposition: 'nest' })
+  })
+
+  it('passes overlappingFacets and onInvalidFacet to the parser', () => {
+    const text = 'overlapping facets'
+    const record: RichTextRecord = {
+      text,
+      facets: [
+        facetFor(text, 'overlapping', { $type: 'app.bsky.richtext.facet#tag', tag: 'a' }),
+        facetFor(text, 'lapping facets', { $type: 'app.bsky.richtext.facet#tag', tag: 'b' }),
+      ],
+    }
+    const onInvalidFacet = vi.fn()
+
+    renderRichTextToHTML(record, { onInvalidFacet })
+    expect(onInvalidFacet).toHaveBeenCalledWith(expect.objectContaining({ reason: 'overlapping' }))
+
+    expectSameAsDisplay(record, { overlappingFacets: 'split' })
+  })
+})
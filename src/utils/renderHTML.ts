@@ -0,0 +1,298 @@
+/**
+ * Server-side HTML renderer for richtext — turns a `RichTextRecord` into an
+ * HTML string without React.
+ *
+ * The output is identical to what `RichTextDisplay` (with its default
+ * renderers) produces through `renderToStaticMarkup` from `react-dom/server`:
+ * same elements, attribute order, class names and escaping. That makes it
+ * safe to render on the server with this function and hydrate or re-render
+ * on the client with the component.
+ *
+ * React-only options — the `render*` props, `linkProps` and `featureRegistry`
+ * — have no string equivalent and are not supported.
+ */
+
+import type { RichTextRecord, AnyFacetFeature } from '../types/facets'
+import { isKnownFeature, isMentionFeature, isLinkFeature, isTagFeature } from '../types/facets'
+import type { DisplayClassNames } from '../types/classNames'
+import { defaultDisplayClassNames } from '../defaults/classNames'
+import { generateClassNames } from './classNames'
+import { parseRichText, type ParseRichTextOptions } from './parser'
+import {
+  defaultMentionUrl,
+  defaultTagUrl,
+  linkAriaLabel,
+  mentionAriaLabel,
+  orderFeatures,
+} from './features'
+import { toShortUrl } from './url'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface RenderRichTextToHTMLOptions extends ParseRichTextOptions {
+  /**
+   * CSS class names for each part of the output, merged with
+   * `defaultDisplayClassNames` exactly like `RichTextDisplay`'s `classNames`.
+   */
+  classNames?: Partial<DisplayClassNames>
+
+  /**
+   * Generate the `href` for @mention anchors.
+   * @default (did) => `https://bsky.app/profile/${did}`
+   */
+  mentionUrl?: (did: string) => string
+
+  /**
+   * Generate the `href` for #hashtag anchors.
+   * @default (tag) => `https://bsky.app/hashtag/${encodeURIComponent(tag)}`
+   */
+  tagUrl?: (tag: string) => string
+
+  /**
+   * Transform a link URI before it is used as the anchor's `href`.
+   * @default (uri) => uri
+   */
+  linkUrl?: (uri: string) => string
+
+  /**
+   * Order in which the features of a multi-feature facet are considered.
+   * See `RichTextDisplay`'s `featurePrecedence`.
+   */
+  featurePrecedence?: Array<AnyFacetFeature['$type']>
+
+  /**
+   * How a facet with several features is rendered — `'first'` or `'nest'`.
+   * See `RichTextDisplay`'s `featureComposition`.
+   * @default 'first'
+   */
+  featureComposition?: 'first' | 'nest'
+
+  /**
+   * When true, mentions, links and tags are rendered as plain text.
+   * @default false
+   */
+  disableLinks?: boolean
+
+  /**
+   * Add `aria-label`s to mention anchors and shortened links.
+   * See `RichTextDisplay`'s `aria`.
+   * @default false
+   */
+  aria?: boolean
+}
+
+// ─── Escaping ────────────────────────────────────────────────────────────────
+
+/** Characters escaped in text and attribute values — mirrors react-dom/server */
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#x27;',
+}
+
+/**
+ * `javascript:` URLs, allowing the leading control characters and embedded
+ * tabs/newlines that browsers ignore — mirrors React's `sanitizeURL`.
+ */
+const JAVASCRIPT_URL_REGEX =
+  // eslint-disable-next-line no-control-regex
+  /^[\u0000-\u001F ]*j[\r\n\t]*a[\r\n\t]*v[\r\n\t]*a[\r\n\t]*s[\r\n\t]*c[\r\n\t]*r[\r\n\t]*i[\r\n\t]*p[\r\n\t]*t[\r\n\t]*:/i
+
+/** What React substitutes for a blocked `javascript:` URL */
+const BLOCKED_JAVASCRIPT_URL =
+  "javascript:throw new Error('React has blocked a javascript: URL as a security precaution.')"
+
+function escapeHTML(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char] ?? char)
+}
+
+function sanitizeHref(href: string): string {
+  return JAVASCRIPT_URL_REGEX.test(href) ? BLOCKED_JAVASCRIPT_URL : href
+}
+
+/**
+ * Serialize an element. Attributes are written in the given order and those
+ * whose value is `undefined` are omitted, like React does. `content` must
+ * already be escaped.
+ */
+function renderElement(
+  tag: 'a' | 'span',
+  attributes: Array<[name: string, value: string | undefined]>,
+  content: string,
+): string {
+  const attrs = attributes
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeHTML(value)}"`)
+    .join('')
+  return `<${tag}${attrs}>${content}</${tag}>`
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Render a `RichTextRecord` to an HTML string — for server-side rendering,
+ * emails, RSS feeds or anywhere React is not available.
+ *
+ * Every piece of text and every attribute is HTML-escaped, and `javascript:`
+ * hrefs are neutralised the same way React does. The result is byte-for-byte
+ * what `renderToStaticMarkup(<RichTextDisplay value={record} {...options} />)`
+ * returns.
+ *
+ * @example
+ * ```ts
+ * const html = renderRichTextToHTML(post.record, {
+ *   mentionUrl: (did) => `/profile/${did}`,
+ *   tagUrl: (tag) => `/search?tag=${encodeURIComponent(tag)}`,
+ *   classNames: { root: 'post-text' },
+ * })
+ * ```
+ */
+export function renderRichTextToHTML(
+  record: RichTextRecord | string,
+  options: RenderRichTextToHTMLOptions = {},
+): string {
+  const {
+    classNames,
+    mentionUrl,
+    tagUrl,
+    linkUrl,
+    featurePrecedence,
+    featureComposition = 'first',
+    disableLinks = false,
+    aria = false,
+    overlappingFacets,
+    onInvalidFacet,
+  } = options
+
+  const cn = generateClassNames([defaultDisplayClassNames, classNames])
+  const segments = parseRichText(typeof record === 'string' ? { text: record } : record, {
+    ...(overlappingFacets !== undefined ? { overlappingFacets } : {}),
+    ...(onInvalidFacet !== undefined ? { onInvalidFacet } : {}),
+  })
+
+  /**
+   * Render a single feature, mirroring `RichTextDisplay`'s default renderers.
+   * `inner` is the HTML of the features nested inside this one, and `nested`
+   * is true when this feature is itself rendered inside another one.
+   * Returns `undefined` for unknown feature types.
+   */
+  const renderFeature = (
+    feature: AnyFacetFeature,
+    text: string,
+    inner: string | undefined,
+    nested: boolean,
+  ): string | undefined => {
+    const anchorAttributes: Array<[string, string]> = [
+      ['target', '_blank'],
+      ['rel', 'noopener noreferrer'],
+    ]
+
+    if (isMentionFeature(feature)) {
+      const content = inner ?? escapeHTML(text)
+      if (nested) {
+        return renderElement(
+          'span',
+          [
+            ['class', cn.mention],
+            ['data-did', feature.did],
+          ],
+          content,
+        )
+      }
+      const href = mentionUrl?.(feature.did) ?? defaultMentionUrl(feature.did)
+      return renderElement(
+        'a',
+        [
+          ['href', sanitizeHref(href)],
+          ['class', cn.mention],
+          ...anchorAttributes,
+          ['data-did', feature.did],
+          ['aria-label', aria ? mentionAriaLabel(text) : undefined],
+        ],
+        content,
+      )
+    }
+
+    if (isLinkFeature(feature)) {
+      const shortText = toShortUrl(text)
+      const content = inner ?? escapeHTML(shortText)
+      if (nested) {
+        return renderElement('span', [['class', cn.link]], content)
+      }
+      const href = linkUrl?.(feature.uri) ?? feature.uri
+      return renderElement(
+        'a',
+        [
+          ['href', sanitizeHref(href)],
+          ['class', cn.link],
+          ...anchorAttributes,
+          ['aria-label', aria ? linkAriaLabel(shortText, feature.uri) : undefined],
+        ],
+        content,
+      )
+    }
+
+    if (isTagFeature(feature)) {
+      const content = inner ?? escapeHTML(text)
+      if (nested) {
+        return renderElement(
+          'span',
+          [
+            ['class', cn.tag],
+            ['data-tag', feature.tag],
+          ],
+          content,
+        )
+      }
+      const href = tagUrl?.(feature.tag) ?? defaultTagUrl(feature.tag)
+      return renderElement(
+        'a',
+        [
+          ['href', sanitizeHref(href)],
+          ['class', cn.tag],
+          ...anchorAttributes,
+          ['data-tag', feature.tag],
+        ],
+        content,
+      )
+    }
+
+    return undefined
+  }
+
+  const content = segments
+    .map((segment) => {
+      const { text } = segment
+      const features = orderFeatures(
+        segment.features ?? (segment.feature ? [segment.feature] : []),
+        featurePrecedence,
+      )
+
+      if (features.length === 0 || disableLinks) {
+        return escapeHTML(text)
+      }
+
+      if (featureComposition === 'nest') {
+        // Build from the innermost feature outwards; unknown types are skipped
+        const known = features.filter(isKnownFeature)
+        let html: string | undefined
+        for (let i = known.length - 1; i >= 0; i--) {
+          const feature = known[i]
+          if (feature) html = renderFeature(feature, text, html, i > 0)
+        }
+        return html ?? escapeHTML(text)
+      }
+
+      // 'first' — render the highest-precedence feature of a known type
+      for (const feature of features) {
+        const rendered = renderFeature(feature, text, undefined, false)
+        if (rendered !== undefined) return rendered
+      }
+      return escapeHTML(text)
+    })
+    .join('')
+
+  return renderElement('span', [['class', cn.root]], content)
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest'
+import { resolveMentionFacets } from './resolveMentions'
+import type { RichTextRecord } from '../types/facets'
+
+const MENTION = 'app.bsky.richtext.facet#mention' as const
+const LINK = 'app.bsky.richtext.facet#link' as const
+
+describe('resolveMentionFacets', () => {
+  it('returns the record unchanged when there are no facets', async () => {
+    const record: RichTextRecord = { text: 'Hello world' }
+    const resolve = vi.fn()
+
+    const result = await resolveMentionFacets(record, resolve)
+
+    expect(result).toEqual({ record, unresolvedHandles: [] })
+    expect(resolve).not.toHaveBeenCalled()
+  })
+
+  it('replaces handles with resolved DIDs', async () => {
+    const record: RichTextRecord = {
+      text: 'Hi @alice.bsky.social',
+      facets: [
+        {
+          index: { byteStart: 3, byteEnd: 21 },
+          features: [{ $type: MENTION, did: 'alice.bsky.social' }],
+        },
+      ],
+    }
+
+    const result = await resolveMentionFacets(record, () => Promise.resolve('did:plc:alice'))
+
+    expect(result.unresolvedHandles).toEqual([])
+    expect(result.record.facets?.[0]?.features[0]).toEqual({ $type: MENTION, did: 'did:plc:alice' })
+    // Input is not mutated
+    expect(record.facets?.[0]?.features[0]).toEqual({ $type: MENTION, did: 'alice.bsky.social' })
+  })
+
+  it('leaves existing DIDs and non-mention features alone', async () => {
+    const record: RichTextRecord = {
+      text: '@alice https://bsky.app',
+      facets: [
+        { index: { byteStart: 0, byteEnd: 6 }, features: [{ $type: MENTION, did: 'did:plc:a' }] },
+        {
+          index: { byteStart: 7, byteEnd: 23 },
+          features: [{ $type: LINK, uri: 'https://bsky.app' }],
+        },
+      ],
+    }
+    const resolve = vi.fn()
+
+    const result = await resolveMentionFacets(record, resolve)
+
+    expect(result.record).toEqual(record)
+    expect(resolve).not.toHaveBeenCalled()
+  })
+
+  it('drops unresolvable mentions and reports their handles once', async () => {
+    const record: RichTextRecord = {
+      text: '@ghost.test @ghost.test @bob.test',
+      facets: [
+        { index: { byteStart: 0, byteEnd: 11 }, features: [{ $type: MENTION, did: 'ghost.test' }] },
+        {
+          index: { byteStart: 12, byteEnd: 23 },
+          features: [{ $type: MENTION, did: 'ghost.test' }],
+        },
+        { index: { byteStart: 24, byteEnd: 33 }, features: [{ $type: MENTION, did: 'bob.test' }] },
+      ],
+    }
+    const resolve = vi.fn((handle: string) =>
+      handle === 'bob.test' ? Promise.resolve('did:plc:bob') : Promise.resolve(undefined),
+    )
+
+    const result = await resolveMentionFacets(record, resolve)
+
+    expect(resolve).toHaveBeenCalledTimes(2)
+    expect(result.unresolvedHandles).toEqual(['ghost.test'])
+    expect(result.record.facets).toEqual([
+      { index: { byteStart: 24, byteEnd: 33 }, features: [{ $type: MENTION, did: 'did:plc:bob' }] },
+    ])
+  })
+
+  it('treats a throwing resolver as unresolved', async () => {
+    const record: RichTextRecord = {
+      text: '@alice.test',
+      facets: [
+        { index: { byteStart: 0, byteEnd: 11 }, features: [{ $type: MENTION, did: 'alice.test' }] },
+      ],
+    }
+
+    const result = await resolveMentionFacets(record, () => Promise.reject(new Error('offline')))
+
+    expect(result.record).toEqual({ text: '@alice.test' })
+    expect(result.unresolvedHandles).toEqual(['alice.test'])
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * Mention resolution — replace handle placeholders in mention facets with DIDs.
+ *
+ * `detectFacetsWithoutResolution()` from @atproto/api emits mention facets
+ * whose `did` field actually holds the handle that was typed. The lexicon
+ * requires a real DID there, so before a record can be posted every mention
+ * must be resolved (or dropped). This mirrors what `RichText.detectFacets(agent)`
+ * does, but with a pluggable resolver instead of an authenticated agent.
+ */
+
+import type { Facet, RichTextRecord } from '../types/facets'
+import { isMentionFeature } from '../types/facets'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/**
+ * Result of `resolveMentionFacets`.
+ */
+export interface ResolvedRichText {
+  /** The record with every remaining mention facet carrying a real DID */
+  record: RichTextRecord
+  /** Handles that could not be resolved — their mention facets were dropped */
+  unresolvedHandles: string[]
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Resolve every mention facet in `record` whose `did` is not yet a DID.
+ *
+ * - Mentions that already carry a `did:` identifier are left untouched.
+ * - Each distinct handle is resolved once, in parallel.
+ * - Mentions whose handle resolves to `undefined` (or whose resolver throws)
+ *   are removed from the facet and reported in `unresolvedHandles`. A facet
+ *   left with no features is removed entirely.
+ *
+ * The input record is never mutated.
+ *
+ * @example
+ * ```ts
+ * const { record, unresolvedHandles } = await resolveMentionFacets(draft, resolveBskyHandle)
+ * ```
+ */
+export async function resolveMentionFacets(
+  record: RichTextRecord,
+  resolveHandle: (handle: string) => Promise<string | undefined>,
+): Promise<ResolvedRichText> {
+  const { facets } = record
+
+  if (!facets?.length) {
+    return { record, unresolvedHandles: [] }
+  }
+
+  // Collect the distinct handles that still need resolving
+  const handles = new Set<string>()
+  for (const facet of facets) {
+    for (const feature of facet.features) {
+      if (isMentionFeature(feature) && !feature.did.startsWith('did:')) {
+        handles.add(feature.did)
+      }
+    }
+  }
+
+  if (handles.size === 0) {
+    return { record, unresolvedHandles: [] }
+  }
+
+  const resolved = new Map<string, string | undefined>()
+  await Promise.all(
+    [...handles].map(async (handle) => {
+      try {
+        resolved.set(handle, await resolveHandle(handle))
+      } catch {
+        resolved.set(handle, undefined)
+      }
+    }),
+  )
+
+  const unresolvedHandles: string[] = []
+  const nextFacets: Facet[] = []
+
+  for (const facet of facets) {
+    const features: Facet['features'] = []
+
+    for (const feature of facet.features) {
+      if (!isMentionFeature(feature) || feature.did.startsWith('did:')) {
+        features.push(feature)
+        continue
+      }
+
+      const did = resolved.get(feature.did)
+      if (did) {
+        features.push({ ...feature, did })
+      } else if (!unresolvedHandles.includes(feature.did)) {
+        unresolvedHandles.push(feature.did)
+      }
+    }
+
+    if (features.length > 0) {
+      nextFacets.push({ ...facet, features })
+    }
+  }
+
+  return {
+    record: {
+      text: record.text,
+      ...(nextFacets.length ? { facets: nextFacets } : {}),
+    },
+    unresolvedHandles,
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import { splitOverflow, splitRichTextIntoThread } from './thread'
+import { graphemeLength } from './graphemes'
+import { sliceByByteOffset } from './utf8'
+import type { RichTextRecord } from '../types/facets'
+
+const lengths = (posts: RichTextRecord[]) => posts.map((post) => graphemeLength(post.text))
+
+describe('splitRichTextIntoThread', () => {
+  it('returns a record that fits unchanged', () => {
+    const record = { text: 'Short post' }
+    expect(splitRichTextIntoThread(record, { maxGraphemes: 20, numbering: true })).toEqual([record])
+  })
+
+  it('prefers sentence ends in the second half of a post', () => {
+    const posts = splitRichTextIntoThread(
+      { text: 'Hi. This is the first thought. And here comes another one.' },
+      { maxGraphemes: 40 },
+    )
+    expect(posts.map((post) => post.text)).toEqual([
+      'Hi. This is the first thought.',
+      'And here comes another one.',
+    ])
+  })
+
+  it('prefers paragraph breaks over sentence ends', () => {
+    const posts = splitRichTextIntoThread(
+      { text: 'One sentence here.\nAnother. And a third.' },
+      { maxGraphemes: 32 },
+    )
+    expect(posts.map((post) => post.text)).toEqual(['One sentence here.', 'Another. And a third.'])
+  })
+
+  it('falls back to word boundaries, then to hard cuts', () => {
+    expect(
+      splitRichTextIntoThread({ text: 'alpha beta gamma delta' }, { maxGraphemes: 12 }).map(
+        (post) => post.text,
+      ),
+    ).toEqual(['alpha beta', 'gamma delta'])
+    expect(
+      splitRichTextIntoThread({ text: '👍🏽👍🏽👍🏽👍🏽👍🏽' }, { maxGraphemes: 2 }).map((post) => post.text),
+    ).toEqual(['👍🏽👍🏽', '👍🏽👍🏽', '👍🏽'])
+  })
+
+  it('keeps facets whole and re-bases them onto their post', () => {
+    // The link is bytes 4–21, "é" two bytes, the mention 25–43
+    const text = 'see https://a.com/xyz é @alice.bsky.social ok'
+    const record: RichTextRecord = {
+      text,
+      facets: [
+        {
+          index: { byteStart: 4, byteEnd: 21 },
+          features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://a.com/xyz' }],
+        },
+        {
+          index: { byteStart: 25, byteEnd: 43 },
+          features: [{ $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:alice' }],
+        },
+      ],
+    }
+    // No whitespace fits before the mention's end — it must not be cut
+    const posts = splitRichTextIntoThread(record, { maxGraphemes: 30 })
+    expect(posts.map((post) => post.text)).toEqual([
+      'see https://a.com/xyz é',
+      '@alice.bsky.social ok',
+    ])
+    const [first] = posts
+    expect(
+      first?.facets?.map(({ index }) =>
+        sliceByByteOffset(first.text, index.byteStart, index.byteEnd),
+      ),
+    ).toEqual(['https://a.com/xyz'])
+    expect(posts[1]?.facets).toEqual([
+      {
+        index: { byteStart: 0, byteEnd: 18 },
+        features: [{ $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:alice' }],
+      },
+    ])
+  })
+
+  it('cuts before a facet that spans a post boundary', () => {
+    const text = 'abcdefghij#verylongtag'
+    const posts = splitRichTextIntoThread(
+      {
+        text,
+        facets: [
+          {
+            index: { byteStart: 10, byteEnd: 22 },
+            features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'verylongtag' }],
+          },
+        ],
+      },
+      { maxGraphemes: 15 },
+    )
+    expect(posts.map((post) => post.text)).toEqual(['abcdefghij', '#verylongtag'])
+    expect(posts[1]?.facets?.[0]?.index).toEqual({ byteStart: 0, byteEnd: 12 })
+  })
+
+  it('appends numbering markers within the limit', () => {
+    const text = Array.from({ length: 40 }, (_, i) => `word${i}`).join(' ')
+    const posts = splitRichTextIntoThread({ text }, { maxGraphemes: 30, numbering: true })
+    expect(posts.length).toBeGreaterThan(9)
+    posts.forEach((post, i) => expect(post.text.endsWith(` ${i + 1}/${posts.length}`)).toBe(true))
+    expect(Math.max(...lengths(posts))).toBeLessThanOrEqual(30)
+    expect(posts.map((post) => post.text.replace(/ \d+\/\d+$/, '')).join(' ')).toBe(text)
+  })
+
+  it('leaves out numbering when the marker would fill a post', () => {
+    expect(
+      splitRichTextIntoThread({ text: 'abcdef' }, { maxGraphemes: 3, numbering: true }).map(
+        (post) => post.text,
+      ),
+    ).toEqual(['abc', 'def'])
+    // " 4/4" fits in 5 graphemes, but the resulting " 20/20" doesn't
+    expect(
+      splitRichTextIntoThread({ text: 'a'.repeat(20) }, { maxGraphemes: 5, numbering: true }).map(
+        (post) => post.text,
+      ),
+    ).toEqual(['aaaaa', 'aaaaa', 'aaaaa', 'aaaaa'])
+  })
+
+  it('treats a budget below one grapheme as one', () => {
+    for (const maxGraphemes of [0, -1, NaN]) {
+      expect(
+        splitRichTextIntoThread({ text: 'hi 👍🏽' }, { maxGraphemes }).map((post) => post.text),
+      ).toEqual(['h', 'i', '👍🏽'])
+      expect(splitOverflow({ text: 'hi' }, maxGraphemes)).toEqual({
+        head: { text: 'h' },
+        rest: { text: 'i' },
+        restByteStart: 1,
+      })
+    }
+  })
+})
@@ -0,0 +1,226 @@
+/**
+ * Splitting long richtext into a thread of posts.
+ *
+ * Text is broken where a person would thread it by hand — preferably at a
+ * paragraph or sentence end, otherwise between words — and never inside a
+ * facet, so every link, mention and tag lands whole in one post with its
+ * byte range re-based onto that post's text.
+ */
+
+import type { RichTextRecord } from '../types/facets'
+import { createUtf8IndexMap, type Utf8IndexMap } from './utf8'
+import { sliceRichText } from './operations'
+import { graphemeIndexToCharIndex, graphemeLength, MAX_POST_GRAPHEMES } from './graphemes'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface SplitRichTextIntoThreadOptions {
+  /**
+   * Maximum graphemes per post, including the numbering marker.
+   * @default 300 (`MAX_POST_GRAPHEMES`)
+   */
+  maxGraphemes?: number
+
+  /**
+   * Append a " 1/n" marker to every post of a thread of two or more posts.
+   * Left out when the marker is as wide as `maxGraphemes` or wider.
+   * @default false
+   */
+  numbering?: boolean
+}
+
+/** A post's range of the source text, as UTF-16 indices (end exclusive) */
+interface ChunkRange {
+  start: number
+  end: number
+}
+
+// ─── Break points ────────────────────────────────────────────────────────────
+
+const WHITESPACE = /\s/
+/** Sentence-ending punctuation, optionally followed by a closing quote or bracket */
+const SENTENCE_END = /[.!?…。！？]["'”’)\]]?$/
+
+function isWhitespace(text: string, index: number): boolean {
+  return WHITESPACE.test(text.charAt(index))
+}
+
+function skipWhitespace(text: string, index: number): number {
+  while (index < text.length && isWhitespace(text, index)) index++
+  return index
+}
+
+function trimEnd(text: string, start: number, end: number): number {
+  while (end > start && isWhitespace(text, end - 1)) end--
+  return end
+}
+
+/** The facet `index` falls strictly inside, if any */
+function facetAround(facets: ChunkRange[], index: number): ChunkRange | undefined {
+  return facets.find((facet) => facet.start < index && index < facet.end)
+}
+
+/**
+ * Where to end the post starting at `start`, given that `text` from `start`
+ * to `limit` is the most that fits. Paragraph and sentence ends are only
+ * preferred in the second half of the post, so a short opening sentence
+ * doesn't make for a near-empty post.
+ */
+function findBreak(
+  text: string,
+  start: number,
+  limit: number,
+  half: number,
+  facets: ChunkRange[],
+): number {
+  let sentence: number | undefined
+  let word: number | undefined
+
+  for (let index = limit; index > start; index--) {
+    if (!isWhitespace(text, index) || isWhitespace(text, index - 1)) continue
+    if (facetAround(facets, index)) continue
+    if (index >= half) {
+      const gap = text.slice(index, skipWhitespace(text, index))
+      if (gap.includes('\n')) return index
+      if (sentence === undefined && SENTENCE_END.test(text.slice(start, index))) sentence = index
+    }
+    word ??= index
+  }
+  if (sentence !== undefined) return sentence
+  if (word !== undefined) return word
+
+  // A single word longer than a post: cut it at the limit, or around a facet
+  const facet = facetAround(facets, limit)
+  if (!facet) return limit
+  return facet.start > start ? facet.start : facet.end
+}
+
+/** `maxGraphemes` as a whole number of at least 1, so every post holds some text */
+function toBudget(maxGraphemes: number): number {
+  return Number.isNaN(maxGraphemes) ? 1 : Math.max(1, Math.floor(maxGraphemes))
+}
+
+/**
+ * Split `text` into post ranges of at most `budget` graphemes each —
+ * except for a facet longer than a whole post, which is kept intact.
+ */
+function findChunks(text: string, facets: ChunkRange[], budget: number): ChunkRange[] {
+  const chunks: ChunkRange[] = []
+  let start = skipWhitespace(text, 0)
+
+  while (start < text.length) {
+    const rest = text.slice(start)
+    const limit = start + graphemeIndexToCharIndex(rest, budget)
+    if (limit >= text.length || graphemeLength(rest.trimEnd()) <= budget) {
+      chunks.push({ start, end: trimEnd(text, start, text.length) })
+      break
+    }
+    const half = start + graphemeIndexToCharIndex(rest, Math.floor(budget / 2))
+    // Always advance by at least one grapheme, whatever the break search found
+    const end = Math.max(
+      findBreak(text, start, limit, half, facets),
+      start + graphemeIndexToCharIndex(rest, 1),
+    )
+    chunks.push({ start, end: trimEnd(text, start, end) })
+    start = skipWhitespace(text, end)
+  }
+
+  return chunks
+}
+
+/** The facets of `record` as UTF-16 ranges */
+function facetRanges(record: RichTextRecord, map: Utf8IndexMap): ChunkRange[] {
+  return (record.facets ?? []).map(({ index }) => ({
+    start: map.byteToCharIndex(index.byteStart),
+    end: map.byteToCharIndex(index.byteEnd),
+  }))
+}
+
+/** The post `chunk` of `record`, with the facets inside it re-based */
+function sliceChunk(record: RichTextRecord, map: Utf8IndexMap, chunk: ChunkRange): RichTextRecord {
+  return sliceRichText(record, map.charToByteIndex(chunk.start), map.charToByteIndex(chunk.end))
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Split a record into posts of at most `maxGraphemes` graphemes.
+ *
+ * Whitespace at each break is dropped. A record that already fits is
+ * returned as the only post, unchanged and without a marker. With
+ * `numbering`, room for the " i/n" marker is reserved in every post; posts
+ * are left unnumbered when the marker alone would fill `maxGraphemes`.
+ * A `maxGraphemes` below 1 (or `NaN`) is treated as 1.
+ *
+ * @example
+ * splitRichTextIntoThread({ text: longText }, { maxGraphemes: 300, numbering: true })
+ * // => [{ text: 'First part… 1/3' }, { text: '… 2/3' }, { text: '… 3/3' }]
+ */
+export function splitRichTextIntoThread(
+  record: RichTextRecord,
+  { maxGraphemes = MAX_POST_GRAPHEMES, numbering = false }: SplitRichTextIntoThreadOptions = {},
+): RichTextRecord[] {
+  const map = createUtf8IndexMap(record.text)
+  const facets = facetRanges(record, map)
+  const budget = toBudget(maxGraphemes)
+
+  let chunks = findChunks(record.text, facets, budget)
+  if (chunks.length <= 1) return [record]
+
+  let numbered = numbering
+  if (numbering) {
+    // The marker's width depends on the post count, which depends on the
+    // marker's width — re-split until the count stops growing
+    let total = 1
+    while (numbered && chunks.length > total) {
+      total = chunks.length
+      const marker = graphemeLength(` ${total}/${total}`)
+      if (marker < budget) {
+        chunks = findChunks(record.text, facets, budget - marker)
+      } else {
+        // No room left for text next to the marker
+        numbered = false
+        chunks = findChunks(record.text, facets, budget)
+      }
+    }
+  }
+
+  return chunks.map((chunk, i) => {
+    const post = sliceChunk(record, map, chunk)
+    return numbered ? { ...post, text: `${post.text} ${i + 1}/${chunks.length}` } : post
+  })
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────────
+
+/**
+ * A record split into its first post and everything after it.
+ */
+export interface RichTextOverflow {
+  /** The first post */
+  head: RichTextRecord
+  /** The rest of the text, not yet split further */
+  rest: RichTextRecord
+  /** Byte offset in the original text where `rest` begins */
+  restByteStart: number
+}
+
+/**
+ * Split off whatever doesn't fit in the first post of `record`, or return
+ * `undefined` when all of it fits. Used by `ThreadComposer` to flow
+ * overflow into the next post.
+ */
+export function splitOverflow(
+  record: RichTextRecord,
+  maxGraphemes: number,
+): RichTextOverflow | undefined {
+  const map = createUtf8IndexMap(record.text)
+  const budget = toBudget(maxGraphemes)
+  const [head, next] = findChunks(record.text, facetRanges(record, map), budget)
+  if (!head || !next) return undefined
+  return {
+    head: sliceChunk(record, map, head),
+    rest: sliceChunk(record, map, { start: next.start, end: record.text.length }),
+    restByteStart: map.charToByteIndex(next.start),
+  }
+}
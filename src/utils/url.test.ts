@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { expandShortenedLinks, shortenLinks, toShortUrl } from './url'
+import { createUtf8IndexMap } from './utf8'
+import type { RichTextRecord } from '../types/facets'
+import { facetFor } from '../test/facets'
+
+/** The text covered by every facet of `record` */
+function facetTexts(record: RichTextRecord): string[] {
+  const indexMap = createUtf8IndexMap(record.text)
+  return (record.facets ?? []).map(({ index }) => indexMap.slice(index.byteStart, index.byteEnd))
+}
+
+const longUrl = 'https://example.com/a/very/long/path/to/a/page'
+const text = `🦋 example.com or ${longUrl} #atproto`
+const record: RichTextRecord = {
+  text,
+  facets: [
+    facetFor(text, 'example.com', {
+      $type: 'app.bsky.richtext.facet#link',
+      uri: 'https://example.com',
+    }),
+    facetFor(text, longUrl, { $type: 'app.bsky.richtext.facet#link', uri: longUrl }),
+    facetFor(text, '#atproto', { $type: 'app.bsky.richtext.facet#tag', tag: 'atproto' }),
+  ],
+}
+
+describe('toShortUrl', () => {
+  it('strips the protocol and truncates long URLs', () => {
+    expect(toShortUrl('https://www.example.com/')).toBe('example.com')
+    expect(toShortUrl(longUrl)).toBe('example.com/a/very/long/path/t…')
+    expect(toShortUrl('not a url')).toBe('not a url')
+  })
+})
+
+describe('shortenLinks', () => {
+  it('shortens links whose text is the full URI and shifts later facets', () => {
+    const shortened = shortenLinks(record)
+    expect(shortened.text).toBe('🦋 example.com or example.com/a/very/long/path/t… #atproto')
+    expect(facetTexts(shortened)).toEqual([
+      'example.com',
+      'example.com/a/very/long/path/t…',
+      '#atproto',
+    ])
+    expect(shortened.facets?.[1]?.features).toEqual(record.facets?.[1]?.features)
+  })
+
+  it('leaves records without full-URI links untouched', () => {
+    const plain = { text: 'see example.com' }
+    expect(shortenLinks(plain)).toBe(plain)
+    const short = shortenLinks(record)
+    expect(shortenLinks(short)).toBe(short)
+  })
+
+  it('drops facets that overlap a shortened link', () => {
+    const overlapping: RichTextRecord = {
+      ...record,
+      facets: [
+        ...(record.facets ?? []),
+        facetFor(text, 'page #', { $type: 'app.bsky.richtext.facet#tag', tag: 'page' }),
+      ],
+    }
+    expect(facetTexts(shortenLinks(overlapping))).toHaveLength(3)
+  })
+
+  it('is reversed by expandShortenedLinks', () => {
+    expect(expandShortenedLinks(shortenLinks(record))).toEqual(record)
+  })
+})
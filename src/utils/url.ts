@@ -2,6 +2,10 @@
  * URL display utilities for richtext rendering.
  */
 
+import type { Facet, RichTextRecord } from '../types/facets'
+import { isLinkFeature } from '../types/facets'
+import { createUtf8IndexMap, utf8ByteLength } from './utf8'
+
 /**
  * Shorten a URL for display purposes — strips the protocol and truncates
  * the path if it's very long (mirrors Bluesky's `toShortUrl` behaviour).
@@ -37,3 +41,196 @@ export function isValidUrl(url: string): boolean {
     return false
   }
 }
+
+/**
+ * Turn user input into a link URI: trims it and adds "https://" when there is
+ * no protocol. Returns `undefined` unless the result is a valid http(s) URL.
+ *
+ * @example
+ * normalizeLinkUri(' bsky.app/about ') // => 'https://bsky.app/about'
+ * normalizeLinkUri('javascript:alert(1)') // => undefined
+ */
+export function normalizeLinkUri(input: string): string | undefined {
+  const trimmed = input.trim()
+  if (!trimmed || /\s/.test(trimmed)) return undefined
+
+  const uri = /^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`
+  try {
+    const { protocol, hostname } = new URL(uri)
+    if ((protocol !== 'http:' && protocol !== 'https:') || !hostname) return undefined
+    return uri
+  } catch {
+    return undefined
+  }
+}
+
+// ─── Link text rewriting ─────────────────────────────────────────────────────
+
+/** A byte range of the text replaced by `replacement` */
+interface LinkTextEdit {
+  byteStart: number
+  byteEnd: number
+  /** The link text being replaced */
+  text: string
+  replacement: string
+}
+
+/**
+ * The edits `rewrite(text, uri)` makes to the text of link facets (skipped
+ * when it returns `undefined`), in text order.
+ */
+function findLinkTextEdits(
+  record: RichTextRecord,
+  rewrite: (text: string, uri: string) => string | undefined,
+): LinkTextEdit[] {
+  if (!record.facets?.length) return []
+
+  const indexMap = createUtf8IndexMap(record.text)
+  const edits: LinkTextEdit[] = []
+  const sorted = [...record.facets].sort((a, b) => a.index.byteStart - b.index.byteStart)
+  for (const { index, features } of sorted) {
+    const link = features.find(isLinkFeature)
+    const previous = edits[edits.length - 1]
+    if (!link || (previous && index.byteStart < previous.byteEnd)) continue
+
+    const text = indexMap.slice(index.byteStart, index.byteEnd)
+    const replacement = rewrite(text, link.uri)
+    if (replacement === undefined || replacement === text) continue
+    edits.push({ byteStart: index.byteStart, byteEnd: index.byteEnd, text, replacement })
+  }
+  return edits
+}
+
+/** New position of `offset` after `edits`, or `undefined` when it falls inside one */
+function mapOffset(edits: LinkTextEdit[], offset: number): number | undefined {
+  let delta = 0
+  for (const edit of edits) {
+    if (offset <= edit.byteStart) break
+    if (offset < edit.byteEnd) return undefined
+    delta += utf8ByteLength(edit.replacement) - (edit.byteEnd - edit.byteStart)
+  }
+  return offset + delta
+}
+
+/**
+ * Replace the text of link facets with `rewrite(text, uri)` (skipped when it
+ * returns `undefined`), shifting the byte offsets of every following facet.
+ * Facets that start or end inside a rewritten link are dropped — their text
+ * no longer exists.
+ */
+function rewriteLinkTexts(
+  record: RichTextRecord,
+  rewrite: (text: string, uri: string) => string | undefined,
+): RichTextRecord {
+  const edits = findLinkTextEdits(record, rewrite)
+  if (!edits.length || !record.facets) return record
+
+  const indexMap = createUtf8IndexMap(record.text)
+  let text = ''
+  let last = 0
+  for (const edit of edits) {
+    text += indexMap.slice(last, edit.byteStart) + edit.replacement
+    last = edit.byteEnd
+  }
+  text += indexMap.slice(last, indexMap.byteLength)
+
+  const facets: Facet[] = []
+  for (const facet of record.facets) {
+    const edit = edits.find(
+      (e) => e.byteStart === facet.index.byteStart && e.byteEnd === facet.index.byteEnd,
+    )
+    const byteStart = mapOffset(edits, facet.index.byteStart)
+    if (byteStart === undefined) continue
+    // A rewritten link ends where its replacement text ends
+    const byteEnd = edit
+      ? byteStart + utf8ByteLength(edit.replacement)
+      : mapOffset(edits, facet.index.byteEnd)
+    if (byteEnd === undefined) continue
+    facets.push({ ...facet, index: { byteStart, byteEnd } })
+  }
+
+  return { ...record, text, ...(facets.length ? { facets } : {}) }
+}
+
+/** The `shortenLinks` rewrite */
+function toShortLinkText(maxLength?: number) {
+  return (text: string, uri: string): string | undefined =>
+    text === uri ? toShortUrl(uri, maxLength) : undefined
+}
+
+/**
+ * Collapse every link whose text is its full URI to the `toShortUrl` form,
+ * keeping the full URI in the link facet. Links with custom text (e.g. a
+ * bare "example.com" detected as `https://example.com`) are left alone, and
+ * the byte offsets of every other facet are shifted accordingly.
+ *
+ * Mirrors `shortenLinks` in Bluesky's social-app, which the composer applies
+ * before posting so long URLs do not use up the 300-grapheme limit.
+ *
+ * @example
+ * shortenLinks({
+ *   text: 'see https://example.com/a/very/long/path/to/a/page',
+ *   facets: [{ index: { byteStart: 4, byteEnd: 50 }, features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://example.com/a/very/long/path/to/a/page' }] }],
+ * })
+ * // => {
+ * //   text: 'see example.com/a/very/long/path/t…',
+ * //   facets: [{ index: { byteStart: 4, byteEnd: 37 }, features: [{ …, uri: 'https://example.com/a/very/long/path/to/a/page' }] }],
+ * // }
+ */
+export function shortenLinks(record: RichTextRecord, maxLength?: number): RichTextRecord {
+  return rewriteLinkTexts(record, toShortLinkText(maxLength))
+}
+
+/**
+ * Convert UTF-8 byte offsets between `record.text` and the text of
+ * `shortenLinks(record, maxLength)`. In both directions an offset inside a
+ * shortened link maps to the start of the link.
+ *
+ * @example
+ * const offsets = createShortenedLinkOffsetMap(record)
+ * const byteStart = offsets.toShortened(cursor) // e.g. for a selection in the full text
+ */
+export function createShortenedLinkOffsetMap(
+  record: RichTextRecord,
+  maxLength?: number,
+): { toShortened: (offset: number) => number; toFull: (offset: number) => number } {
+  const edits = findLinkTextEdits(record, toShortLinkText(maxLength))
+
+  // The same edits, undone in the shortened text
+  const inverse: LinkTextEdit[] = []
+  let delta = 0
+  for (const { byteStart, byteEnd, text, replacement } of edits) {
+    const start = byteStart + delta
+    const length = utf8ByteLength(replacement)
+    inverse.push({
+      byteStart: start,
+      byteEnd: start + length,
+      text: replacement,
+      replacement: text,
+    })
+    delta += length - (byteEnd - byteStart)
+  }
+
+  const map = (from: LinkTextEdit[], offset: number): number => {
+    const inside = from.find((edit) => edit.byteStart < offset && offset < edit.byteEnd)
+    return mapOffset(from, inside ? inside.byteStart : offset) ?? offset
+  }
+  return {
+    toShortened: (offset) => map(edits, offset),
+    toFull: (offset) => map(inverse, offset),
+  }
+}
+
+/**
+ * Inverse of `shortenLinks`: restore the full URI as the text of every link
+ * whose text is the `toShortUrl` form of its URI. A short form that is
+ * already a bare "https://" link (e.g. "example.com") is kept as typed, since
+ * link detection gives it the same URI.
+ */
+export function expandShortenedLinks(record: RichTextRecord, maxLength?: number): RichTextRecord {
+  return rewriteLinkTexts(record, (text, uri) =>
+    text !== uri && `https://${text}` !== uri && text === toShortUrl(uri, maxLength)
+      ? uri
+      : undefined,
+  )
+}
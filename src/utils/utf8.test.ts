@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createUtf8IndexMap,
+  sliceByByteOffset,
+  utf8ByteLength,
+  utf8ByteOffsetToCharIndex,
+} from './utf8'
+
+const encoder = new TextEncoder()
+
+/** Reference conversion: encode, then decode the prefix. */
+function referenceCharIndex(text: string, byteOffset: number): number {
+  return new TextDecoder().decode(encoder.encode(text).slice(0, byteOffset)).length
+}
+
+describe('createUtf8IndexMap', () => {
+  const samples = [
+    'Hello world',
+    'héllo wörld',
+    '日本語のテキスト',
+    '🎉 Cool! 👍🏽 #tag',
+    'a\nb\r\nc',
+    '',
+  ]
+
+  it('reports the same byte length as TextEncoder', () => {
+    for (const text of samples) {
+      expect(createUtf8IndexMap(text).byteLength).toBe(encoder.encode(text).length)
+    }
+  })
+
+  it('maps every character boundary like decoding the byte prefix', () => {
+    for (const text of samples) {
+      const map = createUtf8IndexMap(text)
+      for (const char of text) {
+        const charIndex = text.indexOf(char)
+        const byteOffset = encoder.encode(text.slice(0, charIndex)).length
+        expect(map.byteToCharIndex(byteOffset)).toBe(referenceCharIndex(text, byteOffset))
+        expect(map.charToByteIndex(charIndex)).toBe(byteOffset)
+      }
+      expect(map.byteToCharIndex(map.byteLength)).toBe(text.length)
+      expect(map.charToByteIndex(text.length)).toBe(map.byteLength)
+    }
+  })
+
+  it('slices by byte offsets', () => {
+    const map = createUtf8IndexMap('🎉 Cool!')
+    expect(map.slice(0, 4)).toBe('🎉')
+    expect(map.slice(5, 9)).toBe('Cool')
+  })
+
+  it('snaps offsets inside a multi-byte character to its start', () => {
+    const map = createUtf8IndexMap('a🎉b')
+    expect(map.byteToCharIndex(2)).toBe(1)
+    expect(map.byteToCharIndex(4)).toBe(1)
+    expect(map.byteToCharIndex(5)).toBe(3)
+    // Between the two halves of the surrogate pair
+    expect(map.charToByteIndex(2)).toBe(1)
+  })
+
+  it('detects offsets inside a multi-byte character', () => {
+    const map = createUtf8IndexMap('a🎉b')
+    expect([0, 1, 2, 3, 4, 5, 6].map(map.isCodePointBoundary)).toEqual([
+      true,
+      true,
+      false,
+      false,
+      false,
+      true,
+      true,
+    ])
+    expect(map.isCodePointBoundary(-1)).toBe(false)
+    expect(map.isCodePointBoundary(7)).toBe(false)
+  })
+
+  it('clamps out-of-range offsets', () => {
+    const map = createUtf8IndexMap('Hi')
+    expect(map.byteToCharIndex(-1)).toBe(0)
+    expect(map.byteToCharIndex(10)).toBe(2)
+    expect(map.charToByteIndex(10)).toBe(2)
+    expect(map.slice(1, 20)).toBe('i')
+  })
+
+  it('counts lone surrogates as U+FFFD (3 bytes), like TextEncoder', () => {
+    const text = 'a\uD83Db'
+    const map = createUtf8IndexMap(text)
+    expect(map.byteLength).toBe(5)
+    expect(map.byteToCharIndex(4)).toBe(2)
+    expect(map.slice(4, 5)).toBe('b')
+  })
+})
+
+describe('one-off helpers', () => {
+  it('utf8ByteOffsetToCharIndex and sliceByByteOffset use the same mapping', () => {
+    const text = 'Hello 🎉 world'
+    expect(utf8ByteOffsetToCharIndex(text, 10)).toBe(8)
+    expect(sliceByByteOffset(text, 11, 16)).toBe('world')
+    expect(utf8ByteLength(text)).toBe(16)
+  })
+})
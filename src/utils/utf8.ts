@@ -16,25 +16,129 @@ export function toUtf8Bytes(text: string): Uint8Array {
   return encoder.encode(text)
 }
 
+// ─── Index map ───────────────────────────────────────────────────────────────
+
+/**
+ * Precomputed two-way mapping between UTF-8 byte offsets and UTF-16 string
+ * indices for a single string. Build it once with `createUtf8IndexMap()` and
+ * reuse it for every facet of a record — each lookup is O(1).
+ */
+export interface Utf8IndexMap {
+  /** The string the map was built for */
+  readonly text: string
+  /** UTF-8 byte length of `text` */
+  readonly byteLength: number
+  /**
+   * Convert a UTF-8 byte offset to a UTF-16 string index.
+   * Offsets are clamped to `[0, byteLength]`; an offset that falls inside a
+   * multi-byte character maps to the start of that character.
+   */
+  byteToCharIndex: (byteOffset: number) => number
+  /**
+   * Convert a UTF-16 string index to a UTF-8 byte offset.
+   * Indices are clamped to `[0, text.length]`; an index that falls between the
+   * two halves of a surrogate pair maps to the start of the pair.
+   */
+  charToByteIndex: (charIndex: number) => number
+  /** Slice `text` using UTF-8 byte offsets (inclusive start, exclusive end). */
+  slice: (byteStart: number, byteEnd: number) => string
+  /**
+   * Whether `byteOffset` is an integer in `[0, byteLength]` that falls between
+   * two code points (i.e. not inside a multi-byte character).
+   */
+  isCodePointBoundary: (byteOffset: number) => boolean
+}
+
+function clamp(value: number, max: number): number {
+  return value <= 0 ? 0 : value >= max ? max : Math.floor(value)
+}
+
+/**
+ * Build a `Utf8IndexMap` for `text` in a single pass over its code units.
+ *
+ * Byte lengths follow `TextEncoder`: lone surrogates are encoded as U+FFFD
+ * (3 bytes), exactly as they would be when the record is serialised.
+ *
+ * @example
+ * const map = createUtf8IndexMap('🎉 hi')
+ * map.byteToCharIndex(4) // => 2
+ * map.slice(5, 7)        // => 'hi'
+ */
+export function createUtf8IndexMap(text: string): Utf8IndexMap {
+  // Worst case is 3 bytes per UTF-16 code unit
+  const byteToChar = new Uint32Array(text.length * 3 + 1)
+  const charToByte = new Uint32Array(text.length + 1)
+
+  let byte = 0
+  let i = 0
+  while (i < text.length) {
+    const code = text.charCodeAt(i)
+    let units = 1
+    let bytes: number
+
+    if (code < 0x80) {
+      bytes = 1
+    } else if (code < 0x800) {
+      bytes = 2
+    } else if (code >= 0xd800 && code <= 0xdbff) {
+      const next = text.charCodeAt(i + 1)
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        // Surrogate pair — one 4-byte code point
+        units = 2
+        bytes = 4
+      } else {
+        bytes = 3
+      }
+    } else {
+      bytes = 3
+    }
+
+    for (let b = 0; b < bytes; b++) byteToChar[byte + b] = i
+    for (let u = 0; u < units; u++) charToByte[i + u] = byte
+
+    byte += bytes
+    i += units
+  }
+
+  byteToChar[byte] = text.length
+  charToByte[text.length] = byte
+  const byteLength = byte
+
+  const byteToCharIndex = (byteOffset: number) => byteToChar[clamp(byteOffset, byteLength)] ?? 0
+  const charToByteIndex = (charIndex: number) => charToByte[clamp(charIndex, text.length)] ?? 0
+
+  return {
+    text,
+    byteLength,
+    byteToCharIndex,
+    charToByteIndex,
+    slice: (byteStart, byteEnd) => text.slice(byteToCharIndex(byteStart), byteToCharIndex(byteEnd)),
+    isCodePointBoundary: (byteOffset) =>
+      Number.isInteger(byteOffset) &&
+      byteOffset >= 0 &&
+      byteOffset <= byteLength &&
+      charToByte[byteToChar[byteOffset] ?? 0] === byteOffset,
+  }
+}
+
+// ─── One-off conversions ─────────────────────────────────────────────────────
+
 /**
  * Convert a UTF-8 byte offset to a JavaScript (UTF-16) string index.
  * Needed when slicing a JS string using AT Protocol byte offsets.
+ *
+ * Builds a fresh index map on every call — when converting several offsets
+ * of the same string, use `createUtf8IndexMap()` instead.
  */
 export function utf8ByteOffsetToCharIndex(text: string, byteOffset: number): number {
-  const bytes = encoder.encode(text)
-  // Decode only up to the byte offset, then measure the resulting string length
-  const decoder = new TextDecoder()
-  const slice = bytes.slice(0, byteOffset)
-  return decoder.decode(slice).length
+  return createUtf8IndexMap(text).byteToCharIndex(byteOffset)
 }
 
 /**
  * Slice a string using UTF-8 byte offsets (inclusive start, exclusive end).
  */
 export function sliceByByteOffset(text: string, byteStart: number, byteEnd: number): string {
-  const startChar = utf8ByteOffsetToCharIndex(text, byteStart)
-  const endChar = utf8ByteOffsetToCharIndex(text, byteEnd)
-  return text.slice(startChar, endChar)
+  return createUtf8IndexMap(text).slice(byteStart, byteEnd)
 }
 
 /**
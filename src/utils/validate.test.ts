@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest'
+import { sanitizeRichText, validateRichText } from './validate'
+import type { Facet, FacetFeature, RichTextRecord } from '../types/facets'
+
+const mention: FacetFeature = { $type: 'app.bsky.richtext.facet#mention', did: 'did:plc:alice' }
+const link: FacetFeature = { $type: 'app.bsky.richtext.facet#link', uri: 'https://bsky.app' }
+const tag: FacetFeature = { $type: 'app.bsky.richtext.facet#tag', tag: 'atproto' }
+
+function facet(byteStart: number, byteEnd: number, ...features: FacetFeature[]): Facet {
+  return { index: { byteStart, byteEnd }, features }
+}
+
+describe('validateRichText', () => {
+  it('accepts a valid record', () => {
+    const record: RichTextRecord = {
+      text: '@alice https://bsky.app #atproto',
+      facets: [facet(0, 6, mention), facet(7, 23, link), facet(24, 32, tag)],
+    }
+    expect(validateRichText(record)).toEqual({ valid: true, errors: [] })
+  })
+
+  it('accepts a record without facets', () => {
+    expect(validateRichText({ text: 'Hello' }).valid).toBe(true)
+  })
+
+  it('reports invalid indices and ranges with the facet index', () => {
+    const { valid, errors } = validateRichText({
+      text: 'Hello world',
+      facets: [facet(-1, 5, tag), facet(1.5, 3, tag), facet(5, 5, tag), facet(6, 99, tag)],
+    })
+
+    expect(valid).toBe(false)
+    expect(errors.map((e) => [e.facetIndex, e.code])).toEqual([
+      [0, 'invalid-index'],
+      [1, 'invalid-index'],
+      [2, 'invalid-range'],
+      [3, 'invalid-range'],
+    ])
+  })
+
+  it('reports invalid features with facet and feature indices', () => {
+    const { errors } = validateRichText({
+      text: 'Hello world',
+      facets: [
+        facet(0, 5, mention, {
+          $type: 'app.bsky.richtext.facet#mention',
+          did: 'alice.bsky.social',
+        }),
+        facet(6, 11, { $type: 'app.bsky.richtext.facet#link', uri: 'not a uri' }),
+        facet(6, 11, { $type: 'app.bsky.richtext.facet#tag', tag: 'x'.repeat(65) }),
+        facet(6, 11, { $type: 'app.bsky.richtext.facet#tag', tag: '' }),
+        facet(6, 11, { $type: 'com.example.unknown' } as unknown as FacetFeature),
+      ],
+    })
+
+    expect(errors.map((e) => [e.facetIndex, e.featureIndex, e.code])).toEqual([
+      [0, 1, 'invalid-did'],
+      [1, 0, 'invalid-uri'],
+      [2, 0, 'invalid-tag'],
+      [3, 0, 'invalid-tag'],
+      [4, 0, 'unknown-feature'],
+    ])
+  })
+
+  it('measures tags in UTF-8 bytes and graphemes', () => {
+    // 64 family emoji: 64 graphemes but 1600 bytes
+    const family = '👨‍👩‍👧‍👦'.repeat(64)
+    const { errors } = validateRichText({
+      text: 'Hello',
+      facets: [facet(0, 5, { $type: 'app.bsky.richtext.facet#tag', tag: family })],
+    })
+    expect(errors[0]?.message).toMatch(/640 bytes/)
+
+    // 64 graphemes within 640 bytes is fine
+    expect(
+      validateRichText({
+        text: 'Hello',
+        facets: [facet(0, 5, { $type: 'app.bsky.richtext.facet#tag', tag: 'é'.repeat(64) })],
+      }).valid,
+    ).toBe(true)
+  })
+
+  it('reports non-array features', () => {
+    const { errors } = validateRichText({
+      text: 'Hello',
+      facets: [{ index: { byteStart: 0, byteEnd: 5 }, features: null } as unknown as Facet],
+    })
+    expect(errors).toEqual([expect.objectContaining({ facetIndex: 0, code: 'invalid-features' })])
+  })
+
+  it('reports null and non-object facets, indices and features', () => {
+    const { errors } = validateRichText({
+      text: 'Hello',
+      facets: [
+        null,
+        'facet',
+        { index: null, features: [tag] },
+        facet(0, 5, null as unknown as FacetFeature, tag, 42 as unknown as FacetFeature),
+      ] as unknown as Facet[],
+    })
+    expect(errors.map((e) => [e.facetIndex, e.featureIndex, e.code])).toEqual([
+      [0, undefined, 'invalid-index'],
+      [1, undefined, 'invalid-index'],
+      [2, undefined, 'invalid-index'],
+      [3, 0, 'invalid-features'],
+      [3, 2, 'invalid-features'],
+    ])
+  })
+})
+
+describe('sanitizeRichText', () => {
+  it('returns a valid record unchanged', () => {
+    const record: RichTextRecord = { text: 'Hello world', facets: [facet(0, 5, tag)] }
+    expect(sanitizeRichText(record)).toBe(record)
+  })
+
+  it('drops invalid facets and features without mutating the input', () => {
+    const placeholder: FacetFeature = {
+      $type: 'app.bsky.richtext.facet#mention',
+      did: 'alice.bsky.social',
+    }
+    const record: RichTextRecord = {
+      text: 'Hello world',
+      facets: [facet(0, 5, tag, placeholder), facet(6, 11, placeholder), facet(6, 99, link)],
+    }
+    const snapshot = structuredClone(record)
+
+    const sanitized = sanitizeRichText(record)
+
+    expect(sanitized).toEqual({ text: 'Hello world', facets: [facet(0, 5, tag)] })
+    expect(validateRichText(sanitized).valid).toBe(true)
+    expect(record).toEqual(snapshot)
+  })
+
+  it('drops null facets and features', () => {
+    expect(
+      sanitizeRichText({
+        text: 'Hello',
+        facets: [null, facet(0, 5, null as unknown as FacetFeature, tag)] as unknown as Facet[],
+      }),
+    ).toEqual({ text: 'Hello', facets: [facet(0, 5, tag)] })
+  })
+
+  it('omits facets entirely when none are valid', () => {
+    expect(sanitizeRichText({ text: 'Hello', facets: [facet(0, 5)] })).toEqual({ text: 'Hello' })
+  })
+})
@@ -0,0 +1,267 @@
+/**
+ * Richtext validation — check a record's facets against the
+ * `app.bsky.richtext.facet` lexicon (lexicons/app/richtext/facet.json).
+ *
+ * Mirrors the checks a PDS applies when a post is created:
+ *  - `index.byteStart` / `index.byteEnd` are non-negative integers
+ *  - `features` is an array of known feature types
+ *  - mention `did` has the `did` string format
+ *  - link `uri` has the `uri` string format
+ *  - tag `tag` is at most 640 bytes and 64 graphemes
+ *
+ * Additionally, facets whose range is empty, reversed or runs past the end of
+ * the text are reported, since they can never be rendered.
+ *
+ * Records are often parsed from untrusted JSON, so every field is checked at
+ * runtime regardless of its TypeScript type.
+ */
+
+import type { AnyFacetFeature, Facet, RichTextRecord } from '../types/facets'
+import { graphemeLength } from './graphemes'
+import { utf8ByteLength } from './utf8'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/**
+ * Machine-readable reason for a `RichTextValidationError`:
+ * - `invalid-index`    — the facet or its `index` is not an object, or `byteStart` /
+ *                        `byteEnd` is not a non-negative integer
+ * - `invalid-range`    — the range is empty, reversed, or past the end of the text
+ * - `invalid-features` — `features` is not an array, or a feature is not an object
+ * - `unknown-feature`  — a feature has an unknown (or missing) `$type`
+ * - `invalid-did`      — a mention's `did` is not a valid DID
+ * - `invalid-uri`      — a link's `uri` is not a valid URI
+ * - `invalid-tag`      — a tag is empty, longer than 640 bytes or 64 graphemes
+ */
+export type RichTextValidationErrorCode =
+  | 'invalid-index'
+  | 'invalid-range'
+  | 'invalid-features'
+  | 'unknown-feature'
+  | 'invalid-did'
+  | 'invalid-uri'
+  | 'invalid-tag'
+
+/**
+ * A single problem found by `validateRichText`.
+ */
+export interface RichTextValidationError {
+  code: RichTextValidationErrorCode
+  /** Index of the offending facet in `record.facets` */
+  facetIndex: number
+  /** Index of the offending feature in the facet's `features`, for feature-level errors */
+  featureIndex?: number
+  /** Human-readable description of the problem */
+  message: string
+}
+
+/**
+ * Result of `validateRichText`.
+ */
+export interface RichTextValidationResult {
+  /** `true` when `errors` is empty */
+  valid: boolean
+  errors: RichTextValidationError[]
+}
+
+// ─── Lexicon constraints ─────────────────────────────────────────────────────
+
+/** `tag.maxLength` in the facet lexicon (UTF-8 bytes) */
+const MAX_TAG_BYTES = 640
+/** `tag.maxGraphemes` in the facet lexicon */
+const MAX_TAG_GRAPHEMES = 64
+/** Maximum DID length accepted by @atproto/syntax */
+const MAX_DID_LENGTH = 2048
+
+/** `did` string format — mirrors `ensureValidDid` in @atproto/syntax */
+const DID_REGEX = /^did:[a-z]+:[a-zA-Z0-9._:%-]*[a-zA-Z0-9._-]$/
+
+/** `uri` string format — mirrors the `uri` format validator in @atproto/lexicon */
+const URI_REGEX = /^\w+:(?:\/\/)?[^\s/][^\s]*$/
+
+const MENTION_TYPE = 'app.bsky.richtext.facet#mention'
+const LINK_TYPE = 'app.bsky.richtext.facet#link'
+const TAG_TYPE = 'app.bsky.richtext.facet#tag'
+
+// ─── Internal helpers ────────────────────────────────────────────────────────
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+function isByteOffset(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+/**
+ * Validate a single feature. Returns the error (without facet/feature indices)
+ * or `undefined` when the feature is valid.
+ */
+function validateFeature(
+  feature: AnyFacetFeature,
+): Pick<RichTextValidationError, 'code' | 'message'> | undefined {
+  // Runtime view of the feature — records may come from untrusted JSON
+  const value: unknown = feature
+  if (!isObject(value)) {
+    return { code: 'invalid-features', message: 'Every feature must be an object' }
+  }
+
+  switch (value.$type) {
+    case MENTION_TYPE: {
+      const { did } = value
+      if (typeof did !== 'string' || did.length > MAX_DID_LENGTH || !DID_REGEX.test(did)) {
+        return { code: 'invalid-did', message: 'Mention "did" must be a valid DID' }
+      }
+      return undefined
+    }
+
+    case LINK_TYPE: {
+      const { uri } = value
+      if (typeof uri !== 'string' || !URI_REGEX.test(uri)) {
+        return { code: 'invalid-uri', message: 'Link "uri" must be a valid URI' }
+      }
+      return undefined
+    }
+
+    case TAG_TYPE: {
+      const { tag } = value
+      if (typeof tag !== 'string' || tag.length === 0) {
+        return { code: 'invalid-tag', message: 'Tag "tag" must be a non-empty string' }
+      }
+      if (utf8ByteLength(tag) > MAX_TAG_BYTES) {
+        return { code: 'invalid-tag', message: `Tag is longer than ${MAX_TAG_BYTES} bytes` }
+      }
+      if (graphemeLength(tag) > MAX_TAG_GRAPHEMES) {
+        return {
+          code: 'invalid-tag',
+          message: `Tag is longer than ${MAX_TAG_GRAPHEMES} graphemes`,
+        }
+      }
+      return undefined
+    }
+
+    default:
+      return {
+        code: 'unknown-feature',
+        message: `Unknown feature type ${JSON.stringify(value.$type ?? null)}`,
+      }
+  }
+}
+
+/**
+ * Validate a facet's `index` and `features` container. Returns the error
+ * (without facet index) or `undefined` when the facet structure is valid.
+ */
+function validateFacetStructure(
+  facet: Facet,
+  textByteLength: number,
+): Pick<RichTextValidationError, 'code' | 'message'> | undefined {
+  const value: unknown = facet
+  if (!isObject(value) || !isObject(value.index)) {
+    return { code: 'invalid-index', message: 'A facet must be an object with an "index" object' }
+  }
+  const { byteStart, byteEnd } = value.index
+
+  if (!isByteOffset(byteStart) || !isByteOffset(byteEnd)) {
+    return {
+      code: 'invalid-index',
+      message: '"byteStart" and "byteEnd" must be non-negative integers',
+    }
+  }
+  if (byteStart >= byteEnd || byteEnd > textByteLength) {
+    return {
+      code: 'invalid-range',
+      message: `Byte range ${byteStart}–${byteEnd} is empty or outside the text (${textByteLength} bytes)`,
+    }
+  }
+  if (!Array.isArray(facet.features)) {
+    return { code: 'invalid-features', message: '"features" must be an array' }
+  }
+  return undefined
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Validate every facet of `record` against the `app.bsky.richtext.facet`
+ * lexicon. All problems are collected — validation does not stop at the first.
+ *
+ * @example
+ * ```ts
+ * const { valid, errors } = validateRichText(record)
+ * if (!valid) {
+ *   for (const { facetIndex, code, message } of errors) {
+ *     console.warn(`facet ${facetIndex}: ${code} — ${message}`)
+ *   }
+ * }
+ * ```
+ */
+export function validateRichText(record: RichTextRecord): RichTextValidationResult {
+  const errors: RichTextValidationError[] = []
+  const textByteLength = utf8ByteLength(record.text)
+
+  for (const [facetIndex, facet] of (record.facets ?? []).entries()) {
+    const structureError = validateFacetStructure(facet, textByteLength)
+    if (structureError) {
+      errors.push({ ...structureError, facetIndex })
+      // Features are still checked when only the range is wrong
+      if (structureError.code !== 'invalid-range') continue
+    }
+    if (!Array.isArray(facet.features)) continue
+
+    for (const [featureIndex, feature] of facet.features.entries()) {
+      const featureError = validateFeature(feature)
+      if (featureError) errors.push({ ...featureError, facetIndex, featureIndex })
+    }
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * Produce a lexicon-valid copy of `record`:
+ *
+ * - facets with an invalid index or range are removed
+ * - invalid or unknown features are removed from their facet
+ * - a facet with no valid features left is removed entirely
+ *
+ * The text is never changed and the input record is never mutated. Returns
+ * the input as-is when it is already valid.
+ *
+ * @example
+ * ```ts
+ * await agent.post({ ...sanitizeRichText(record), createdAt: new Date().toISOString() })
+ * ```
+ */
+export function sanitizeRichText(record: RichTextRecord): RichTextRecord {
+  const { facets } = record
+  if (!facets?.length) return record
+
+  const textByteLength = utf8ByteLength(record.text)
+  let changed = false
+  const nextFacets: Facet[] = []
+
+  for (const facet of facets) {
+    if (validateFacetStructure(facet, textByteLength)) {
+      changed = true
+      continue
+    }
+
+    const features = facet.features.filter((feature) => !validateFeature(feature))
+    if (features.length === 0) {
+      changed = true
+    } else if (features.length !== facet.features.length) {
+      changed = true
+      nextFacets.push({ ...facet, features })
+    } else {
+      nextFacets.push(facet)
+    }
+  }
+
+  if (!changed) return record
+
+  return {
+    text: record.text,
+    ...(nextFacets.length ? { facets: nextFacets } : {}),
+  }
+}
@@ -30,6 +30,7 @@ export default defineConfig({
       exclude: [
         'src/**/*.stories.{ts,tsx}',
         'src/**/*.test.{ts,tsx}',
+        'src/test/**',
         'src/**/index.ts',
         'src/types/**',
       ],